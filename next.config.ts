@@ -5,7 +5,7 @@ const nextConfig: NextConfig = {
   turbopack: {
     root: path.resolve(__dirname),
   },
-  serverExternalPackages: ["pg", "pg-hstore", "sequelize"],
+  serverExternalPackages: ["pg", "pg-hstore", "sequelize", "sqlite3"],
 };
 
 export default nextConfig;
@@ -0,0 +1,49 @@
+import { loadEnvConfig } from "@next/env";
+
+loadEnvConfig(process.cwd());
+
+const run = async () => {
+  const { sequelize } = await import("@/lib/db");
+  const { migrateDown, migrateUp, migrationStatus } = await import(
+    "@/lib/migrations"
+  );
+  const [command = "status", stepsArg] = process.argv.slice(2);
+
+  try {
+    if (command === "up") {
+      const applied = await migrateUp(sequelize);
+      console.log(
+        applied.length > 0
+          ? `Applied ${applied.join(", ")}`
+          : "Schema is up to date.",
+      );
+    } else if (command === "down") {
+      const steps = stepsArg ? Number(stepsArg) : 1;
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error("Steps must be a whole number of 1 or more.");
+      }
+      const reverted = await migrateDown(sequelize, steps);
+      console.log(
+        reverted.length > 0
+          ? `Reverted ${reverted.join(", ")}`
+          : "No migrations to revert.",
+      );
+    } else if (command === "status") {
+      const status = await migrationStatus(sequelize);
+      status.forEach((migration) => {
+        console.log(
+          `${migration.runAt ? migration.runAt.toISOString() : "pending".padEnd(24)}  ${migration.name}`,
+        );
+      });
+    } else {
+      throw new Error(`Unknown command "${command}". Use up, down or status.`);
+    }
+  } finally {
+    await sequelize.close();
+  }
+};
+
+run().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,454 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useTranslator } from "@/components/useTranslator";
+import type { ApiErrorBody } from "@/lib/apiErrors";
+import type { Board } from "@/lib/boards";
+import {
+  formatTimeMs,
+  localizeApiError,
+  type Locale,
+  type MessageKey,
+  type Translator,
+} from "@/lib/i18n";
+import { MODES, ranksByPoints, type GameMode } from "@/lib/modes";
+import styles from "./page.module.css";
+
+const TOKEN_STORAGE_KEY = "alexbd-admin-token";
+
+type AdminScore = {
+  id: number;
+  name: string;
+  playerId: number | null;
+  points: number;
+  candles: number;
+  timeMs: number;
+  email: string | null;
+  status: "published" | "pending";
+  hidden: boolean;
+  hiddenAt: string | null;
+  board: Board;
+  mode: GameMode;
+  boardDate: string | null;
+  createdAt: string;
+};
+
+type AuditEntry = {
+  id: number;
+  scoreId: number;
+  actor: string;
+  action: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: string;
+};
+
+type Filters = {
+  board: string;
+  mode: string;
+  status: string;
+  hidden: string;
+  q: string;
+};
+
+// Kept untranslated so the message follows the language once it loads.
+type AdminError = {
+  data: ApiErrorBody;
+  fallback: MessageKey;
+};
+
+class AdminRequestError extends Error {
+  data: ApiErrorBody;
+
+  constructor(data: ApiErrorBody) {
+    super(data.error ?? "Request failed.");
+    this.data = data;
+  }
+}
+
+const toAdminError = (error: unknown, fallback: MessageKey): AdminError =>
+  error instanceof AdminRequestError
+    ? { data: error.data, fallback: "admin.error.request" }
+    : { data: {}, fallback };
+
+const AUDIT_ACTIONS = ["hide", "unhide", "rename", "delete"] as const;
+
+const formatDate = (value: string, locale: Locale) =>
+  new Date(value).toLocaleString(locale);
+const describeAction = ({ t }: Translator, action: string) => {
+  const known = AUDIT_ACTIONS.find((candidate) => candidate === action);
+  return known ? t(`admin.action.${known}`) : action;
+};
+const describeChange = ({ plural }: Translator, entry: AuditEntry) => {
+  if (entry.action === "rename") {
+    return `${String(entry.before?.name)} → ${String(entry.after?.name)}`;
+  }
+  if (entry.action === "delete") {
+    const candles = plural("scores.candles", Number(entry.before?.candles));
+    return `${String(entry.before?.name)} (${candles})`;
+  }
+  return String(entry.after?.name ?? entry.before?.name ?? "");
+};
+
+export default function AdminPage() {
+  const translator = useTranslator();
+  const { t, plural, locale } = translator;
+  const [token, setToken] = useState("");
+  const [tokenDraft, setTokenDraft] = useState("");
+  const [filters, setFilters] = useState<Filters>({
+    board: "",
+    mode: "",
+    status: "",
+    hidden: "",
+    q: "",
+  });
+  const [scores, setScores] = useState<AdminScore[]>([]);
+  const [total, setTotal] = useState(0);
+  const [audit, setAudit] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [renameId, setRenameId] = useState<number | null>(null);
+  const [renameDraft, setRenameDraft] = useState("");
+  const [error, setError] = useState<AdminError | null>(null);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    const savedToken = window.sessionStorage.getItem(TOKEN_STORAGE_KEY);
+    if (savedToken) {
+      setToken(savedToken);
+      setTokenDraft(savedToken);
+    }
+  }, []);
+
+  const adminFetch = useCallback(
+    async <T,>(path: string, init?: RequestInit) => {
+      const response = await fetch(path, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        cache: "no-store",
+      });
+      const data = (await response.json()) as T & ApiErrorBody;
+      if (!response.ok) {
+        throw new AdminRequestError(data);
+      }
+      return data;
+    },
+    [token],
+  );
+
+  const loadScores = useCallback(async () => {
+    if (!token) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
+      const [scoreData, auditData] = await Promise.all([
+        adminFetch<{ scores: AdminScore[]; total: number }>(
+          `/api/admin/scores?${params.toString()}`,
+        ),
+        adminFetch<{ actions: AuditEntry[] }>("/api/admin/audit"),
+      ]);
+      setScores(scoreData.scores);
+      setTotal(scoreData.total);
+      setAudit(auditData.actions);
+    } catch (loadError) {
+      setError(toAdminError(loadError, "admin.error.load"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [adminFetch, filters, token]);
+
+  useEffect(() => {
+    void loadScores();
+  }, [loadScores]);
+
+  const saveToken = () => {
+    const cleaned = tokenDraft.trim();
+    setToken(cleaned);
+    if (typeof window !== "undefined") {
+      window.sessionStorage.setItem(TOKEN_STORAGE_KEY, cleaned);
+    }
+  };
+
+  const runAction = async (id: number, action: () => Promise<unknown>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+      await loadScores();
+    } catch (actionError) {
+      setError(toAdminError(actionError, "admin.error.action"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const toggleHidden = (entry: AdminScore) =>
+    runAction(entry.id, () =>
+      adminFetch(`/api/admin/scores/${entry.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ hidden: !entry.hidden }),
+      }),
+    );
+
+  const saveRename = (entry: AdminScore) =>
+    runAction(entry.id, async () => {
+      await adminFetch(`/api/admin/scores/${entry.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ name: renameDraft }),
+      });
+      setRenameId(null);
+    });
+
+  const removeScore = (entry: AdminScore) => {
+    const question = plural("admin.confirmDelete", entry.candles, {
+      name: entry.name,
+    });
+    if (!window.confirm(question)) return;
+    void runAction(entry.id, () =>
+      adminFetch(`/api/admin/scores/${entry.id}`, { method: "DELETE" }),
+    );
+  };
+
+  const updateFilter = (key: keyof Filters, value: string) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <div className={styles.page}>
+      <header className={styles.header}>
+        <h1 className={styles.title}>{t("admin.title")}</h1>
+        <div className={styles.tokenRow}>
+          <input
+            className={styles.input}
+            type="password"
+            value={tokenDraft}
+            onChange={(event) => setTokenDraft(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") saveToken();
+            }}
+            placeholder={t("admin.token")}
+            aria-label={t("admin.token")}
+          />
+          <button className={styles.button} type="button" onClick={saveToken}>
+            {t("admin.unlock")}
+          </button>
+        </div>
+      </header>
+
+      <section className={styles.panel}>
+        <div className={styles.filters}>
+          <select
+            className={styles.input}
+            value={filters.board}
+            onChange={(event) => updateFilter("board", event.target.value)}
+            aria-label={t("admin.board")}
+          >
+            <option value="">{t("admin.allBoards")}</option>
+            <option value="classic">{t("board.classic")}</option>
+            <option value="daily">{t("board.daily")}</option>
+          </select>
+          <select
+            className={styles.input}
+            value={filters.mode}
+            onChange={(event) => updateFilter("mode", event.target.value)}
+            aria-label={t("admin.mode")}
+          >
+            <option value="">{t("admin.allModes")}</option>
+            {MODES.map((mode) => (
+              <option key={mode} value={mode}>
+                {t(`mode.${mode}`)}
+              </option>
+            ))}
+          </select>
+          <select
+            className={styles.input}
+            value={filters.status}
+            onChange={(event) => updateFilter("status", event.target.value)}
+            aria-label={t("admin.status")}
+          >
+            <option value="">{t("admin.anyStatus")}</option>
+            <option value="published">{t("admin.status.published")}</option>
+            <option value="pending">{t("admin.status.pending")}</option>
+          </select>
+          <select
+            className={styles.input}
+            value={filters.hidden}
+            onChange={(event) => updateFilter("hidden", event.target.value)}
+            aria-label={t("admin.visibility")}
+          >
+            <option value="">{t("admin.visibleAndHidden")}</option>
+            <option value="false">{t("admin.visibleOnly")}</option>
+            <option value="true">{t("admin.hiddenOnly")}</option>
+          </select>
+          <input
+            className={styles.input}
+            type="search"
+            value={filters.q}
+            onChange={(event) => updateFilter("q", event.target.value)}
+            placeholder={t("admin.search")}
+            aria-label={t("admin.search")}
+          />
+        </div>
+
+        {error ? (
+          <div className={styles.error}>
+            {localizeApiError(translator, error.data, error.fallback)}
+          </div>
+        ) : null}
+
+        <div className={styles.summary}>
+          {isLoading ? t("admin.loading") : plural("admin.count", total)}
+        </div>
+
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>{t("admin.column.name")}</th>
+              <th>{t("admin.column.candles")}</th>
+              <th>{t("admin.column.time")}</th>
+              <th>{t("admin.column.board")}</th>
+              <th>{t("admin.column.status")}</th>
+              <th>{t("admin.column.saved")}</th>
+              <th aria-label={t("admin.column.actions")} />
+            </tr>
+          </thead>
+          <tbody>
+            {scores.map((entry) => (
+              <tr
+                key={entry.id}
+                className={entry.hidden ? styles.rowHidden : undefined}
+              >
+                <td>
+                  {renameId === entry.id ? (
+                    <input
+                      className={styles.input}
+                      value={renameDraft}
+                      maxLength={40}
+                      onChange={(event) => setRenameDraft(event.target.value)}
+                      onKeyDown={(event) => {
+                        if (event.key === "Enter") void saveRename(entry);
+                        if (event.key === "Escape") setRenameId(null);
+                      }}
+                      aria-label={t("admin.newName")}
+                      autoFocus
+                    />
+                  ) : (
+                    <>
+                      <div>{entry.name}</div>
+                      {entry.email ? (
+                        <div className={styles.muted}>{entry.email}</div>
+                      ) : null}
+                    </>
+                  )}
+                </td>
+                <td>
+                  {entry.candles}
+                  {ranksByPoints(entry.mode)
+                    ? ` · ${t("admin.points", { count: entry.points })}`
+                    : ""}
+                </td>
+                <td>{formatTimeMs(entry.timeMs, locale)}</td>
+                <td>
+                  {t(`board.${entry.board}`)}
+                  {entry.boardDate ? ` ${entry.boardDate}` : ""}
+                  {entry.mode === "classic"
+                    ? ""
+                    : ` · ${t(`mode.${entry.mode}`)}`}
+                </td>
+                <td>
+                  {entry.hidden
+                    ? t("admin.status.hidden")
+                    : t(`admin.status.${entry.status}`)}
+                </td>
+                <td className={styles.muted}>
+                  {formatDate(entry.createdAt, locale)}
+                </td>
+                <td className={styles.actions}>
+                  {renameId === entry.id ? (
+                    <>
+                      <button
+                        className={styles.button}
+                        type="button"
+                        disabled={busyId === entry.id}
+                        onClick={() => void saveRename(entry)}
+                      >
+                        {t("admin.save")}
+                      </button>
+                      <button
+                        className={styles.buttonGhost}
+                        type="button"
+                        onClick={() => setRenameId(null)}
+                      >
+                        {t("actions.cancel")}
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        className={styles.button}
+                        type="button"
+                        disabled={busyId === entry.id}
+                        onClick={() => void toggleHidden(entry)}
+                      >
+                        {entry.hidden ? t("admin.unhide") : t("admin.hide")}
+                      </button>
+                      <button
+                        className={styles.buttonGhost}
+                        type="button"
+                        disabled={busyId === entry.id}
+                        onClick={() => {
+                          setRenameId(entry.id);
+                          setRenameDraft(entry.name);
+                        }}
+                      >
+                        {t("admin.rename")}
+                      </button>
+                      <button
+                        className={styles.buttonDanger}
+                        type="button"
+                        disabled={busyId === entry.id}
+                        onClick={() => removeScore(entry)}
+                      >
+                        {t("admin.delete")}
+                      </button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className={styles.panel}>
+        <h2 className={styles.subtitle}>{t("admin.audit")}</h2>
+        {audit.length === 0 ? (
+          <div className={styles.muted}>{t("admin.auditEmpty")}</div>
+        ) : (
+          <ol className={styles.audit}>
+            {audit.map((entry) => (
+              <li key={entry.id}>
+                <strong>{entry.actor}</strong>{" "}
+                {t("admin.auditEntry", {
+                  action: describeAction(translator, entry.action),
+                  id: String(entry.scoreId),
+                  change: describeChange(translator, entry),
+                })}
+                <span className={styles.muted}>
+                  {" "}
+                  {formatDate(entry.createdAt, locale)}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </section>
+    </div>
+  );
+}
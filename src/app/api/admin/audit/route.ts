@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { findAdminActor } from "@/lib/admin";
+import { ensureDb } from "@/lib/db";
+import { serializeModerationAction } from "@/lib/moderation";
+import { serverErrorResponse } from "@/lib/responses";
+import { ModerationAction } from "@/models/ModerationAction";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const AUDIT_LIMIT = 100;
+
+export async function GET(request: Request) {
+  if (!findAdminActor(request)) {
+    return NextResponse.json(
+      { error: "Unauthorized.", code: "UNAUTHORIZED" },
+      { status: 401 },
+    );
+  }
+
+  const scoreParam = new URL(request.url).searchParams.get("scoreId");
+  if (scoreParam !== null && !/^\d+$/.test(scoreParam)) {
+    return NextResponse.json(
+      {
+        error: "Score id must be a number.",
+        code: "SCORE_INVALID",
+        field: "scoreId",
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await ensureDb();
+    const actions = await ModerationAction.findAll({
+      where: scoreParam === null ? {} : { scoreId: Number(scoreParam) },
+      order: [["createdAt", "DESC"]],
+      limit: AUDIT_LIMIT,
+    });
+    return NextResponse.json({
+      actions: actions.map(serializeModerationAction),
+    });
+  } catch (error) {
+    return serverErrorResponse(error, "Unable to load the audit log.");
+  }
+}
@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { findAdminActor } from "@/lib/admin";
+import { ensureDb } from "@/lib/db";
+import {
+  deleteScore,
+  moderateScore,
+  readScoreChanges,
+  serializeAdminScore,
+  serializeModerationAction,
+} from "@/lib/moderation";
+import { serverErrorResponse } from "@/lib/responses";
+import { Score } from "@/models/Score";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+const readScoreId = async (context: RouteContext) => {
+  const { id } = await context.params;
+  return /^\d+$/.test(id) ? Number(id) : null;
+};
+
+export async function PATCH(request: Request, context: RouteContext) {
+  const actor = findAdminActor(request);
+  if (!actor) {
+    return NextResponse.json(
+      { error: "Unauthorized.", code: "UNAUTHORIZED" },
+      { status: 401 },
+    );
+  }
+
+  const scoreId = await readScoreId(context);
+  if (scoreId === null) {
+    return NextResponse.json(
+      { error: "Score not found.", code: "SCORE_NOT_FOUND" },
+      { status: 404 },
+    );
+  }
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON.", code: "INVALID_JSON" },
+      { status: 400 },
+    );
+  }
+
+  const body =
+    typeof payload === "object" && payload !== null
+      ? (payload as Record<string, unknown>)
+      : {};
+  const changes = readScoreChanges(body);
+  if ("error" in changes) {
+    return NextResponse.json(changes, { status: 400 });
+  }
+
+  try {
+    await ensureDb();
+    const entry = await Score.findByPk(scoreId);
+    if (!entry) {
+      return NextResponse.json(
+        { error: "Score not found.", code: "SCORE_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+    const actions = await moderateScore(entry, actor, changes);
+    return NextResponse.json({
+      score: serializeAdminScore(entry),
+      actions: actions.map(serializeModerationAction),
+    });
+  } catch (error) {
+    return serverErrorResponse(error, "Unable to update score.");
+  }
+}
+
+export async function DELETE(request: Request, context: RouteContext) {
+  const actor = findAdminActor(request);
+  if (!actor) {
+    return NextResponse.json(
+      { error: "Unauthorized.", code: "UNAUTHORIZED" },
+      { status: 401 },
+    );
+  }
+
+  const scoreId = await readScoreId(context);
+  if (scoreId === null) {
+    return NextResponse.json(
+      { error: "Score not found.", code: "SCORE_NOT_FOUND" },
+      { status: 404 },
+    );
+  }
+
+  try {
+    await ensureDb();
+    const entry = await Score.findByPk(scoreId);
+    if (!entry) {
+      return NextResponse.json(
+        { error: "Score not found.", code: "SCORE_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+    const action = await deleteScore(entry, actor);
+    return NextResponse.json({ action: serializeModerationAction(action) });
+  } catch (error) {
+    return serverErrorResponse(error, "Unable to delete score.");
+  }
+}
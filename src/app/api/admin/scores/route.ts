@@ -0,0 +1,161 @@
+import { NextResponse } from "next/server";
+import {
+  Op,
+  col,
+  fn,
+  literal,
+  where as sqlWhere,
+  type WhereOptions,
+} from "sequelize";
+import { findAdminActor } from "@/lib/admin";
+import { isDateKey, readBoard } from "@/lib/boards";
+import { ensureDb, sequelize } from "@/lib/db";
+import { MAX_LIMIT } from "@/lib/leaderboard";
+import { MODES, readMode } from "@/lib/modes";
+import { serializeAdminScore } from "@/lib/moderation";
+import { serverErrorResponse } from "@/lib/responses";
+import { Score } from "@/models/Score";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const ADMIN_PAGE_SIZE = 50;
+
+// Names are searched as typed, so a % or _ in the box is not a wildcard.
+const containsPattern = (search: string) =>
+  literal(
+    `${sequelize.escape(
+      `%${search.replace(/[\\%_]/g, (char) => `\\${char}`)}%`,
+    )} ESCAPE '\\'`,
+  );
+
+export async function GET(request: Request) {
+  if (!findAdminActor(request)) {
+    return NextResponse.json(
+      { error: "Unauthorized.", code: "UNAUTHORIZED" },
+      { status: 401 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const boardParam = searchParams.get("board");
+  const modeParam = searchParams.get("mode");
+  const dateParam = searchParams.get("date");
+  const statusParam = searchParams.get("status");
+  const hiddenParam = searchParams.get("hidden");
+  const search = searchParams.get("q")?.trim().toLowerCase() ?? "";
+  const limit = Number(searchParams.get("limit") ?? ADMIN_PAGE_SIZE);
+  const offset = Number(searchParams.get("offset") ?? 0);
+
+  const board = boardParam === null ? null : readBoard(boardParam);
+  if (boardParam !== null && !board) {
+    return NextResponse.json(
+      {
+        error: "Board must be classic or daily.",
+        code: "BOARD_INVALID",
+        field: "board",
+      },
+      { status: 400 },
+    );
+  }
+
+  const mode = modeParam === null ? null : readMode(modeParam);
+  if (modeParam !== null && !mode) {
+    return NextResponse.json(
+      {
+        error: `Mode must be one of ${MODES.join(", ")}.`,
+        code: "MODE_INVALID",
+        field: "mode",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (dateParam !== null && !isDateKey(dateParam)) {
+    return NextResponse.json(
+      {
+        error: "Date must be formatted as YYYY-MM-DD.",
+        code: "DATE_INVALID",
+        field: "date",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (
+    statusParam !== null &&
+    statusParam !== "published" &&
+    statusParam !== "pending"
+  ) {
+    return NextResponse.json(
+      {
+        error: "Status must be published or pending.",
+        code: "STATUS_INVALID",
+        field: "status",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (hiddenParam !== null && hiddenParam !== "true" && hiddenParam !== "false") {
+    return NextResponse.json(
+      {
+        error: "Hidden must be true or false.",
+        code: "HIDDEN_INVALID",
+        field: "hidden",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (
+    !Number.isInteger(limit) ||
+    limit < 1 ||
+    limit > MAX_LIMIT ||
+    !Number.isInteger(offset) ||
+    offset < 0
+  ) {
+    return NextResponse.json(
+      {
+        error: `Limit must be 1 to ${MAX_LIMIT} and offset 0 or more.`,
+        code: "QUERY_INVALID",
+        field: "limit",
+      },
+      { status: 400 },
+    );
+  }
+
+  const filters: WhereOptions[] = [];
+  if (board) filters.push({ board });
+  if (mode) filters.push({ mode });
+  if (dateParam) filters.push({ boardDate: dateParam });
+  if (statusParam) filters.push({ status: statusParam });
+  if (hiddenParam === "true") filters.push({ hiddenAt: { [Op.ne]: null } });
+  if (hiddenParam === "false") filters.push({ hiddenAt: null });
+  if (search) {
+    filters.push(
+      sqlWhere(fn("lower", col("name")), {
+        [Op.like]: containsPattern(search),
+      }),
+    );
+  }
+
+  try {
+    await ensureDb();
+    const { rows, count } = await Score.findAndCountAll({
+      where: { [Op.and]: filters },
+      order: [
+        ["createdAt", "DESC"],
+        ["id", "DESC"],
+      ],
+      limit,
+      offset,
+    });
+    return NextResponse.json({
+      scores: rows.map(serializeAdminScore),
+      total: count,
+    });
+  } catch (error) {
+    return serverErrorResponse(error, "Unable to load scores.");
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { ensureDb } from "@/lib/db";
+import { readEventSlug, serializeEvent } from "@/lib/events";
+import {
+  findLiveEvent,
+  readEventChanges,
+  requireOrganizerEvent,
+  updateEvent,
+} from "@/lib/organizers";
+import { eventErrorResponse, serverErrorResponse } from "@/lib/responses";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ slug: string }>;
+};
+
+export async function GET(_request: Request, context: RouteContext) {
+  const slug = readEventSlug((await context.params).slug);
+  if (!slug) {
+    return NextResponse.json(
+      { error: "Event not found.", code: "EVENT_NOT_FOUND" },
+      { status: 404 },
+    );
+  }
+
+  try {
+    await ensureDb();
+    const event = await findLiveEvent(slug);
+    if (!event) {
+      return NextResponse.json(
+        { error: "Event not found.", code: "EVENT_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json({ event: serializeEvent(event) });
+  } catch (error) {
+    return serverErrorResponse(error, "Unable to load the event.");
+  }
+}
+
+export async function PATCH(request: Request, context: RouteContext) {
+  const slug = readEventSlug((await context.params).slug);
+  if (!slug) {
+    return NextResponse.json(
+      { error: "Event not found.", code: "EVENT_NOT_FOUND" },
+      { status: 404 },
+    );
+  }
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON.", code: "INVALID_JSON" },
+      { status: 400 },
+    );
+  }
+
+  const body =
+    typeof payload === "object" && payload !== null
+      ? (payload as Record<string, unknown>)
+      : {};
+  const changes = readEventChanges(body);
+  if ("error" in changes) {
+    return NextResponse.json(changes, { status: 400 });
+  }
+
+  try {
+    await ensureDb();
+    const event = await requireOrganizerEvent(request, slug);
+    await updateEvent(event, changes);
+    return NextResponse.json({ event: serializeEvent(event) });
+  } catch (error) {
+    return eventErrorResponse(error, "Unable to update the event.");
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { ensureDb } from "@/lib/db";
+import { readEventSlug } from "@/lib/events";
+import { requireOrganizerEvent, wipeEventScores } from "@/lib/organizers";
+import { eventErrorResponse } from "@/lib/responses";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ slug: string }>;
+};
+
+export async function DELETE(request: Request, context: RouteContext) {
+  const slug = readEventSlug((await context.params).slug);
+  if (!slug) {
+    return NextResponse.json(
+      { error: "Event not found.", code: "EVENT_NOT_FOUND" },
+      { status: 404 },
+    );
+  }
+
+  try {
+    await ensureDb();
+    const event = await requireOrganizerEvent(request, slug);
+    const deleted = await wipeEventScores(event);
+    return NextResponse.json({ deleted });
+  } catch (error) {
+    return eventErrorResponse(error, "Unable to clear the scores.");
+  }
+}
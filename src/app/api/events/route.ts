@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { ensureDb } from "@/lib/db";
+import { serializeEvent } from "@/lib/events";
+import {
+  EVENT_CREATE_LIMIT,
+  EVENT_CREATE_WINDOW_MS,
+  createEvent,
+  readEventInput,
+} from "@/lib/organizers";
+import { checkRateLimit, clientIp, type RateLimitResult } from "@/lib/rateLimit";
+import { eventErrorResponse } from "@/lib/responses";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON.", code: "INVALID_JSON" },
+      { status: 400 },
+    );
+  }
+
+  const body =
+    typeof payload === "object" && payload !== null
+      ? (payload as Record<string, unknown>)
+      : {};
+
+  let rateLimit: RateLimitResult = { allowed: true, retryAfterSeconds: 0 };
+  try {
+    rateLimit = await checkRateLimit(
+      [`events:ip:${clientIp(request)}`],
+      EVENT_CREATE_LIMIT,
+      EVENT_CREATE_WINDOW_MS,
+    );
+  } catch {
+    // A broken limiter store should not block organizers.
+  }
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      {
+        error: `Too many new events. Try again in ${rateLimit.retryAfterSeconds} seconds.`,
+        code: "RATE_LIMITED",
+      },
+      {
+        status: 429,
+        headers: { "Retry-After": String(rateLimit.retryAfterSeconds) },
+      },
+    );
+  }
+
+  const input = readEventInput(body);
+  if ("error" in input) {
+    return NextResponse.json(input, { status: 400 });
+  }
+
+  try {
+    await ensureDb();
+    const { event, token } = await createEvent(input);
+    const appUrl = process.env.APP_URL ?? new URL(request.url).origin;
+    const eventUrl = new URL(`/e/${event.slug}`, appUrl);
+    // The token rides in the fragment so it never reaches server logs.
+    const organizerUrl = new URL(`/e/${event.slug}/manage`, appUrl);
+    organizerUrl.hash = `token=${token}`;
+    return NextResponse.json(
+      {
+        event: serializeEvent(event),
+        eventUrl: eventUrl.toString(),
+        organizerUrl: organizerUrl.toString(),
+        organizerToken: token,
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    return eventErrorResponse(error, "Unable to create the event.");
+  }
+}
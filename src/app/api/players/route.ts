@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { ensureDb } from "@/lib/db";
+import { checkName } from "@/lib/names";
+import { readClientId, savePlayer, serializePlayer } from "@/lib/players";
+import { serverErrorResponse } from "@/lib/responses";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON.", code: "INVALID_JSON" },
+      { status: 400 },
+    );
+  }
+
+  const body =
+    typeof payload === "object" && payload !== null
+      ? (payload as Record<string, unknown>)
+      : {};
+  const clientId = readClientId(body.clientId);
+  const nameCheck = checkName(body.name);
+
+  if (!clientId) {
+    return NextResponse.json(
+      {
+        error: "Client id must be a UUID.",
+        code: "CLIENT_ID_INVALID",
+        field: "clientId",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!nameCheck.ok) {
+    return NextResponse.json(
+      { error: nameCheck.error, code: nameCheck.code, field: "name" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await ensureDb();
+    const { player, created } = await savePlayer(clientId, nameCheck.name);
+    return NextResponse.json(
+      { player: serializePlayer(player) },
+      { status: created ? 201 : 200 },
+    );
+  } catch (error) {
+    return serverErrorResponse(error, "Unable to save player.");
+  }
+}
@@ -0,0 +1,131 @@
+import { NextResponse } from "next/server";
+import { ensureDb } from "@/lib/db";
+import { DEFAULT_CONFIG, type EndReason } from "@/lib/game";
+import { findPlayer, readClientId } from "@/lib/players";
+import { readInputLog } from "@/lib/replay";
+import { roomErrorResponse } from "@/lib/responses";
+import { announceRoomChange } from "@/lib/roomEvents";
+import {
+  finishRound,
+  readRoomCode,
+  requireRoom,
+  serializeRoom,
+} from "@/lib/rooms";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const END_REASONS: EndReason[] = ["time", "bomb", "candles"];
+
+type RouteContext = {
+  params: Promise<{ code: string }>;
+};
+
+export async function POST(request: Request, context: RouteContext) {
+  const code = readRoomCode((await context.params).code);
+  if (!code) {
+    return NextResponse.json(
+      { error: "Room not found.", code: "ROOM_NOT_FOUND" },
+      { status: 404 },
+    );
+  }
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON.", code: "INVALID_JSON" },
+      { status: 400 },
+    );
+  }
+
+  const body =
+    typeof payload === "object" && payload !== null
+      ? (payload as Record<string, unknown>)
+      : {};
+  const clientId = readClientId(body.clientId);
+  const candles = Number(body.candles);
+  const timeMs = Number(body.timeMs);
+  const endReason = END_REASONS.find((reason) => reason === body.endReason);
+  const inputs = readInputLog(body.inputs);
+
+  if (!clientId) {
+    return NextResponse.json(
+      {
+        error: "Client id must be a UUID.",
+        code: "CLIENT_ID_INVALID",
+        field: "clientId",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (
+    !Number.isInteger(candles) ||
+    candles < 0 ||
+    candles > DEFAULT_CONFIG.targetCandles
+  ) {
+    return NextResponse.json(
+      {
+        error: "Candles must be a valid number.",
+        code: "CANDLES_INVALID",
+        field: "candles",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!Number.isInteger(timeMs) || timeMs < 0 || timeMs > DEFAULT_CONFIG.gameMs) {
+    return NextResponse.json(
+      {
+        error: "Time must be a valid number.",
+        code: "TIME_INVALID",
+        field: "timeMs",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!endReason) {
+    return NextResponse.json(
+      {
+        error: "End reason must be time, bomb or candles.",
+        code: "END_REASON_INVALID",
+        field: "endReason",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!inputs) {
+    return NextResponse.json(
+      {
+        error: "Inputs must be a valid pop log.",
+        code: "INPUTS_INVALID",
+        field: "inputs",
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await ensureDb();
+    const loaded = await requireRoom(code);
+    const player = await findPlayer(clientId);
+    if (!player) {
+      return NextResponse.json(
+        { error: "Join the room first.", code: "ROOM_JOIN_REQUIRED" },
+        { status: 403 },
+      );
+    }
+    await finishRound(loaded, player, { candles, timeMs, endReason, inputs });
+    announceRoomChange(code);
+    return NextResponse.json({
+      room: serializeRoom(await requireRoom(code)),
+      serverNow: new Date().toISOString(),
+    });
+  } catch (error) {
+    return roomErrorResponse(error, "Unable to save your round.");
+  }
+}
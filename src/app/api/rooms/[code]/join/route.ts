@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { ensureDb } from "@/lib/db";
+import { checkName } from "@/lib/names";
+import { readClientId, savePlayer } from "@/lib/players";
+import { roomErrorResponse } from "@/lib/responses";
+import { announceRoomChange } from "@/lib/roomEvents";
+import {
+  joinRoom,
+  readRoomCode,
+  requireRoom,
+  serializeRoom,
+} from "@/lib/rooms";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ code: string }>;
+};
+
+export async function POST(request: Request, context: RouteContext) {
+  const code = readRoomCode((await context.params).code);
+  if (!code) {
+    return NextResponse.json(
+      { error: "Room not found.", code: "ROOM_NOT_FOUND" },
+      { status: 404 },
+    );
+  }
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON.", code: "INVALID_JSON" },
+      { status: 400 },
+    );
+  }
+
+  const body =
+    typeof payload === "object" && payload !== null
+      ? (payload as Record<string, unknown>)
+      : {};
+  const clientId = readClientId(body.clientId);
+  const nameCheck = checkName(body.name);
+
+  if (!clientId) {
+    return NextResponse.json(
+      {
+        error: "Client id must be a UUID.",
+        code: "CLIENT_ID_INVALID",
+        field: "clientId",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!nameCheck.ok) {
+    return NextResponse.json(
+      { error: nameCheck.error, code: nameCheck.code, field: "name" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await ensureDb();
+    const loaded = await requireRoom(code);
+    const { player } = await savePlayer(clientId, nameCheck.name);
+    await joinRoom(loaded, player);
+    announceRoomChange(code);
+    return NextResponse.json({
+      room: serializeRoom(await requireRoom(code)),
+      playerId: player.id,
+      serverNow: new Date().toISOString(),
+    });
+  } catch (error) {
+    return roomErrorResponse(error, "Unable to join room.");
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { ensureDb } from "@/lib/db";
+import { DEFAULT_CONFIG } from "@/lib/game";
+import { findPlayer, readClientId } from "@/lib/players";
+import { roomErrorResponse } from "@/lib/responses";
+import { announceRoomChange } from "@/lib/roomEvents";
+import { readRoomCode, recordProgress, requireRoom } from "@/lib/rooms";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ code: string }>;
+};
+
+export async function POST(request: Request, context: RouteContext) {
+  const code = readRoomCode((await context.params).code);
+  if (!code) {
+    return NextResponse.json(
+      { error: "Room not found.", code: "ROOM_NOT_FOUND" },
+      { status: 404 },
+    );
+  }
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON.", code: "INVALID_JSON" },
+      { status: 400 },
+    );
+  }
+
+  const body =
+    typeof payload === "object" && payload !== null
+      ? (payload as Record<string, unknown>)
+      : {};
+  const clientId = readClientId(body.clientId);
+  const candles = Number(body.candles);
+
+  if (!clientId) {
+    return NextResponse.json(
+      {
+        error: "Client id must be a UUID.",
+        code: "CLIENT_ID_INVALID",
+        field: "clientId",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (
+    !Number.isInteger(candles) ||
+    candles < 0 ||
+    candles > DEFAULT_CONFIG.targetCandles
+  ) {
+    return NextResponse.json(
+      {
+        error: "Candles must be a valid number.",
+        code: "CANDLES_INVALID",
+        field: "candles",
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await ensureDb();
+    const loaded = await requireRoom(code);
+    const player = await findPlayer(clientId);
+    if (!player) {
+      return NextResponse.json(
+        { error: "Join the room first.", code: "ROOM_JOIN_REQUIRED" },
+        { status: 403 },
+      );
+    }
+    await recordProgress(loaded, player, candles);
+    announceRoomChange(code);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return roomErrorResponse(error, "Unable to record progress.");
+  }
+}
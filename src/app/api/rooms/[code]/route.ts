@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { ensureDb } from "@/lib/db";
+import { roomErrorResponse } from "@/lib/responses";
+import { readRoomCode, requireRoom, serializeRoom } from "@/lib/rooms";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ code: string }>;
+};
+
+export async function GET(_request: Request, context: RouteContext) {
+  const code = readRoomCode((await context.params).code);
+  if (!code) {
+    return NextResponse.json(
+      { error: "Room not found.", code: "ROOM_NOT_FOUND" },
+      { status: 404 },
+    );
+  }
+
+  try {
+    await ensureDb();
+    const loaded = await requireRoom(code);
+    return NextResponse.json({
+      room: serializeRoom(loaded),
+      serverNow: new Date().toISOString(),
+    });
+  } catch (error) {
+    return roomErrorResponse(error, "Unable to load room.");
+  }
+}
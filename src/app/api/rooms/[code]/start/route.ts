@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { ensureDb } from "@/lib/db";
+import { findPlayer, readClientId } from "@/lib/players";
+import { roomErrorResponse } from "@/lib/responses";
+import { announceRoomChange } from "@/lib/roomEvents";
+import {
+  readRoomCode,
+  requireRoom,
+  serializeRoom,
+  startRoom,
+} from "@/lib/rooms";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ code: string }>;
+};
+
+export async function POST(request: Request, context: RouteContext) {
+  const code = readRoomCode((await context.params).code);
+  if (!code) {
+    return NextResponse.json(
+      { error: "Room not found.", code: "ROOM_NOT_FOUND" },
+      { status: 404 },
+    );
+  }
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON.", code: "INVALID_JSON" },
+      { status: 400 },
+    );
+  }
+
+  const body =
+    typeof payload === "object" && payload !== null
+      ? (payload as Record<string, unknown>)
+      : {};
+  const clientId = readClientId(body.clientId);
+  if (!clientId) {
+    return NextResponse.json(
+      {
+        error: "Client id must be a UUID.",
+        code: "CLIENT_ID_INVALID",
+        field: "clientId",
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await ensureDb();
+    const loaded = await requireRoom(code);
+    const player = await findPlayer(clientId);
+    if (!player) {
+      return NextResponse.json(
+        { error: "Only the host can start the round.", code: "ROOM_HOST_ONLY" },
+        { status: 403 },
+      );
+    }
+    await startRoom(loaded, player);
+    announceRoomChange(code);
+    return NextResponse.json({
+      room: serializeRoom(await requireRoom(code)),
+      serverNow: new Date().toISOString(),
+    });
+  } catch (error) {
+    return roomErrorResponse(error, "Unable to start the round.");
+  }
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { ensureDb } from "@/lib/db";
+import { serverErrorResponse } from "@/lib/responses";
+import { subscribeToRoom, type RoomState } from "@/lib/roomEvents";
+import { readRoomCode } from "@/lib/rooms";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_MS = 20_000;
+const RETRY_MS = 2000;
+
+type RouteContext = {
+  params: Promise<{ code: string }>;
+};
+
+// Every event is the whole room, so reconnecting clients just take the
+// next one; serverNow lets them line their clock up with startsAt.
+const formatEvent = (state: RoomState | null) =>
+  state
+    ? `event: room\ndata: ${JSON.stringify({
+        room: state,
+        serverNow: new Date().toISOString(),
+      })}\n\n`
+    : "event: closed\ndata: {}\n\n";
+
+export async function GET(request: Request, context: RouteContext) {
+  const code = readRoomCode((await context.params).code);
+  if (!code) {
+    return NextResponse.json(
+      { error: "Room not found.", code: "ROOM_NOT_FOUND" },
+      { status: 404 },
+    );
+  }
+
+  try {
+    await ensureDb();
+  } catch (error) {
+    return serverErrorResponse(error, "Unable to load room.");
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      write(`retry: ${RETRY_MS}\n\n`);
+
+      let unsubscribe = () => {};
+      const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS);
+      let closed = false;
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // The client already went away.
+        }
+      };
+      request.signal.addEventListener("abort", cleanup);
+
+      try {
+        unsubscribe = await subscribeToRoom(code, (state) =>
+          write(formatEvent(state)),
+        );
+        if (closed) unsubscribe();
+      } catch {
+        cleanup();
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
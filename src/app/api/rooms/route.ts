@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { ensureDb } from "@/lib/db";
+import { checkName } from "@/lib/names";
+import { readClientId, savePlayer } from "@/lib/players";
+import { roomErrorResponse } from "@/lib/responses";
+import { createRoom, serializeRoom } from "@/lib/rooms";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON.", code: "INVALID_JSON" },
+      { status: 400 },
+    );
+  }
+
+  const body =
+    typeof payload === "object" && payload !== null
+      ? (payload as Record<string, unknown>)
+      : {};
+  const clientId = readClientId(body.clientId);
+  const nameCheck = checkName(body.name);
+
+  if (!clientId) {
+    return NextResponse.json(
+      {
+        error: "Client id must be a UUID.",
+        code: "CLIENT_ID_INVALID",
+        field: "clientId",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!nameCheck.ok) {
+    return NextResponse.json(
+      { error: nameCheck.error, code: nameCheck.code, field: "name" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await ensureDb();
+    const { player } = await savePlayer(clientId, nameCheck.name);
+    const loaded = await createRoom(player);
+    return NextResponse.json(
+      {
+        room: serializeRoom(loaded),
+        playerId: player.id,
+        serverNow: new Date().toISOString(),
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    return roomErrorResponse(error, "Unable to create room.");
+  }
+}
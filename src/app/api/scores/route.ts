@@ -1,61 +1,170 @@
 import { NextResponse } from "next/server";
+import { accessConfig } from "@/lib/accessibility";
+import { isDateKey, readBoard, toDateKey } from "@/lib/boards";
 import { ensureDb } from "@/lib/db";
+import { DEFAULT_EVENT, eventConfig, readEventSlug } from "@/lib/events";
+import type { EndReason } from "@/lib/game";
+import { INPUT_METHODS, readInputMethod } from "@/lib/input";
+import {
+  TOP_LIMIT,
+  findLeaderboardPage,
+  findPlacement,
+  findTopScores,
+  readLeaderboardQuery,
+  serializeScore,
+  withBoardLock,
+  type BoardScope,
+} from "@/lib/leaderboard";
+import { readCachedPage } from "@/lib/leaderboardCache";
+import { MODES, ranksByPoints, readMode } from "@/lib/modes";
+import { checkName } from "@/lib/names";
+import { findLiveEvent } from "@/lib/organizers";
+import { readClientId, updatePersonalBest } from "@/lib/players";
+import { checkRateLimit, clientIp, type RateLimitResult } from "@/lib/rateLimit";
+import { readInputLog, readPowerUpCounts, verifyRound } from "@/lib/replay";
+import { cachedJsonResponse, serverErrorResponse } from "@/lib/responses";
+import { announceBoardChange } from "@/lib/scoreEvents";
+import { claimSession, findOpenSession, readSessionToken } from "@/lib/sessions";
+import { sendScoreVerification } from "@/lib/verification";
+import { Event } from "@/models/Event";
+import { Player } from "@/models/Player";
 import { Score } from "@/models/Score";
+import { ScoreRejection } from "@/models/ScoreRejection";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-const SCORE_LIMIT = 10;
-const MAX_NAME_LENGTH = 40;
-const MAX_CANDLES = 29;
-const MAX_TIME_MS = 15000;
 const MAX_EMAIL_LENGTH = 254;
+const END_REASONS: EndReason[] = ["time", "bomb", "candles"];
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
-const cleanName = (value: unknown) => {
-  if (typeof value !== "string") return "";
-  return value.trim().replace(/\s+/g, " ").slice(0, MAX_NAME_LENGTH);
-};
-
 const cleanEmail = (value: unknown) => {
   if (typeof value !== "string") return "";
   return value.trim().toLowerCase().slice(0, MAX_EMAIL_LENGTH);
 };
 
-const isTopTenCandidate = (candles: number, timeMs: number, scores: Score[]) => {
-  if (scores.length < SCORE_LIMIT) return true;
+type Claim = {
+  points: number;
+  candles: number;
+  timeMs: number;
+};
+
+const isTopTenCandidate = (
+  scope: BoardScope,
+  { points, candles, timeMs }: Claim,
+  scores: Score[],
+) => {
+  if (scores.length < TOP_LIMIT) return true;
   const lastEntry = scores[scores.length - 1];
   if (!lastEntry) return true;
+  if (ranksByPoints(scope.mode) && points !== lastEntry.points) {
+    return points > lastEntry.points;
+  }
   if (candles > lastEntry.candles) return true;
   if (candles === lastEntry.candles && timeMs < lastEntry.timeMs) return true;
   return false;
 };
 
-const serializeScore = (entry: Score) => ({
-  id: entry.id,
-  name: entry.name,
-  candles: entry.candles,
-  timeMs: entry.timeMs,
-  createdAt: entry.createdAt.toISOString(),
-});
+const cleanEndReason = (value: unknown) =>
+  END_REASONS.find((reason) => reason === value) ?? null;
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const board = readBoard(searchParams.get("board") ?? "classic");
+  const mode = readMode(searchParams.get("mode") ?? "classic");
+  const eventParam = searchParams.get("event");
+  const slug = eventParam === null ? null : readEventSlug(eventParam);
+  const dateParam = searchParams.get("date");
+
+  if (!board) {
+    return NextResponse.json(
+      {
+        error: "Board must be classic or daily.",
+        code: "BOARD_INVALID",
+        field: "board",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!mode) {
+    return NextResponse.json(
+      {
+        error: `Mode must be one of ${MODES.join(", ")}.`,
+        code: "MODE_INVALID",
+        field: "mode",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (dateParam !== null && !isDateKey(dateParam)) {
+    return NextResponse.json(
+      {
+        error: "Date must be formatted as YYYY-MM-DD.",
+        code: "DATE_INVALID",
+        field: "date",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (eventParam !== null && !slug) {
+    return NextResponse.json(
+      {
+        error: "Event must be a valid event slug.",
+        code: "EVENT_INVALID",
+        field: "event",
+      },
+      { status: 400 },
+    );
+  }
+
+  const { query, error, field } = readLeaderboardQuery(searchParams);
+  if (!query) {
+    return NextResponse.json(
+      { error, code: "QUERY_INVALID", field },
+      { status: 400 },
+    );
+  }
 
-export async function GET() {
   try {
     await ensureDb();
-    const scores = await Score.findAll({
-      order: [
-        ["candles", "DESC"],
-        ["timeMs", "ASC"],
-        ["createdAt", "ASC"],
-      ],
-      limit: SCORE_LIMIT,
+    const event = slug ? await findLiveEvent(slug) : null;
+    if (slug && !event) {
+      return NextResponse.json(
+        { error: "Event not found.", code: "EVENT_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+    const scope: BoardScope = {
+      board,
+      mode,
+      boardDate:
+        board === "daily" ? (dateParam ?? toDateKey(new Date())) : null,
+      eventId: event?.id ?? null,
+    };
+    const page = await readCachedPage(scope, query, async () => {
+      const { scores, total, nextCursor } = await findLeaderboardPage(
+        scope,
+        query,
+      );
+      return {
+        board: scope.board,
+        mode: scope.mode,
+        event: event?.slug ?? null,
+        date: scope.boardDate,
+        view: query.view,
+        scores: scores.map(serializeScore),
+        total,
+        limit: query.limit,
+        offset: query.cursor ? null : query.offset,
+        nextCursor,
+      };
     });
-    return NextResponse.json({ scores: scores.map(serializeScore) });
-  } catch {
-    return NextResponse.json(
-      { error: "Unable to load scores." },
-      { status: 500 },
-    );
+    return cachedJsonResponse(request, page);
+  } catch (error) {
+    return serverErrorResponse(error, "Unable to load scores.");
   }
 }
 
@@ -64,98 +173,424 @@ export async function POST(request: Request) {
   try {
     payload = await request.json();
   } catch {
-    return NextResponse.json({ error: "Invalid JSON." }, { status: 400 });
+    return NextResponse.json(
+      { error: "Invalid JSON.", code: "INVALID_JSON" },
+      { status: 400 },
+    );
   }
 
   const body =
     typeof payload === "object" && payload !== null
       ? (payload as Record<string, unknown>)
       : {};
-  const name = cleanName(body.name);
+  const nameCheck = checkName(body.name);
   const candlesValue = Number(body.candles);
   const timeMsValue = Number(body.timeMs);
+  const pointsValue = body.points === undefined ? null : Number(body.points);
   const email = cleanEmail(body.email);
+  const endReason = cleanEndReason(body.endReason);
+  const inputs = readInputLog(body.inputs);
+  const powerUps =
+    body.powerUps === undefined ? null : readPowerUpCounts(body.powerUps);
+  const clientId =
+    body.clientId === undefined ? null : readClientId(body.clientId);
+  const claimedMode = body.mode === undefined ? null : readMode(body.mode);
+  const inputMethod =
+    body.inputMethod === undefined ? null : readInputMethod(body.inputMethod);
 
-  if (!name) {
+  let rateLimit: RateLimitResult = { allowed: true, retryAfterSeconds: 0 };
+  try {
+    rateLimit = await checkRateLimit([
+      `scores:ip:${clientIp(request)}`,
+      ...(clientId ? [`scores:player:${clientId}`] : []),
+    ]);
+  } catch {
+    // A broken limiter store should not take score saving down with it.
+  }
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      {
+        error: `Too many score submissions. Try again in ${rateLimit.retryAfterSeconds} seconds.`,
+        code: "RATE_LIMITED",
+      },
+      {
+        status: 429,
+        headers: { "Retry-After": String(rateLimit.retryAfterSeconds) },
+      },
+    );
+  }
+
+  if (!nameCheck.ok) {
     return NextResponse.json(
-      { error: "Name is required." },
+      { error: nameCheck.error, code: nameCheck.code, field: "name" },
       { status: 400 },
     );
   }
+  const name = nameCheck.name;
 
-  if (
-    !Number.isFinite(candlesValue) ||
-    candlesValue < 0 ||
-    candlesValue > MAX_CANDLES
-  ) {
+  if (!Number.isFinite(candlesValue) || candlesValue < 0) {
     return NextResponse.json(
-      { error: "Candles must be a valid number." },
+      {
+        error: "Candles must be a valid number.",
+        code: "CANDLES_INVALID",
+        field: "candles",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!Number.isFinite(timeMsValue) || timeMsValue < 0) {
+    return NextResponse.json(
+      {
+        error: "Time must be a valid number.",
+        code: "TIME_INVALID",
+        field: "timeMs",
+      },
       { status: 400 },
     );
   }
 
   if (
-    !Number.isFinite(timeMsValue) ||
-    timeMsValue < 0 ||
-    timeMsValue > MAX_TIME_MS
+    pointsValue !== null &&
+    (!Number.isInteger(pointsValue) || pointsValue < 0)
   ) {
     return NextResponse.json(
-      { error: "Time must be a valid number." },
+      {
+        error: "Points must be a whole number.",
+        code: "POINTS_INVALID",
+        field: "points",
+      },
       { status: 400 },
     );
   }
 
   if (email && !EMAIL_REGEX.test(email)) {
     return NextResponse.json(
-      { error: "Email must be valid." },
+      { error: "Email must be valid.", code: "EMAIL_INVALID", field: "email" },
       { status: 400 },
     );
   }
 
+  if (!endReason) {
+    return NextResponse.json(
+      {
+        error: "End reason must be time, bomb or candles.",
+        code: "END_REASON_INVALID",
+        field: "endReason",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!inputs) {
+    return NextResponse.json(
+      {
+        error: "Inputs must be a valid pop log.",
+        code: "INPUTS_INVALID",
+        field: "inputs",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (body.powerUps !== undefined && !powerUps) {
+    return NextResponse.json(
+      {
+        error: "Power-ups must be counts of freeze, shield and magnet.",
+        code: "POWER_UPS_INVALID",
+        field: "powerUps",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (body.mode !== undefined && !claimedMode) {
+    return NextResponse.json(
+      {
+        error: `Mode must be one of ${MODES.join(", ")}.`,
+        code: "MODE_INVALID",
+        field: "mode",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (body.inputMethod !== undefined && !inputMethod) {
+    return NextResponse.json(
+      {
+        error: `Input method must be one of ${INPUT_METHODS.join(", ")}.`,
+        code: "INPUT_METHOD_INVALID",
+        field: "inputMethod",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (body.clientId !== undefined && !clientId) {
+    return NextResponse.json(
+      {
+        error: "Client id must be a UUID.",
+        code: "CLIENT_ID_INVALID",
+        field: "clientId",
+      },
+      { status: 400 },
+    );
+  }
+
+  const token = readSessionToken(body.sessionToken);
+  if (!token) {
+    return NextResponse.json(
+      {
+        error: "A valid round token is required.",
+        code: "SESSION_REQUIRED",
+        field: "sessionToken",
+      },
+      { status: 400 },
+    );
+  }
+
+  const receivedAt = new Date();
+
   try {
     await ensureDb();
-    const currentTop = await Score.findAll({
-      order: [
-        ["candles", "DESC"],
-        ["timeMs", "ASC"],
-        ["createdAt", "ASC"],
-      ],
-      limit: SCORE_LIMIT,
-    });
+    const session = await findOpenSession(token.id, receivedAt);
+    if (!session) {
+      return NextResponse.json(
+        {
+          error: "This round has expired or was already submitted.",
+          code: "SESSION_EXPIRED",
+        },
+        { status: 409 },
+      );
+    }
+
+    if (claimedMode && claimedMode !== session.mode) {
+      return NextResponse.json(
+        {
+          error: "Mode does not match this round.",
+          code: "MODE_MISMATCH",
+          field: "mode",
+        },
+        { status: 400 },
+      );
+    }
 
-    const requiresEmail = isTopTenCandidate(
-      Math.floor(candlesValue),
-      Math.floor(timeMsValue),
-      currentTop,
+    const event = session.eventId
+      ? await Event.findByPk(session.eventId)
+      : null;
+    if (event?.closedAt) {
+      return NextResponse.json(
+        { error: "This leaderboard is closed.", code: "LEADERBOARD_CLOSED" },
+        { status: 409 },
+      );
+    }
+    const config = accessConfig(
+      eventConfig(session.mode, event?.age ?? DEFAULT_EVENT.age),
+      session.accessMode,
     );
-    if (requiresEmail && !email) {
+    if (candlesValue > config.targetCandles) {
       return NextResponse.json(
-        { error: "Email required for top 10 scores." },
+        {
+          error: "Candles must be a valid number.",
+          code: "CANDLES_INVALID",
+          field: "candles",
+        },
+        { status: 400 },
+      );
+    }
+    if (timeMsValue > config.gameMs) {
+      return NextResponse.json(
+        {
+          error: "Time must be a valid number.",
+          code: "TIME_INVALID",
+          field: "timeMs",
+        },
+        { status: 400 },
+      );
+    }
+    if (pointsValue === null && ranksByPoints(session.mode)) {
+      return NextResponse.json(
+        {
+          error: "Points are required for this mode.",
+          code: "POINTS_REQUIRED",
+          field: "points",
+        },
         { status: 400 },
       );
     }
 
-    await Score.create({
-      name,
-      candles: Math.floor(candlesValue),
-      timeMs: Math.floor(timeMsValue),
-      email: email || null,
-    });
+    const verdict = verifyRound(
+      {
+        seed: session.seed,
+        startedAt: token.startedAt,
+        receivedAt: receivedAt.getTime(),
+        candles: Math.floor(candlesValue),
+        timeMs: Math.floor(timeMsValue),
+        points: pointsValue ?? undefined,
+        powerUps: powerUps ?? undefined,
+        endReason,
+        inputs,
+      },
+      config,
+    );
+    if (verdict) {
+      await claimSession(session.id, receivedAt);
+      await ScoreRejection.create({
+        sessionId: session.id,
+        name,
+        candles: Math.floor(candlesValue),
+        timeMs: Math.floor(timeMsValue),
+        endReason,
+        reason: verdict.reason,
+        details: verdict.details,
+      });
+      return NextResponse.json(
+        {
+          error: "This round could not be verified.",
+          code: "ROUND_UNVERIFIED",
+        },
+        { status: 422 },
+      );
+    }
+
+    const scope: BoardScope = {
+      board: session.board,
+      mode: session.mode,
+      boardDate: session.boardDate,
+      eventId: session.eventId,
+    };
+    const admission = await withBoardLock(scope, async (transaction) => {
+      const currentTop = await findTopScores(scope, transaction);
+      const requiresEmail = isTopTenCandidate(
+        scope,
+        {
+          points: pointsValue ?? 0,
+          candles: Math.floor(candlesValue),
+          timeMs: Math.floor(timeMsValue),
+        },
+        currentTop,
+      );
+      if (requiresEmail && !email) {
+        return { outcome: "email_required" as const };
+      }
+      if (!(await claimSession(session.id, receivedAt, transaction))) {
+        return { outcome: "claimed" as const };
+      }
 
-    const scores = await Score.findAll({
-      order: [
-        ["candles", "DESC"],
-        ["timeMs", "ASC"],
-        ["createdAt", "ASC"],
-      ],
-      limit: SCORE_LIMIT,
+      // Only a round that is actually saved gets to create a player.
+      const [player] = clientId
+        ? await Player.findOrCreate({
+            where: { clientId },
+            defaults: { clientId, displayName: name },
+            transaction,
+          })
+        : [null];
+      const hasVerifiedEmail = Boolean(
+        player?.emailVerifiedAt && player.email === email,
+      );
+      const isPending = requiresEmail && !hasVerifiedEmail;
+      const created = await Score.create(
+        {
+          name: player?.displayName ?? name,
+          playerId: player?.id ?? null,
+          candles: Math.floor(candlesValue),
+          points: pointsValue ?? 0,
+          powerUps,
+          timeMs: Math.floor(timeMsValue),
+          email: email || null,
+          status: isPending ? "pending" : "published",
+          isPersonalBest: !isPending,
+          board: scope.board,
+          mode: scope.mode,
+          boardDate: scope.boardDate,
+          eventId: scope.eventId,
+          accessMode: session.accessMode,
+          inputMethod,
+        },
+        { transaction },
+      );
+      if (!isPending) {
+        await updatePersonalBest(scope, created, transaction);
+      }
+      const scores = await findTopScores(scope, transaction);
+      return {
+        outcome: "saved" as const,
+        created,
+        isPending,
+        scores,
+        madeBoard: scores.some((entry) => entry.id === created.id),
+      };
     });
 
-    return NextResponse.json({ scores: scores.map(serializeScore) });
-  } catch {
-    return NextResponse.json(
-      { error: "Unable to save score." },
-      { status: 500 },
-    );
+    if (admission.outcome === "email_required") {
+      return NextResponse.json(
+        {
+          error: "Email required for top 10 scores.",
+          code: "EMAIL_REQUIRED_TOP10",
+          field: "email",
+        },
+        { status: 400 },
+      );
+    }
+    if (admission.outcome === "claimed") {
+      return NextResponse.json(
+        {
+          error: "This round has expired or was already submitted.",
+          code: "SESSION_EXPIRED",
+        },
+        { status: 409 },
+      );
+    }
+
+    const { created, isPending, scores, madeBoard } = admission;
+    let verificationSent = false;
+    if (isPending) {
+      // The score is already saved, so a mail outage only costs the email;
+      // the player can ask for another one from POST /api/scores/verify.
+      try {
+        await sendScoreVerification(
+          created,
+          email,
+          process.env.APP_URL ?? new URL(request.url).origin,
+        );
+        verificationSent = true;
+      } catch (error) {
+        console.error("Unable to send score verification", error);
+      }
+    } else {
+      announceBoardChange(scope);
+    }
+    const placement = await findPlacement(scope, created);
+
+    return NextResponse.json({
+      board: scope.board,
+      mode: scope.mode,
+      event: event?.slug ?? null,
+      date: scope.boardDate,
+      scores: scores.map(serializeScore),
+      pending: isPending,
+      verification: isPending
+        ? { scoreId: created.id, sent: verificationSent }
+        : null,
+      madeBoard,
+      placement: placement
+        ? {
+            id: created.id,
+            rank: placement.rank,
+            total: placement.total,
+            percentile: placement.percentile,
+            above: placement.above.map(serializeScore),
+            below: placement.below.map(serializeScore),
+            target: placement.target
+              ? {
+                  rank: placement.target.rank,
+                  ...serializeScore(placement.target.entry),
+                }
+              : null,
+          }
+        : null,
+    });
+  } catch (error) {
+    return serverErrorResponse(error, "Unable to save score.");
   }
 }
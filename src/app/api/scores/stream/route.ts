@@ -0,0 +1,154 @@
+import { NextResponse } from "next/server";
+import { isDateKey, readBoard, toDateKey } from "@/lib/boards";
+import { ensureDb } from "@/lib/db";
+import { readEventSlug } from "@/lib/events";
+import type { BoardScope } from "@/lib/leaderboard";
+import { MODES, readMode } from "@/lib/modes";
+import { findLiveEvent } from "@/lib/organizers";
+import { serverErrorResponse } from "@/lib/responses";
+import { subscribeToBoard, type BoardEvent } from "@/lib/scoreEvents";
+import type { Event } from "@/models/Event";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_MS = 20_000;
+const RETRY_MS = 3000;
+
+const readLastEventId = (request: Request, searchParams: URLSearchParams) => {
+  const value =
+    request.headers.get("last-event-id") ?? searchParams.get("lastEventId");
+  if (value === null || !/^\d+$/.test(value)) return null;
+  return Number(value);
+};
+
+const formatEvent = (event: BoardEvent) =>
+  `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const board = readBoard(searchParams.get("board") ?? "classic");
+  const mode = readMode(searchParams.get("mode") ?? "classic");
+  const eventParam = searchParams.get("event");
+  const slug = eventParam === null ? null : readEventSlug(eventParam);
+  const dateParam = searchParams.get("date");
+
+  if (!board) {
+    return NextResponse.json(
+      {
+        error: "Board must be classic or daily.",
+        code: "BOARD_INVALID",
+        field: "board",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!mode) {
+    return NextResponse.json(
+      {
+        error: `Mode must be one of ${MODES.join(", ")}.`,
+        code: "MODE_INVALID",
+        field: "mode",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (dateParam !== null && !isDateKey(dateParam)) {
+    return NextResponse.json(
+      {
+        error: "Date must be formatted as YYYY-MM-DD.",
+        code: "DATE_INVALID",
+        field: "date",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (eventParam !== null && !slug) {
+    return NextResponse.json(
+      {
+        error: "Event must be a valid event slug.",
+        code: "EVENT_INVALID",
+        field: "event",
+      },
+      { status: 400 },
+    );
+  }
+
+  const lastEventId = readLastEventId(request, searchParams);
+
+  let event: Event | null = null;
+  try {
+    await ensureDb();
+    event = slug ? await findLiveEvent(slug) : null;
+  } catch (error) {
+    return serverErrorResponse(error, "Unable to load scores.");
+  }
+  if (slug && !event) {
+    return NextResponse.json(
+      { error: "Event not found.", code: "EVENT_NOT_FOUND" },
+      { status: 404 },
+    );
+  }
+
+  const scope: BoardScope = {
+    board,
+    mode,
+    boardDate: board === "daily" ? (dateParam ?? toDateKey(new Date())) : null,
+    eventId: event?.id ?? null,
+  };
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      write(`retry: ${RETRY_MS}\n\n`);
+
+      let unsubscribe = () => {};
+      const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS);
+      let closed = false;
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // The client already went away.
+        }
+      };
+      request.signal.addEventListener("abort", cleanup);
+
+      try {
+        unsubscribe = await subscribeToBoard(scope, lastEventId, (event) =>
+          write(formatEvent(event)),
+        );
+        if (closed) unsubscribe();
+      } catch {
+        cleanup();
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+import { ensureDb } from "@/lib/db";
+import { checkRateLimit, clientIp, type RateLimitResult } from "@/lib/rateLimit";
+import { serverErrorResponse } from "@/lib/responses";
+import {
+  confirmScoreVerification,
+  resendScoreVerification,
+} from "@/lib/verification";
+import { Event } from "@/models/Event";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const RESEND_LIMIT = 3;
+const RESEND_WINDOW_MS = 10 * 60 * 1000;
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const token = url.searchParams.get("token");
+  const redirectTo = (result: string, path = "/") =>
+    NextResponse.redirect(new URL(`${path}?verified=${result}`, url.origin));
+
+  if (!token) {
+    return redirectTo("invalid");
+  }
+
+  try {
+    await ensureDb();
+    const score = await confirmScoreVerification(token);
+    if (!score) {
+      return redirectTo("invalid");
+    }
+    // Event scores go back to their own cake.
+    const event = score.eventId ? await Event.findByPk(score.eventId) : null;
+    return redirectTo("success", event ? `/e/${event.slug}` : "/");
+  } catch {
+    return redirectTo("error");
+  }
+}
+
+export async function POST(request: Request) {
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON.", code: "INVALID_JSON" },
+      { status: 400 },
+    );
+  }
+
+  const body =
+    typeof payload === "object" && payload !== null
+      ? (payload as Record<string, unknown>)
+      : {};
+  const scoreId = Number(body.scoreId);
+  const email =
+    typeof body.email === "string" ? body.email.trim().toLowerCase() : "";
+  if (!Number.isInteger(scoreId) || scoreId <= 0) {
+    return NextResponse.json(
+      { error: "Score id is invalid.", code: "SCORE_INVALID", field: "scoreId" },
+      { status: 400 },
+    );
+  }
+  if (!email) {
+    return NextResponse.json(
+      { error: "Email must be valid.", code: "EMAIL_INVALID", field: "email" },
+      { status: 400 },
+    );
+  }
+
+  let rateLimit: RateLimitResult = { allowed: true, retryAfterSeconds: 0 };
+  try {
+    rateLimit = await checkRateLimit(
+      [`verify:ip:${clientIp(request)}`, `verify:score:${scoreId}`],
+      RESEND_LIMIT,
+      RESEND_WINDOW_MS,
+    );
+  } catch {
+    // Same as score saving: a broken limiter store should not block resends.
+  }
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      {
+        error: `Too many emails requested. Try again in ${rateLimit.retryAfterSeconds} seconds.`,
+        code: "RATE_LIMITED",
+      },
+      {
+        status: 429,
+        headers: { "Retry-After": String(rateLimit.retryAfterSeconds) },
+      },
+    );
+  }
+
+  try {
+    await ensureDb();
+    const score = await resendScoreVerification(
+      scoreId,
+      email,
+      process.env.APP_URL ?? new URL(request.url).origin,
+    );
+    if (!score) {
+      return NextResponse.json(
+        {
+          error: "No pending score matches that email.",
+          code: "VERIFICATION_NOT_FOUND",
+        },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json({ sent: true });
+  } catch (error) {
+    return serverErrorResponse(error, "Unable to send the confirmation email.");
+  }
+}
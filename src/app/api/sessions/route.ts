@@ -0,0 +1,132 @@
+import { NextResponse } from "next/server";
+import { ACCESS_MODES, readAccessMode } from "@/lib/accessibility";
+import { readBoard } from "@/lib/boards";
+import { ensureDb } from "@/lib/db";
+import { eventStatus, readEventSlug, serializeEvent } from "@/lib/events";
+import { MODES, readMode } from "@/lib/modes";
+import { findLiveEvent } from "@/lib/organizers";
+import { serverErrorResponse } from "@/lib/responses";
+import { issueSession } from "@/lib/sessions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  let payload: unknown = {};
+  try {
+    const text = await request.text();
+    payload = text ? JSON.parse(text) : {};
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON.", code: "INVALID_JSON" },
+      { status: 400 },
+    );
+  }
+
+  const body =
+    typeof payload === "object" && payload !== null
+      ? (payload as Record<string, unknown>)
+      : {};
+  const board = body.board === undefined ? "classic" : readBoard(body.board);
+  const mode = body.mode === undefined ? "classic" : readMode(body.mode);
+  const slug = body.event === undefined ? null : readEventSlug(body.event);
+  const accessMode =
+    body.accessMode === undefined || body.accessMode === null
+      ? null
+      : readAccessMode(body.accessMode);
+
+  if (!board) {
+    return NextResponse.json(
+      {
+        error: "Board must be classic or daily.",
+        code: "BOARD_INVALID",
+        field: "board",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!mode) {
+    return NextResponse.json(
+      {
+        error: `Mode must be one of ${MODES.join(", ")}.`,
+        code: "MODE_INVALID",
+        field: "mode",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (body.accessMode !== undefined && body.accessMode !== null && !accessMode) {
+    return NextResponse.json(
+      {
+        error: `Access mode must be ${ACCESS_MODES.join(" or ")}.`,
+        code: "ACCESS_MODE_INVALID",
+        field: "accessMode",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (body.event !== undefined && !slug) {
+    return NextResponse.json(
+      {
+        error: "Event must be a valid event slug.",
+        code: "EVENT_INVALID",
+        field: "event",
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await ensureDb();
+    const event = slug ? await findLiveEvent(slug) : null;
+    if (slug && !event) {
+      return NextResponse.json(
+        { error: "Event not found.", code: "EVENT_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+    const status = event ? eventStatus(serializeEvent(event)) : "open";
+    if (status !== "open") {
+      return NextResponse.json(
+        {
+          error:
+            status === "upcoming"
+              ? "This birthday has not started yet."
+              : status === "closed"
+                ? "This leaderboard is closed."
+                : "This birthday is over.",
+          code:
+            status === "upcoming"
+              ? "EVENT_NOT_STARTED"
+              : status === "closed"
+                ? "LEADERBOARD_CLOSED"
+                : "EVENT_OVER",
+        },
+        { status: 409 },
+      );
+    }
+
+    const session = await issueSession(
+      board,
+      mode,
+      event?.id ?? null,
+      accessMode,
+    );
+    return NextResponse.json({
+      token: session.token,
+      seed: session.seed,
+      board: session.board,
+      mode: session.mode,
+      accessMode: session.accessMode,
+      event: event?.slug ?? null,
+      boardDate: session.boardDate,
+      startedAt: session.startedAt.toISOString(),
+      expiresAt: session.expiresAt.toISOString(),
+    });
+  } catch (error) {
+    return serverErrorResponse(error, "Unable to start a round.");
+  }
+}
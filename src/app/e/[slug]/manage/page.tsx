@@ -0,0 +1,300 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useCallback, useEffect, useState, type FormEvent } from "react";
+import styles from "@/app/new/page.module.css";
+import { useTranslator } from "@/components/useTranslator";
+import type { ApiErrorBody } from "@/lib/apiErrors";
+import {
+  EVENT_THEMES,
+  MAX_MESSAGE_LENGTH,
+  type EventDetails,
+  type EventTheme,
+} from "@/lib/events";
+import { localizeApiError, type MessageKey } from "@/lib/i18n";
+
+type EventResponse = ApiErrorBody & {
+  event?: EventDetails;
+  deleted?: number;
+};
+
+type EventDraft = {
+  honoree: string;
+  theme: EventTheme;
+  startDate: string;
+  endDate: string;
+  message: string;
+};
+
+const draftFrom = (event: EventDetails): EventDraft => ({
+  honoree: event.honoree,
+  theme: event.theme,
+  startDate: event.startDate ?? "",
+  endDate: event.endDate ?? "",
+  message: event.message ?? "",
+});
+
+const readHashToken = () =>
+  new URLSearchParams(window.location.hash.slice(1)).get("token");
+
+export default function ManageEventPage() {
+  const params = useParams<{ slug: string }>();
+  const slug = String(params.slug ?? "");
+  const translator = useTranslator();
+  const { t, plural } = translator;
+  const [token, setToken] = useState<string | null>(null);
+  const [event, setEvent] = useState<EventDetails | null>(null);
+  const [draft, setDraft] = useState<EventDraft | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState("");
+  // Kept untranslated so the message follows the language once it loads.
+  const [loadError, setLoadError] = useState<ApiErrorBody | null>(null);
+  const [errorField, setErrorField] = useState<string | null>(null);
+  const [notice, setNotice] = useState("");
+
+  useEffect(() => {
+    setToken(readHashToken());
+    const loadEvent = async () => {
+      try {
+        const response = await fetch(`/api/events/${slug}`, {
+          cache: "no-store",
+        });
+        const data = (await response.json()) as EventResponse;
+        if (!response.ok || !data.event) {
+          setLoadError(data);
+          return;
+        }
+        setEvent(data.event);
+        setDraft(draftFrom(data.event));
+      } catch {
+        setLoadError({});
+      }
+    };
+    void loadEvent();
+  }, [slug]);
+
+  const sendOrganizerRequest = useCallback(
+    async (path: string, init: RequestInit, fallback: MessageKey) => {
+      setIsBusy(true);
+      setError("");
+      setErrorField(null);
+      setNotice("");
+      try {
+        const response = await fetch(path, {
+          ...init,
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+        });
+        const data = (await response.json()) as EventResponse;
+        if (!response.ok) {
+          setErrorField(data.field ?? null);
+          throw new Error(localizeApiError(translator, data, fallback));
+        }
+        if (data.event) {
+          setEvent(data.event);
+          setDraft(draftFrom(data.event));
+        }
+        return data;
+      } catch (requestError) {
+        setError(
+          requestError instanceof Error ? requestError.message : t(fallback),
+        );
+        return null;
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [t, token, translator],
+  );
+
+  const saveEvent = async (formEvent: FormEvent<HTMLFormElement>) => {
+    formEvent.preventDefault();
+    if (!draft) return;
+    const data = await sendOrganizerRequest(
+      `/api/events/${slug}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify({
+          honoree: draft.honoree,
+          theme: draft.theme,
+          startDate: draft.startDate || null,
+          endDate: draft.endDate || null,
+          message: draft.message || null,
+        }),
+      },
+      "manage.error.update",
+    );
+    if (data) setNotice(t("manage.saved"));
+  };
+
+  const toggleClosed = async () => {
+    if (!event) return;
+    const data = await sendOrganizerRequest(
+      `/api/events/${slug}`,
+      { method: "PATCH", body: JSON.stringify({ closed: !event.closed }) },
+      "manage.error.update",
+    );
+    if (data?.event) {
+      setNotice(
+        data.event.closed
+          ? t("manage.closedNotice")
+          : t("manage.reopenedNotice"),
+      );
+    }
+  };
+
+  const wipeScores = async () => {
+    if (!window.confirm(t("manage.confirmClear"))) return;
+    const data = await sendOrganizerRequest(
+      `/api/events/${slug}/scores`,
+      { method: "DELETE" },
+      "manage.error.clear",
+    );
+    if (data) setNotice(plural("manage.cleared", data.deleted ?? 0));
+  };
+
+  const updateDraft = (changes: Partial<EventDraft>) =>
+    setDraft((current) => (current ? { ...current, ...changes } : current));
+
+  const inputClass = (field: string) =>
+    `${styles.input} ${errorField === field ? styles.inputInvalid : ""}`;
+
+  return (
+    <div className={styles.page}>
+      <header className={styles.header}>
+        <Link className={styles.backLink} href={`/e/${slug}`}>
+          {t("nav.backToEvent")}
+        </Link>
+        <h1 className={styles.title}>
+          {event
+            ? t("manage.title", { honoree: event.honoree })
+            : t("manage.titleLoading")}
+        </h1>
+        <p className={styles.muted}>/e/{slug}</p>
+      </header>
+
+      {!token ? (
+        <div className={styles.error}>{t("manage.needToken")}</div>
+      ) : null}
+
+      {event && draft ? (
+        <>
+          <form className={styles.panel} onSubmit={saveEvent}>
+            <h2 className={styles.panelTitle}>{t("manage.details")}</h2>
+            <label className={styles.field}>
+              <span>{t("eventForm.honoree")}</span>
+              <input
+                className={inputClass("honoree")}
+                value={draft.honoree}
+                maxLength={40}
+                onChange={(change) =>
+                  updateDraft({ honoree: change.target.value })
+                }
+                required
+              />
+            </label>
+            <div className={styles.row}>
+              <label className={styles.field}>
+                <span>{t("eventForm.theme")}</span>
+                <select
+                  className={inputClass("theme")}
+                  value={draft.theme}
+                  onChange={(change) =>
+                    updateDraft({ theme: change.target.value as EventTheme })
+                  }
+                >
+                  {EVENT_THEMES.map((option) => (
+                    <option key={option} value={option}>
+                      {t(`theme.${option}`)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className={styles.field}>
+                <span>{t("eventForm.startDate")}</span>
+                <input
+                  className={inputClass("startDate")}
+                  type="date"
+                  value={draft.startDate}
+                  onChange={(change) =>
+                    updateDraft({ startDate: change.target.value })
+                  }
+                />
+              </label>
+              <label className={styles.field}>
+                <span>{t("eventForm.endDate")}</span>
+                <input
+                  className={inputClass("endDate")}
+                  type="date"
+                  value={draft.endDate}
+                  onChange={(change) =>
+                    updateDraft({ endDate: change.target.value })
+                  }
+                />
+              </label>
+            </div>
+            <label className={styles.field}>
+              <span>{t("eventForm.message")}</span>
+              <textarea
+                className={`${inputClass("message")} ${styles.textarea}`}
+                value={draft.message}
+                maxLength={MAX_MESSAGE_LENGTH}
+                onChange={(change) =>
+                  updateDraft({ message: change.target.value })
+                }
+              />
+            </label>
+            <p className={styles.muted}>
+              {t("manage.ageNote", { age: event.age })}
+            </p>
+            <div className={styles.actions}>
+              <button
+                className={styles.button}
+                type="submit"
+                disabled={isBusy || !token}
+              >
+                {t("manage.save")}
+              </button>
+            </div>
+          </form>
+
+          <section className={styles.panel}>
+            <h2 className={styles.panelTitle}>{t("manage.leaderboard")}</h2>
+            <p className={styles.muted}>
+              {event.closed ? t("manage.closedNote") : t("manage.openNote")}
+            </p>
+            <div className={styles.actions}>
+              <button
+                className={styles.buttonGhost}
+                type="button"
+                onClick={toggleClosed}
+                disabled={isBusy || !token}
+              >
+                {event.closed ? t("manage.reopen") : t("manage.close")}
+              </button>
+              <button
+                className={styles.buttonDanger}
+                type="button"
+                onClick={wipeScores}
+                disabled={isBusy || !token}
+              >
+                {t("manage.clear")}
+              </button>
+            </div>
+          </section>
+        </>
+      ) : null}
+
+      {notice ? <div className={styles.success}>{notice}</div> : null}
+      {loadError ? (
+        <div className={styles.error}>
+          {localizeApiError(translator, loadError, "manage.error.load")}
+        </div>
+      ) : null}
+      {error ? <div className={styles.error}>{error}</div> : null}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import BirthdayGame from "@/components/BirthdayGame";
+import { ensureDb } from "@/lib/db";
+import { eventMetadata, readEventSlug, serializeEvent } from "@/lib/events";
+import { findLiveEvent } from "@/lib/organizers";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type PageProps = {
+  params: Promise<{ slug: string }>;
+};
+
+// Metadata and the page share one lookup per request.
+const findEvent = cache(async (value: string) => {
+  const slug = readEventSlug(value);
+  if (!slug) return null;
+  await ensureDb();
+  const event = await findLiveEvent(slug);
+  return event ? serializeEvent(event) : null;
+});
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const event = await findEvent((await params).slug);
+  return event ? eventMetadata(event) : {};
+}
+
+export default async function EventPage({ params }: PageProps) {
+  const event = await findEvent((await params).slug);
+  if (!event) notFound();
+  return <BirthdayGame event={event} />;
+}
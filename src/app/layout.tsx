@@ -15,8 +15,8 @@ const displayFont = Luckiest_Guy({
 });
 
 export const metadata: Metadata = {
-  title: "Alexander's Birthday Candle Dash",
-  description: "A playful birthday game for Alexander with a high score board.",
+  title: "Birthday Candle Dash",
+  description: "A playful birthday game with a high score board.",
 };
 
 export default function RootLayout({
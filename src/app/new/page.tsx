@@ -0,0 +1,264 @@
+"use client";
+
+import Link from "next/link";
+import { useState, type FormEvent } from "react";
+import { useTranslator } from "@/components/useTranslator";
+import type { ApiErrorBody } from "@/lib/apiErrors";
+import {
+  EVENT_MAX_AGE,
+  EVENT_MIN_AGE,
+  EVENT_THEMES,
+  MAX_MESSAGE_LENGTH,
+  suggestEventSlug,
+  type EventDetails,
+  type EventTheme,
+} from "@/lib/events";
+import { localizeApiError } from "@/lib/i18n";
+import styles from "./page.module.css";
+
+type CreatedEvent = {
+  event: EventDetails;
+  eventUrl: string;
+  organizerUrl: string;
+};
+
+export default function NewEventPage() {
+  const translator = useTranslator();
+  const { t } = translator;
+  const [honoree, setHonoree] = useState("");
+  const [age, setAge] = useState("");
+  const [slug, setSlug] = useState("");
+  const [theme, setTheme] = useState<EventTheme>("party");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [message, setMessage] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [errorField, setErrorField] = useState<string | null>(null);
+  const [created, setCreated] = useState<CreatedEvent | null>(null);
+
+  const ageValue = Number(age);
+  const slugPreview =
+    honoree.trim() && Number.isInteger(ageValue) && ageValue > 0
+      ? suggestEventSlug(honoree, ageValue)
+      : "zoe-40";
+
+  const inputClass = (field: string) =>
+    `${styles.input} ${errorField === field ? styles.inputInvalid : ""}`;
+
+  const createEvent = async (formEvent: FormEvent<HTMLFormElement>) => {
+    formEvent.preventDefault();
+    setIsBusy(true);
+    setError("");
+    setErrorField(null);
+    try {
+      const response = await fetch("/api/events", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          honoree,
+          age: ageValue,
+          slug: slug.trim() || undefined,
+          theme,
+          startDate: startDate || null,
+          endDate: endDate || null,
+          message,
+        }),
+      });
+      const data = (await response.json()) as Partial<CreatedEvent> &
+        ApiErrorBody;
+      if (!response.ok || !data.event || !data.eventUrl || !data.organizerUrl) {
+        setErrorField(data.field ?? null);
+        throw new Error(localizeApiError(translator, data, "newEvent.error"));
+      }
+      setCreated({
+        event: data.event,
+        eventUrl: data.eventUrl,
+        organizerUrl: data.organizerUrl,
+      });
+    } catch (createError) {
+      setError(
+        createError instanceof Error
+          ? createError.message
+          : t("newEvent.error"),
+      );
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const copyLink = (value: string) => {
+    void navigator.clipboard?.writeText(value);
+  };
+
+  if (created) {
+    return (
+      <div className={styles.page}>
+        <header className={styles.header}>
+          <Link className={styles.backLink} href="/">
+            {t("nav.backToCake")}
+          </Link>
+          <h1 className={styles.title}>
+            {t("newEvent.ready", { honoree: created.event.honoree })}
+          </h1>
+        </header>
+
+        <section className={styles.panel}>
+          <h2 className={styles.panelTitle}>{t("newEvent.share")}</h2>
+          <code className={styles.link}>{created.eventUrl}</code>
+          <div className={styles.actions}>
+            <a className={styles.button} href={created.eventUrl}>
+              {t("newEvent.open")}
+            </a>
+            <button
+              className={styles.buttonGhost}
+              type="button"
+              onClick={() => copyLink(created.eventUrl)}
+            >
+              {t("newEvent.copy")}
+            </button>
+          </div>
+        </section>
+
+        <section className={styles.panel}>
+          <h2 className={styles.panelTitle}>
+            {t("newEvent.organizerTitle")}
+          </h2>
+          <p className={styles.muted}>{t("newEvent.organizerNote")}</p>
+          <code className={styles.link}>{created.organizerUrl}</code>
+          <div className={styles.actions}>
+            <button
+              className={styles.buttonGhost}
+              type="button"
+              onClick={() => copyLink(created.organizerUrl)}
+            >
+              {t("newEvent.copyOrganizer")}
+            </button>
+          </div>
+        </section>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.page}>
+      <header className={styles.header}>
+        <Link className={styles.backLink} href="/">
+          {t("nav.backToCake")}
+        </Link>
+        <h1 className={styles.title}>{t("newEvent.title")}</h1>
+        <p className={styles.muted}>{t("newEvent.intro")}</p>
+      </header>
+
+      <form className={styles.panel} onSubmit={createEvent}>
+        <div className={styles.row}>
+          <label className={styles.field}>
+            <span>{t("eventForm.honoree")}</span>
+            <input
+              className={inputClass("honoree")}
+              value={honoree}
+              maxLength={40}
+              onChange={(event) => setHonoree(event.target.value)}
+              placeholder="Zoë"
+              required
+            />
+          </label>
+          <label className={styles.field}>
+            <span>{t("newEvent.age")}</span>
+            <input
+              className={inputClass("age")}
+              type="number"
+              inputMode="numeric"
+              min={EVENT_MIN_AGE}
+              max={EVENT_MAX_AGE}
+              value={age}
+              onChange={(event) => setAge(event.target.value)}
+              placeholder="40"
+              required
+            />
+          </label>
+        </div>
+
+        <label className={styles.field}>
+          <span>{t("newEvent.slug")}</span>
+          <input
+            className={inputClass("slug")}
+            value={slug}
+            maxLength={40}
+            onChange={(event) => setSlug(event.target.value.toLowerCase())}
+            placeholder={slugPreview}
+          />
+          <span className={styles.muted}>
+            {t("newEvent.slugHint", { slug: slug.trim() || slugPreview })}
+          </span>
+        </label>
+
+        <div className={styles.row}>
+          <label className={styles.field}>
+            <span>{t("eventForm.theme")}</span>
+            <select
+              className={inputClass("theme")}
+              value={theme}
+              onChange={(event) => setTheme(event.target.value as EventTheme)}
+            >
+              {EVENT_THEMES.map((option) => (
+                <option key={option} value={option}>
+                  {t(`theme.${option}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.field}>
+            <span>
+              {t("eventForm.optional", { label: t("eventForm.startDate") })}
+            </span>
+            <input
+              className={inputClass("startDate")}
+              type="date"
+              value={startDate}
+              onChange={(event) => setStartDate(event.target.value)}
+            />
+          </label>
+          <label className={styles.field}>
+            <span>
+              {t("eventForm.optional", { label: t("eventForm.endDate") })}
+            </span>
+            <input
+              className={inputClass("endDate")}
+              type="date"
+              value={endDate}
+              onChange={(event) => setEndDate(event.target.value)}
+            />
+          </label>
+        </div>
+
+        <label className={styles.field}>
+          <span>
+            {t("eventForm.optional", { label: t("eventForm.message") })}
+          </span>
+          <textarea
+            className={`${inputClass("message")} ${styles.textarea}`}
+            value={message}
+            maxLength={MAX_MESSAGE_LENGTH}
+            onChange={(event) => setMessage(event.target.value)}
+            placeholder={t("newEvent.messagePlaceholder")}
+          />
+        </label>
+
+        <p className={styles.muted}>{t("newEvent.retention")}</p>
+
+        <div className={styles.actions}>
+          <button
+            className={styles.button}
+            type="submit"
+            disabled={isBusy || !honoree.trim() || !age}
+          >
+            {isBusy ? t("newEvent.creating") : t("newEvent.create")}
+          </button>
+        </div>
+      </form>
+
+      {error ? <div className={styles.error}>{error}</div> : null}
+    </div>
+  );
+}
@@ -0,0 +1,433 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useCallback, useEffect, useRef, useState } from "react";
+import gameStyles from "@/app/page.module.css";
+import CandleField from "@/components/CandleField";
+import { useTranslator } from "@/components/useTranslator";
+import type { ApiErrorBody } from "@/lib/apiErrors";
+import {
+  DEFAULT_CONFIG,
+  createGame,
+  elapsedMs,
+  popCandle,
+  tick,
+  timeLeftSeconds,
+  type Candle,
+  type GameState,
+  type PopInput,
+} from "@/lib/game";
+import {
+  formatSeconds,
+  formatTimeMs,
+  localizeApiError,
+  type MessageKey,
+  type Translator,
+} from "@/lib/i18n";
+import { NAME_STORAGE_KEY, loadClientId } from "@/lib/identity";
+import styles from "../page.module.css";
+
+const TICK_MS = 100;
+const PROGRESS_INTERVAL_MS = 500;
+const TARGET_CANDLES = DEFAULT_CONFIG.targetCandles;
+
+type Participant = {
+  rank: number;
+  playerId: number;
+  name: string;
+  candles: number;
+  timeMs: number | null;
+  endReason: string | null;
+  finished: boolean;
+};
+
+type RoomState = {
+  code: string;
+  status: "lobby" | "countdown" | "running" | "results";
+  hostPlayerId: number;
+  seed: number | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  maxPlayers: number;
+  participants: Participant[];
+};
+
+type RoomResponse = ApiErrorBody & {
+  room?: RoomState;
+  playerId?: number;
+  serverNow?: string;
+};
+
+// Kept untranslated so the message follows the language once it loads.
+type RoomError = {
+  data: ApiErrorBody;
+  fallback: MessageKey;
+};
+
+const describeEnd = ({ t }: Translator, entry: Participant) => {
+  if (!entry.finished) return t("room.end.playing");
+  if (entry.endReason === "bomb") return t("room.end.bomb");
+  if (entry.endReason === "candles") return t("room.end.candles");
+  return t("room.end.time");
+};
+
+export default function PartyRoomPage() {
+  const params = useParams<{ code: string }>();
+  const code = String(params.code ?? "").toUpperCase();
+  const translator = useTranslator();
+  const { t, plural, locale } = translator;
+  const [clientId, setClientId] = useState<string | null>(null);
+  const [nameDraft, setNameDraft] = useState("");
+  const [playerId, setPlayerId] = useState<number | null>(null);
+  const [room, setRoom] = useState<RoomState | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [game, setGame] = useState<GameState | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [hasSubmitted, setHasSubmitted] = useState(false);
+  const [error, setError] = useState<RoomError | null>(null);
+  const clockOffsetRef = useRef(0);
+  const inputLogRef = useRef<PopInput[]>([]);
+  const sentCandlesRef = useRef(0);
+  const candlesRef = useRef(0);
+
+  const applyRoom = useCallback((data: RoomResponse) => {
+    if (data.serverNow) {
+      clockOffsetRef.current = Date.parse(data.serverNow) - Date.now();
+    }
+    if (data.room) setRoom(data.room);
+  }, []);
+
+  const joinRoom = useCallback(
+    async (id: string, name: string) => {
+      setIsBusy(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/rooms/${code}/join`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ clientId: id, name }),
+        });
+        const data = (await response.json()) as RoomResponse;
+        if (!response.ok || typeof data.playerId !== "number") {
+          setError({ data, fallback: "room.error.join" });
+          return;
+        }
+        window.localStorage.setItem(NAME_STORAGE_KEY, name.trim());
+        applyRoom(data);
+        setPlayerId(data.playerId);
+      } catch {
+        setError({ data: {}, fallback: "room.error.join" });
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [applyRoom, code],
+  );
+
+  useEffect(() => {
+    const id = loadClientId();
+    const savedName = window.localStorage.getItem(NAME_STORAGE_KEY) ?? "";
+    setClientId(id);
+    setNameDraft(savedName);
+    if (savedName) void joinRoom(id, savedName);
+  }, [joinRoom]);
+
+  useEffect(() => {
+    if (playerId === null) return;
+    const source = new EventSource(`/api/rooms/${code}/stream`);
+    source.addEventListener("room", (event: MessageEvent<string>) => {
+      applyRoom(JSON.parse(event.data) as RoomResponse);
+    });
+    source.addEventListener("closed", () => {
+      setError({ data: {}, fallback: "room.closed" });
+      source.close();
+    });
+    return () => source.close();
+  }, [applyRoom, code, playerId]);
+
+  const me = room?.participants.find((entry) => entry.playerId === playerId);
+  const isHost = room !== null && room.hostPlayerId === playerId;
+  const startsAtMs = room?.startsAt ? Date.parse(room.startsAt) : null;
+  const seed = room?.seed ?? null;
+  const canPlay =
+    Boolean(me) &&
+    !me?.finished &&
+    (room?.status === "countdown" || room?.status === "running");
+  const serverNow = now + clockOffsetRef.current;
+  const isPlaying = game?.status === "running";
+  const candlesPlaced = game?.candlesPlaced ?? 0;
+  candlesRef.current = candlesPlaced;
+
+  useEffect(() => {
+    if (startsAtMs === null || seed === null || !canPlay) return;
+    const clock = setInterval(() => {
+      const elapsed = Date.now() + clockOffsetRef.current - startsAtMs;
+      setNow(Date.now());
+      if (elapsed < 0) return;
+      setGame((prev) => {
+        if (!prev) return tick(createGame(seed), elapsed);
+        return prev.status === "running" ? tick(prev, elapsed) : prev;
+      });
+    }, TICK_MS);
+    return () => clearInterval(clock);
+  }, [canPlay, seed, startsAtMs]);
+
+  useEffect(() => {
+    if (!isPlaying || !clientId) return;
+    const timer = setInterval(() => {
+      const candles = candlesRef.current;
+      if (candles <= sentCandlesRef.current) return;
+      sentCandlesRef.current = candles;
+      void fetch(`/api/rooms/${code}/progress`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ clientId, candles }),
+      });
+    }, PROGRESS_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [clientId, code, isPlaying]);
+
+  useEffect(() => {
+    if (game?.status !== "ended" || hasSubmitted || !clientId) return;
+    setHasSubmitted(true);
+    const submit = async () => {
+      try {
+        const response = await fetch(`/api/rooms/${code}/finish`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            clientId,
+            candles: game.candlesPlaced,
+            timeMs: elapsedMs(game),
+            endReason: game.endReason,
+            inputs: inputLogRef.current,
+          }),
+        });
+        const data = (await response.json()) as RoomResponse;
+        if (!response.ok) {
+          setError({ data, fallback: "room.error.save" });
+          return;
+        }
+        applyRoom(data);
+      } catch {
+        setError({ data: {}, fallback: "room.error.save" });
+      }
+    };
+    void submit();
+  }, [applyRoom, clientId, code, game, hasSubmitted]);
+
+  const handlePop = (candle: Candle) => {
+    if (!isPlaying || startsAtMs === null || candle.state !== "alive") return;
+    const atMs = Date.now() + clockOffsetRef.current - startsAtMs;
+    inputLogRef.current.push({ candleId: candle.id, atMs });
+    setGame((prev) => (prev ? popCandle(prev, candle.id, atMs) : prev));
+  };
+
+  const startRound = async () => {
+    if (!clientId) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/rooms/${code}/start`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ clientId }),
+      });
+      const data = (await response.json()) as RoomResponse;
+      if (!response.ok) {
+        setError({ data, fallback: "room.error.start" });
+        return;
+      }
+      applyRoom(data);
+    } catch {
+      setError({ data: {}, fallback: "room.error.start" });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const tally = (room?.participants ?? []).map((entry) =>
+    entry.playerId === playerId && game && !entry.finished
+      ? { ...entry, candles: game.candlesPlaced }
+      : entry,
+  );
+
+  if (isPlaying && game) {
+    return (
+      <div className={styles.playing}>
+        <div className={`${gameStyles.stage} ${styles.playingStage}`}>
+          <div className={gameStyles.stageHud}>
+            <div className={gameStyles.stageStat}>
+              <span className={gameStyles.stageLabel}>{t("hud.time")}</span>
+              <strong className={gameStyles.stageValue}>
+                {formatSeconds(timeLeftSeconds(game), locale)}
+              </strong>
+            </div>
+            <div className={gameStyles.stageStat}>
+              <span className={gameStyles.stageLabel}>
+                {t("hud.candles")}
+              </span>
+              <strong className={gameStyles.stageValue}>
+                {candlesPlaced}/{TARGET_CANDLES}
+              </strong>
+            </div>
+          </div>
+          <CandleField
+            candles={game.candles}
+            onPop={handlePop}
+            translator={translator}
+          />
+        </div>
+        <ol className={styles.liveTally} aria-label={t("room.liveTally")}>
+          {[...tally]
+            .sort((a, b) => b.candles - a.candles)
+            .map((entry) => (
+              <li
+                key={entry.playerId}
+                className={entry.playerId === playerId ? styles.rowMe : ""}
+              >
+                <span>{entry.name}</span>
+                <strong>{entry.candles}</strong>
+              </li>
+            ))}
+        </ol>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.page}>
+      <header className={styles.header}>
+        <Link className={styles.backLink} href="/party">
+          {t("nav.partyRooms")}
+        </Link>
+        <h1 className={styles.title}>
+          {t("room.title")} <span className={styles.code}>{code}</span>
+        </h1>
+        {room?.status === "lobby" ? (
+          <p className={styles.muted}>
+            {t("room.lobby", {
+              joined: room.participants.length,
+              max: room.maxPlayers,
+            })}
+          </p>
+        ) : null}
+      </header>
+
+      {playerId === null ? (
+        <section className={styles.panel}>
+          <label className={styles.field}>
+            <span>{t("party.name")}</span>
+            <input
+              className={styles.input}
+              value={nameDraft}
+              maxLength={40}
+              onChange={(event) => setNameDraft(event.target.value)}
+              placeholder={t("party.namePlaceholder")}
+            />
+          </label>
+          <div className={styles.actions}>
+            <button
+              className={styles.button}
+              type="button"
+              disabled={isBusy || !clientId || !nameDraft.trim()}
+              onClick={() => clientId && void joinRoom(clientId, nameDraft)}
+            >
+              {t("party.join")}
+            </button>
+          </div>
+        </section>
+      ) : null}
+
+      {error ? (
+        <div className={styles.error}>
+          {localizeApiError(translator, error.data, error.fallback)}
+        </div>
+      ) : null}
+
+      {room?.status === "lobby" && playerId !== null ? (
+        <section className={styles.panel}>
+          {isHost ? (
+            <div className={styles.actions}>
+              <button
+                className={styles.button}
+                type="button"
+                disabled={isBusy}
+                onClick={() => void startRound()}
+              >
+                {t("room.start")}
+              </button>
+            </div>
+          ) : (
+            <p className={styles.muted}>{t("room.waitingForHost")}</p>
+          )}
+        </section>
+      ) : null}
+
+      {room?.status === "countdown" && startsAtMs !== null ? (
+        <section className={styles.panel}>
+          <div className={styles.countdown} aria-live="assertive">
+            {Math.max(1, Math.ceil((startsAtMs - serverNow) / 1000))}
+          </div>
+        </section>
+      ) : null}
+
+      {room?.status === "running" ? (
+        <section className={styles.panel}>
+          <p className={styles.muted}>
+            {me?.finished || game?.status === "ended"
+              ? t("room.waitingForOthers")
+              : t("room.inProgress")}
+          </p>
+        </section>
+      ) : null}
+
+      {room ? (
+        <section className={styles.panel}>
+          <h2 className={styles.subtitle}>
+            {room.status === "results" ? t("room.results") : t("room.players")}
+          </h2>
+          <ol className={styles.list}>
+            {tally.map((entry) => (
+              <li
+                key={entry.playerId}
+                className={`${styles.row} ${
+                  entry.playerId === playerId ? styles.rowMe : ""
+                }`}
+              >
+                <span className={styles.rank}>
+                  {room.status === "results" ? `#${entry.rank}` : ""}
+                </span>
+                <span className={styles.name}>
+                  {entry.playerId === room.hostPlayerId
+                    ? t("room.hostTag", { name: entry.name })
+                    : entry.name}
+                </span>
+                {room.status === "lobby" ? null : (
+                  <>
+                    <span>
+                      {plural("scores.candles", entry.candles)}
+                    </span>
+                    <span className={styles.muted}>
+                      {entry.timeMs === null
+                        ? ""
+                        : formatTimeMs(entry.timeMs, locale)}{" "}
+                      {describeEnd(translator, entry)}
+                    </span>
+                  </>
+                )}
+              </li>
+            ))}
+          </ol>
+          {room.status === "results" ? (
+            <p className={styles.muted}>
+              {t("room.resultsNote")}{" "}
+              <Link href="/party">{t("room.another")}</Link>
+            </p>
+          ) : null}
+        </section>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { useTranslator } from "@/components/useTranslator";
+import type { ApiErrorBody } from "@/lib/apiErrors";
+import { localizeApiError } from "@/lib/i18n";
+import { NAME_STORAGE_KEY, loadClientId } from "@/lib/identity";
+import styles from "./page.module.css";
+
+const cleanRoomCode = (value: string) =>
+  value.replace(/[^a-z0-9]/gi, "").toUpperCase().slice(0, 5);
+
+export default function PartyPage() {
+  const router = useRouter();
+  const translator = useTranslator();
+  const { t } = translator;
+  const [clientId, setClientId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [code, setCode] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    setClientId(loadClientId());
+    setName(window.localStorage.getItem(NAME_STORAGE_KEY) ?? "");
+  }, []);
+
+  const enterRoom = async (path: string) => {
+    if (!clientId) return;
+    setIsBusy(true);
+    setError("");
+    try {
+      const response = await fetch(path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ clientId, name }),
+      });
+      const data = (await response.json()) as ApiErrorBody & {
+        room?: { code: string };
+      };
+      if (!response.ok || !data.room) {
+        throw new Error(localizeApiError(translator, data, "party.error.open"));
+      }
+      window.localStorage.setItem(NAME_STORAGE_KEY, name.trim());
+      router.push(`/party/${data.room.code}`);
+    } catch (enterError) {
+      setError(
+        enterError instanceof Error
+          ? enterError.message
+          : t("party.error.open"),
+      );
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className={styles.page}>
+      <header className={styles.header}>
+        <Link className={styles.backLink} href="/">
+          {t("nav.backToCake")}
+        </Link>
+        <h1 className={styles.title}>{t("party.title")}</h1>
+        <p className={styles.muted}>{t("party.intro")}</p>
+      </header>
+
+      <section className={styles.panel}>
+        <label className={styles.field}>
+          <span>{t("party.name")}</span>
+          <input
+            className={styles.input}
+            value={name}
+            maxLength={40}
+            onChange={(event) => setName(event.target.value)}
+            placeholder={t("party.namePlaceholder")}
+          />
+        </label>
+        <div className={styles.actions}>
+          <button
+            className={styles.button}
+            type="button"
+            disabled={isBusy || !name.trim()}
+            onClick={() => void enterRoom("/api/rooms")}
+          >
+            {t("party.host")}
+          </button>
+        </div>
+      </section>
+
+      <section className={styles.panel}>
+        <label className={styles.field}>
+          <span>{t("party.code")}</span>
+          <input
+            className={`${styles.input} ${styles.codeInput}`}
+            value={code}
+            onChange={(event) => setCode(cleanRoomCode(event.target.value))}
+            placeholder="ABCDE"
+            autoCapitalize="characters"
+          />
+        </label>
+        <div className={styles.actions}>
+          <button
+            className={styles.buttonGhost}
+            type="button"
+            disabled={isBusy || !name.trim() || code.length !== 5}
+            onClick={() => void enterRoom(`/api/rooms/${code}/join`)}
+          >
+            {t("party.join")}
+          </button>
+        </div>
+      </section>
+
+      {error ? <div className={styles.error}>{error}</div> : null}
+    </div>
+  );
+}
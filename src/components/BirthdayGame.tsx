@@ -0,0 +1,1493 @@
+"use client";
+
+import Link from "next/link";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type CSSProperties,
+} from "react";
+import styles from "@/app/page.module.css";
+import CandleField from "@/components/CandleField";
+import ControlsPanel from "@/components/ControlsPanel";
+import { useGameInput } from "@/components/useGameInput";
+import {
+  DEFAULT_ACCESSIBILITY,
+  EXTENDED_LIFE_FACTOR,
+  accessConfig,
+  accessModeFor,
+  describeCandle,
+  describeRoundChange,
+  loadAccessibilitySettings,
+  saveAccessibilitySettings,
+  type AccessMode,
+  type AccessibilitySettings,
+} from "@/lib/accessibility";
+import type { ApiErrorBody } from "@/lib/apiErrors";
+import { msUntilNextDaily, toDateKey, type Board } from "@/lib/boards";
+import { cakeCandleSpots } from "@/lib/cake";
+import {
+  eventConfig,
+  eventStatus,
+  type EventDetails,
+  type EventStatus,
+  type EventTheme,
+} from "@/lib/events";
+import {
+  DEFAULT_CONFIG,
+  POWER_UPS,
+  createGame,
+  elapsedMs,
+  isFrozen,
+  popCandle,
+  tick,
+  timeLeftSeconds,
+  type Candle,
+  type GameState,
+  type PopInput,
+  type PowerUp,
+} from "@/lib/game";
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  LOCALE_LABELS,
+  createTranslator,
+  formatCount,
+  formatSeconds,
+  formatTimeMs,
+  loadLocale,
+  localizeApiError,
+  readLocale,
+  saveLocale,
+  type Locale,
+  type Translator,
+} from "@/lib/i18n";
+import {
+  EMAIL_STORAGE_KEY,
+  NAME_CONFIRMED_KEY,
+  NAME_STORAGE_KEY,
+  loadClientId,
+} from "@/lib/identity";
+import {
+  DEFAULT_BINDINGS,
+  loadControlBindings,
+  primaryInputMethod,
+  saveControlBindings,
+  type ControlBindings,
+  type InputMethod,
+} from "@/lib/input";
+import { MODES, ranksByPoints, type GameMode } from "@/lib/modes";
+
+const POP_POINTS = DEFAULT_CONFIG.popPoints;
+const GOLDEN_POINTS = DEFAULT_CONFIG.goldenPoints;
+const BOMB_PENALTY = DEFAULT_CONFIG.bombPenalty;
+const TICK_MS = 100;
+
+type ScoreEntry = {
+  id: number;
+  name: string;
+  playerId: number | null;
+  points: number;
+  candles: number;
+  timeMs: number;
+  accessMode: AccessMode | null;
+  createdAt: string;
+};
+
+type Placement = {
+  id: number;
+  rank: number;
+  total: number;
+  percentile: number | null;
+  above: ScoreEntry[];
+  below: ScoreEntry[];
+  target: (ScoreEntry & { rank: number }) | null;
+};
+
+const THEME_CLASSES: Record<EventTheme, string> = {
+  party: "",
+  pastel: styles.themePastel,
+  ocean: styles.themeOcean,
+};
+
+const describePlacement = (
+  { t, plural, locale }: Translator,
+  placement: Placement,
+  { points, candles, timeMs }: Pick<ScoreEntry, "points" | "candles" | "timeMs">,
+  byPoints: boolean,
+) => {
+  const placed = t("placement.rank", {
+    rank: placement.rank,
+    total: placement.total,
+  });
+  const target = placement.target;
+  if (!target) return t("placement.top", { placed });
+  const pointGap = target.points - points;
+  if (byPoints && pointGap > 0) {
+    return t("placement.points", { placed, gap: pointGap, rank: target.rank });
+  }
+  const candleGap = target.candles - candles;
+  if (candleGap > 0) {
+    return plural("placement.candles", candleGap, {
+      placed,
+      rank: target.rank,
+    });
+  }
+  return t("placement.time", {
+    placed,
+    time: formatTimeMs(Math.max(0, timeMs - target.timeMs), locale),
+    rank: target.rank,
+  });
+};
+const describePowerUps = (
+  { t, plural }: Translator,
+  counts: Record<PowerUp, number>,
+) => {
+  const collected = POWER_UPS.filter((powerUp) => counts[powerUp] > 0).map(
+    (powerUp) => plural(`powerUps.${powerUp}`, counts[powerUp]),
+  );
+  return collected.length > 0
+    ? t("powerUps.collected", { list: collected.join(", ") })
+    : t("powerUps.none");
+};
+const formatCountdown = (value: number) => {
+  const totalSeconds = Math.floor(value / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds]
+    .map((part) => String(part).padStart(2, "0"))
+    .join(":");
+};
+const cleanDisplayName = (value: string) =>
+  value.trim().replace(/\s+/g, " ").slice(0, 40);
+const cleanEmail = (value: string) => value.trim().toLowerCase();
+const isValidEmail = (value: string) =>
+  /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+
+type BirthdayGameProps = {
+  event: EventDetails;
+};
+
+export default function BirthdayGame({ event }: BirthdayGameProps) {
+  const { honoree, age: targetCandles } = event;
+  const [game, setGame] = useState<GameState | null>(null);
+  const [board, setBoard] = useState<Board>("classic");
+  const [mode, setMode] = useState<GameMode>("classic");
+  const [dailyCountdownMs, setDailyCountdownMs] = useState<number | null>(
+    null,
+  );
+  const [playerName, setPlayerName] = useState("");
+  const [clientId, setClientId] = useState<string | null>(null);
+  const [isSavingName, setIsSavingName] = useState(false);
+  const [hasConfirmedName, setHasConfirmedName] = useState(false);
+  const [isNameModalOpen, setIsNameModalOpen] = useState(false);
+  const [nameDraft, setNameDraft] = useState("");
+  const [nameModalError, setNameModalError] = useState("");
+  const [playerEmail, setPlayerEmail] = useState("");
+  const [hasConfirmedEmail, setHasConfirmedEmail] = useState(false);
+  const [isEmailModalOpen, setIsEmailModalOpen] = useState(false);
+  const [emailDraft, setEmailDraft] = useState("");
+  const [emailModalError, setEmailModalError] = useState("");
+  const [highScores, setHighScores] = useState<ScoreEntry[]>([]);
+  const [freshScoreIds, setFreshScoreIds] = useState<number[]>([]);
+  const [scoreView, setScoreView] = useState<"all" | "best">("all");
+  const [isLoadingScores, setIsLoadingScores] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [roundToken, setRoundToken] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+  const [placement, setPlacement] = useState<Placement | null>(null);
+  // A pending score whose confirmation email failed to send.
+  const [unsentScoreId, setUnsentScoreId] = useState<number | null>(null);
+  const [isResending, setIsResending] = useState(false);
+  const [error, setError] = useState("");
+  const startTimeRef = useRef<number | null>(null);
+  const inputLogRef = useRef<PopInput[]>([]);
+  const [goldFlash, setGoldFlash] = useState(false);
+  const goldFlashTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [hasSubmittedRound, setHasSubmittedRound] = useState(false);
+  const [autoSubmitAttempted, setAutoSubmitAttempted] = useState(false);
+  const [accessibility, setAccessibility] = useState<AccessibilitySettings>(
+    DEFAULT_ACCESSIBILITY,
+  );
+  const [announcement, setAnnouncement] = useState("");
+  const announcedGameRef = useRef<GameState | null>(null);
+  const [bindings, setBindings] = useState<ControlBindings>(DEFAULT_BINDINGS);
+  const [lastInputMethod, setLastInputMethod] = useState<InputMethod | null>(
+    null,
+  );
+  const inputMethodsRef = useRef<InputMethod[]>([]);
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const translator = useMemo(() => createTranslator(locale), [locale]);
+  const { t, plural } = translator;
+
+  const candles = game?.candles ?? [];
+  const candlesPlaced = game?.candlesPlaced ?? 0;
+  const combo = game?.combo ?? 0;
+  const points = game?.points ?? 0;
+  const shields = game?.shields ?? 0;
+  const powerUps = game?.powerUps ?? null;
+  const frozen = game ? isFrozen(game) : false;
+  const byPoints = ranksByPoints(mode);
+  const accessMode = accessModeFor(accessibility);
+  const config = useMemo(
+    () => accessConfig(eventConfig(mode, targetCandles), accessMode),
+    [accessMode, mode, targetCandles],
+  );
+  const cakeSpots = useMemo(
+    () => cakeCandleSpots(targetCandles),
+    [targetCandles],
+  );
+  const [eventState, setEventState] = useState<EventStatus>("open");
+  const timeLeft = game ? timeLeftSeconds(game) : config.gameMs / 1000;
+  const status = game?.status ?? "idle";
+  const endReason = game?.endReason ?? null;
+  const isRunning = game?.status === "running";
+  const hasLeftoverCandles = status === "ended" && candles.length > 0;
+
+  const topScores = useMemo(() => highScores.slice(0, 10), [highScores]);
+  const bestEntry = useMemo(
+    () => (topScores.length > 0 ? topScores[0] : null),
+    [topScores],
+  );
+
+  const fetchScores = useCallback(async () => {
+    setIsLoadingScores(true);
+    try {
+      const params = new URLSearchParams();
+      if (board === "daily") {
+        params.set("board", "daily");
+        params.set("date", toDateKey(new Date()));
+      }
+      if (mode !== "classic") {
+        params.set("mode", mode);
+      }
+      if (event.slug) {
+        params.set("event", event.slug);
+      }
+      if (scoreView === "best") {
+        params.set("view", "best");
+      }
+      const query = params.toString();
+      const response = await fetch(`/api/scores${query ? `?${query}` : ""}`, {
+        cache: "no-cache",
+      });
+      if (!response.ok) {
+        throw new Error("Scores unavailable");
+      }
+      const data = (await response.json()) as { scores?: ScoreEntry[] };
+      setHighScores(Array.isArray(data.scores) ? data.scores : []);
+    } catch {
+      setHighScores([]);
+    } finally {
+      setIsLoadingScores(false);
+    }
+  }, [board, event.slug, mode, scoreView]);
+
+  useEffect(() => {
+    fetchScores();
+  }, [fetchScores]);
+
+  useEffect(() => {
+    if (scoreView !== "all" || typeof EventSource === "undefined") return;
+    const params = new URLSearchParams();
+    if (board === "daily") {
+      params.set("board", "daily");
+      params.set("date", toDateKey(new Date()));
+    }
+    if (mode !== "classic") {
+      params.set("mode", mode);
+    }
+    if (event.slug) {
+      params.set("event", event.slug);
+    }
+    const query = params.toString();
+    const source = new EventSource(
+      `/api/scores/stream${query ? `?${query}` : ""}`,
+    );
+    const applyBoard = (event: MessageEvent<string>) => {
+      const data = JSON.parse(event.data) as {
+        scores?: ScoreEntry[];
+        added?: ScoreEntry[];
+      };
+      setHighScores(Array.isArray(data.scores) ? data.scores : []);
+      setFreshScoreIds(data.added?.map((entry) => entry.id) ?? []);
+      setIsLoadingScores(false);
+    };
+    source.addEventListener("snapshot", applyBoard);
+    source.addEventListener("update", applyBoard);
+    return () => source.close();
+  }, [board, event.slug, mode, scoreView]);
+
+  useEffect(() => {
+    const updateCountdown = () => {
+      setDailyCountdownMs(msUntilNextDaily());
+      setEventState(eventStatus(event));
+    };
+    updateCountdown();
+    const timer = setInterval(updateCountdown, 1000);
+    return () => clearInterval(timer);
+  }, [event]);
+
+  useEffect(() => {
+    return () => {
+      if (goldFlashTimerRef.current) {
+        clearTimeout(goldFlashTimerRef.current);
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    const savedName = window.localStorage.getItem(NAME_STORAGE_KEY);
+    const confirmed = window.localStorage.getItem(NAME_CONFIRMED_KEY) === "true";
+    const savedEmail = window.localStorage.getItem(EMAIL_STORAGE_KEY);
+    setClientId(loadClientId());
+    setAccessibility(loadAccessibilitySettings());
+    setBindings(loadControlBindings());
+    setLocale(loadLocale());
+    if (savedName) {
+      setPlayerName(savedName);
+      setNameDraft(savedName);
+    } else {
+      setPlayerName("");
+      setNameDraft("");
+    }
+    setHasConfirmedName(Boolean(savedName) && confirmed);
+    if (savedEmail) {
+      setPlayerEmail(savedEmail);
+      setEmailDraft(savedEmail);
+      setHasConfirmedEmail(true);
+    } else {
+      setPlayerEmail("");
+      setEmailDraft("");
+      setHasConfirmedEmail(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    const url = new URL(window.location.href);
+    const verified = url.searchParams.get("verified");
+    if (!verified) return;
+    // Runs before the saved locale reaches state, so it reads it directly.
+    const { t } = createTranslator(loadLocale());
+    if (verified === "success") {
+      setMessage(t("message.verified"));
+    } else {
+      setError(t("error.verifyLink"));
+    }
+    url.searchParams.delete("verified");
+    window.history.replaceState(null, "", url.toString());
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  useEffect(() => {
+    if (status === "ended" && !hasConfirmedName) {
+      setNameDraft(playerName || "");
+      setNameModalError("");
+      setIsNameModalOpen(true);
+    }
+  }, [hasConfirmedName, playerName, status]);
+
+  const finalTimeMs = game ? elapsedMs(game) : 0;
+
+  const qualifiesForTopTen = useMemo(() => {
+    if (candlesPlaced <= 0) return false;
+    if (topScores.length < 10) return true;
+    const lastEntry = topScores[topScores.length - 1];
+    if (!lastEntry) return true;
+    if (byPoints && points !== lastEntry.points) {
+      return points > lastEntry.points;
+    }
+    if (candlesPlaced > lastEntry.candles) return true;
+    if (candlesPlaced === lastEntry.candles && finalTimeMs < lastEntry.timeMs) {
+      return true;
+    }
+    return false;
+  }, [byPoints, candlesPlaced, finalTimeMs, points, topScores]);
+
+  const needsEmail =
+    status === "ended" &&
+    hasConfirmedName &&
+    qualifiesForTopTen &&
+    !hasConfirmedEmail &&
+    !hasSubmittedRound;
+
+  useEffect(() => {
+    if (!needsEmail || isEmailModalOpen) return;
+    setEmailDraft(playerEmail || "");
+    setEmailModalError("");
+    setIsEmailModalOpen(true);
+  }, [isEmailModalOpen, needsEmail, playerEmail]);
+
+  useEffect(() => {
+    if (!isRunning) return;
+    const clock = setInterval(() => {
+      const startedAt = startTimeRef.current;
+      if (startedAt === null) return;
+      setGame((prev) => (prev ? tick(prev, Date.now() - startedAt) : prev));
+    }, TICK_MS);
+    return () => clearInterval(clock);
+  }, [isRunning]);
+
+  useEffect(() => {
+    if (!accessibility.enabled || !game) {
+      announcedGameRef.current = game;
+      return;
+    }
+    const change = describeRoundChange(
+      translator,
+      announcedGameRef.current,
+      game,
+    );
+    announcedGameRef.current = game;
+    if (change) setAnnouncement(change);
+  }, [accessibility.enabled, game, translator]);
+
+  useEffect(() => {
+    if (!hasLeftoverCandles) return;
+    const clear = setTimeout(() => {
+      setGame((prev) =>
+        prev
+          ? tick(prev, (prev.endedAt ?? prev.nowMs) + prev.config.boomClearMs)
+          : prev,
+      );
+    }, DEFAULT_CONFIG.boomClearMs);
+    return () => clearTimeout(clear);
+  }, [hasLeftoverCandles]);
+
+  const openNameModal = useCallback(() => {
+    setNameDraft(playerName || "");
+    setNameModalError("");
+    setIsNameModalOpen(true);
+  }, [playerName]);
+
+  const openEmailModal = useCallback(() => {
+    setEmailDraft(playerEmail || "");
+    setEmailModalError("");
+    setIsEmailModalOpen(true);
+  }, [playerEmail]);
+
+  const triggerGoldFlash = useCallback(() => {
+    setGoldFlash(true);
+    if (goldFlashTimerRef.current) {
+      clearTimeout(goldFlashTimerRef.current);
+    }
+    goldFlashTimerRef.current = setTimeout(() => {
+      setGoldFlash(false);
+    }, 450);
+  }, []);
+
+  const closeNameModal = () => {
+    if (!hasConfirmedName) return;
+    setIsNameModalOpen(false);
+    setNameModalError("");
+  };
+
+  const closeEmailModal = () => {
+    if (!hasConfirmedEmail) return;
+    setIsEmailModalOpen(false);
+    setEmailModalError("");
+  };
+
+  const confirmName = async () => {
+    const cleaned = cleanDisplayName(nameDraft);
+    if (!cleaned) {
+      setNameModalError(t("nameModal.empty"));
+      return;
+    }
+    if (isSavingName) return;
+    let savedName = cleaned;
+    if (clientId) {
+      setIsSavingName(true);
+      try {
+        const response = await fetch("/api/players", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ clientId, name: cleaned }),
+        });
+        const data = (await response.json()) as ApiErrorBody & {
+          player?: { name: string };
+        };
+        if (!response.ok) {
+          throw new Error(localizeApiError(translator, data, "error.saveName"));
+        }
+        savedName = data.player?.name ?? cleaned;
+      } catch (saveError) {
+        setNameModalError(
+          saveError instanceof Error ? saveError.message : t("error.saveName"),
+        );
+        return;
+      } finally {
+        setIsSavingName(false);
+      }
+    }
+    setPlayerName(savedName);
+    setNameDraft(savedName);
+    setHasConfirmedName(true);
+    if (typeof window !== "undefined") {
+      window.localStorage.setItem(NAME_STORAGE_KEY, savedName);
+      window.localStorage.setItem(NAME_CONFIRMED_KEY, "true");
+    }
+    setIsNameModalOpen(false);
+    setNameModalError("");
+  };
+
+  const confirmEmail = () => {
+    const cleaned = cleanEmail(emailDraft);
+    if (!cleaned || !isValidEmail(cleaned)) {
+      setEmailModalError(t("emailModal.invalid"));
+      return;
+    }
+    setPlayerEmail(cleaned);
+    setEmailDraft(cleaned);
+    setHasConfirmedEmail(true);
+    if (typeof window !== "undefined") {
+      window.localStorage.setItem(EMAIL_STORAGE_KEY, cleaned);
+    }
+    setIsEmailModalOpen(false);
+    setEmailModalError("");
+  };
+
+  const startGame = async () => {
+    if (isStarting) return;
+    setIsStarting(true);
+    setError("");
+    let round: { token: string; seed: number };
+    try {
+      const response = await fetch("/api/sessions", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          board,
+          mode,
+          event: event.slug ?? undefined,
+          accessMode: accessMode ?? undefined,
+        }),
+      });
+      const data = (await response.json()) as ApiErrorBody & {
+        token?: string;
+        seed?: number;
+      };
+      if (!response.ok || !data.token || typeof data.seed !== "number") {
+        throw new Error(
+          localizeApiError(translator, data, "error.startRound"),
+        );
+      }
+      round = { token: data.token, seed: data.seed };
+    } catch (startError) {
+      setError(
+        startError instanceof Error
+          ? startError.message
+          : t("error.startRound"),
+      );
+      return;
+    } finally {
+      setIsStarting(false);
+    }
+
+    setRoundToken(round.token);
+    announcedGameRef.current = null;
+    setGame(createGame(round.seed, config));
+    inputLogRef.current = [];
+    inputMethodsRef.current = [];
+    setGoldFlash(false);
+    setHasSubmittedRound(false);
+    setAutoSubmitAttempted(false);
+    startTimeRef.current = Date.now();
+    setMessage("");
+    setPlacement(null);
+    setUnsentScoreId(null);
+    setError("");
+  };
+
+  const resetGame = () => {
+    setGame(null);
+    inputLogRef.current = [];
+    inputMethodsRef.current = [];
+    setGoldFlash(false);
+    setHasSubmittedRound(false);
+    setAutoSubmitAttempted(false);
+    setRoundToken(null);
+    startTimeRef.current = null;
+    setMessage("");
+    setPlacement(null);
+    setUnsentScoreId(null);
+    setError("");
+  };
+
+  const selectBoard = (next: Board) => {
+    if (isRunning || next === board) return;
+    setBoard(next);
+    resetGame();
+  };
+
+  const updateAccessibility = (changes: Partial<AccessibilitySettings>) => {
+    if (isRunning) return;
+    const next = { ...accessibility, ...changes };
+    setAccessibility(next);
+    saveAccessibilitySettings(next);
+    if (next.extendedCandles !== accessibility.extendedCandles) {
+      resetGame();
+    }
+  };
+
+  const selectLocale = (next: Locale) => {
+    setLocale(next);
+    saveLocale(next);
+  };
+
+  const selectMode = (next: GameMode) => {
+    if (isRunning || next === mode) return;
+    setMode(next);
+    resetGame();
+  };
+
+  const handlePop = (candle: Candle, method: InputMethod) => {
+    const startedAt = startTimeRef.current;
+    if (!isRunning || startedAt === null || candle.state !== "alive") return;
+    if (candle.kind === "golden") {
+      triggerGoldFlash();
+    }
+    const atMs = Date.now() - startedAt;
+    inputLogRef.current.push({ candleId: candle.id, atMs });
+    inputMethodsRef.current.push(method);
+    setLastInputMethod(method);
+    setGame((prev) => (prev ? popCandle(prev, candle.id, atMs) : prev));
+  };
+
+  const { slots, targetId } = useGameInput({
+    candles,
+    isRunning,
+    bindings,
+    onPop: handlePop,
+    onTarget: (candle, method) => {
+      setLastInputMethod(method);
+      if (accessibility.enabled) {
+        setAnnouncement(
+          t("announce.target", { candle: describeCandle(translator, candle) }),
+        );
+      }
+    },
+  });
+  const usesTargeting =
+    lastInputMethod === "keyboard" || lastInputMethod === "gamepad";
+
+  const updateBindings = useCallback((next: ControlBindings) => {
+    setBindings(next);
+    saveControlBindings(next);
+  }, []);
+
+  const submitScore = useCallback(
+    async (source: "auto" | "manual" = "manual") => {
+      if (!hasConfirmedName || !playerName.trim() || candlesPlaced <= 0) return;
+      if (qualifiesForTopTen && !hasConfirmedEmail) {
+        openEmailModal();
+        return;
+      }
+      setIsSubmitting(true);
+      setError("");
+      setMessage("");
+      try {
+        const response = await fetch("/api/scores", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            name: cleanDisplayName(playerName),
+            candles: candlesPlaced,
+            timeMs: finalTimeMs,
+            endReason,
+            mode,
+            points,
+            powerUps: powerUps ?? undefined,
+            inputs: inputLogRef.current,
+            inputMethod: primaryInputMethod(inputMethodsRef.current) ?? undefined,
+            email: hasConfirmedEmail ? cleanEmail(playerEmail) : undefined,
+            sessionToken: roundToken,
+            clientId: clientId ?? undefined,
+          }),
+        });
+        const data = (await response.json()) as ApiErrorBody & {
+          scores?: ScoreEntry[];
+          placement?: Placement | null;
+          pending?: boolean;
+          verification?: { scoreId: number; sent: boolean } | null;
+          madeBoard?: boolean;
+        };
+        if (!response.ok && data.field === "name") {
+          setNameDraft(playerName);
+          setNameModalError(
+            localizeApiError(translator, data, "error.pickName"),
+          );
+          setIsNameModalOpen(true);
+          return;
+        }
+        if (!response.ok && data.field === "email") {
+          openEmailModal();
+          return;
+        }
+        if (!response.ok) {
+          throw new Error(localizeApiError(translator, data, "error.submit"));
+        }
+        setHighScores(Array.isArray(data.scores) ? data.scores : []);
+        setPlacement(data.placement ?? null);
+        setHasSubmittedRound(true);
+        const unsent =
+          data.verification && !data.verification.sent
+            ? data.verification.scoreId
+            : null;
+        setUnsentScoreId(unsent);
+        setMessage(
+          unsent !== null
+            ? t("message.pendingUnsent", { email: cleanEmail(playerEmail) })
+            : data.pending
+              ? t("message.pending", { email: cleanEmail(playerEmail) })
+              : data.madeBoard
+                ? t("message.madeBoard")
+                : source === "auto"
+                  ? t("message.autoSaved")
+                  : t("message.saved"),
+        );
+      } catch (submitError) {
+        setError(
+          submitError instanceof Error
+            ? submitError.message
+            : t("error.submit"),
+        );
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [
+      candlesPlaced,
+      clientId,
+      endReason,
+      finalTimeMs,
+      hasConfirmedEmail,
+      hasConfirmedName,
+      mode,
+      openEmailModal,
+      playerEmail,
+      playerName,
+      points,
+      powerUps,
+      qualifiesForTopTen,
+      roundToken,
+      t,
+      translator,
+    ],
+  );
+
+  const resendVerification = async () => {
+    if (unsentScoreId === null) return;
+    setIsResending(true);
+    setError("");
+    try {
+      const response = await fetch("/api/scores/verify", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          scoreId: unsentScoreId,
+          email: cleanEmail(playerEmail),
+        }),
+      });
+      const data = (await response.json()) as ApiErrorBody;
+      if (!response.ok) {
+        throw new Error(localizeApiError(translator, data, "error.resend"));
+      }
+      setUnsentScoreId(null);
+      setMessage(t("message.resent", { email: cleanEmail(playerEmail) }));
+    } catch (resendError) {
+      setError(
+        resendError instanceof Error ? resendError.message : t("error.resend"),
+      );
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  useEffect(() => {
+    if (
+      status !== "ended" ||
+      !hasConfirmedName ||
+      candlesPlaced <= 0 ||
+      hasSubmittedRound ||
+      autoSubmitAttempted ||
+      isSubmitting ||
+      needsEmail
+    ) {
+      return;
+    }
+    setAutoSubmitAttempted(true);
+    void submitScore("auto");
+  }, [
+    autoSubmitAttempted,
+    candlesPlaced,
+    hasConfirmedName,
+    hasSubmittedRound,
+    isSubmitting,
+    needsEmail,
+    status,
+    submitScore,
+  ]);
+
+  const statusLabel =
+    status === "running"
+      ? t("status.running")
+      : status === "ended"
+        ? t(`status.${endReason ?? "time"}`)
+        : t("status.idle");
+  const canSubmit =
+    status === "ended" &&
+    candlesPlaced > 0 &&
+    hasConfirmedName &&
+    playerName.trim().length > 0 &&
+    !hasSubmittedRound &&
+    !needsEmail;
+
+  return (
+    <div
+      className={`${styles.page} ${THEME_CLASSES[event.theme]} ${
+        isRunning ? styles.pagePlaying : ""
+      } ${accessibility.enabled ? styles.reducedMotion : ""} ${
+        accessibility.enabled && accessibility.highContrast
+          ? styles.highContrast
+          : ""
+      }`}
+    >
+      <div className={styles.visuallyHidden} role="status" aria-live="polite">
+        {announcement}
+      </div>
+      {!isRunning ? (
+        <header className={styles.hero}>
+          <label className={styles.languagePicker}>
+            {t("language.label")}
+            <select
+              className={styles.modeOption}
+              value={locale}
+              onChange={(change) => {
+                const next = readLocale(change.target.value);
+                if (next) selectLocale(next);
+              }}
+            >
+              {LOCALES.map((option) => (
+                <option key={option} value={option} lang={option}>
+                  {LOCALE_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <p className={styles.kicker}>{t("hero.kicker", { honoree })}</p>
+          <h1 className={styles.title}>{t("hero.title")}</h1>
+          <p className={styles.subtitle}>
+            {t("hero.subtitle", { honoree, target: targetCandles })}
+          </p>
+          {event.message ? (
+            <p className={styles.eventMessage}>{event.message}</p>
+          ) : null}
+          {eventState !== "open" ? (
+            <p className={styles.eventNotice}>
+              {eventState === "upcoming"
+                ? t("event.upcoming", { date: event.startDate ?? "" })
+                : eventState === "closed"
+                  ? t("event.closed")
+                  : t("event.over", { date: event.endDate ?? "" })}
+            </p>
+          ) : null}
+          <div
+            className={styles.modePicker}
+            role="group"
+            aria-label={t("board.label")}
+          >
+            <button
+              type="button"
+              className={`${styles.modeOption} ${
+                board === "classic" ? styles.modeOptionActive : ""
+              }`}
+              aria-pressed={board === "classic"}
+              onClick={() => selectBoard("classic")}
+            >
+              {t("board.classic")}
+            </button>
+            <button
+              type="button"
+              className={`${styles.modeOption} ${
+                board === "daily" ? styles.modeOptionActive : ""
+              }`}
+              aria-pressed={board === "daily"}
+              onClick={() => selectBoard("daily")}
+            >
+              {t("board.daily")}
+            </button>
+            <span className={styles.countdown}>
+              {board === "daily" ? `${t("board.dailyNote")} ` : ""}
+              {t("board.nextDaily", {
+                countdown:
+                  dailyCountdownMs === null
+                    ? "--:--:--"
+                    : formatCountdown(dailyCountdownMs),
+              })}
+            </span>
+          </div>
+          <div
+            className={styles.modePicker}
+            role="group"
+            aria-label={t("mode.label")}
+          >
+            {MODES.map((option) => (
+              <button
+                key={option}
+                type="button"
+                className={`${styles.modeOption} ${
+                  mode === option ? styles.modeOptionActive : ""
+                }`}
+                aria-pressed={mode === option}
+                onClick={() => selectMode(option)}
+              >
+                {t(`mode.${option}`)}
+              </button>
+            ))}
+            <span className={styles.countdown}>
+              {t("mode.roundLength", {
+                seconds: formatSeconds(config.gameMs / 1000, locale),
+              })}
+            </span>
+          </div>
+          <div
+            className={styles.accessibilityPanel}
+            role="group"
+            aria-label={t("a11y.label")}
+          >
+            <label className={styles.accessibilityOption}>
+              <input
+                type="checkbox"
+                checked={accessibility.enabled}
+                onChange={(change) =>
+                  updateAccessibility({ enabled: change.target.checked })
+                }
+              />
+              {t("a11y.enabled")}
+            </label>
+            {accessibility.enabled ? (
+              <>
+                <label className={styles.accessibilityOption}>
+                  <input
+                    type="checkbox"
+                    checked={accessibility.highContrast}
+                    onChange={(change) =>
+                      updateAccessibility({
+                        highContrast: change.target.checked,
+                      })
+                    }
+                  />
+                  {t("a11y.highContrast")}
+                </label>
+                <label className={styles.accessibilityOption}>
+                  <input
+                    type="checkbox"
+                    checked={accessibility.extendedCandles}
+                    onChange={(change) =>
+                      updateAccessibility({
+                        extendedCandles: change.target.checked,
+                      })
+                    }
+                  />
+                  {t("a11y.extended", { factor: EXTENDED_LIFE_FACTOR })}
+                </label>
+                <span className={styles.countdown}>{t("a11y.note")}</span>
+              </>
+            ) : null}
+          </div>
+          <ControlsPanel
+            bindings={bindings}
+            lastMethod={lastInputMethod}
+            onChange={updateBindings}
+            translator={translator}
+          />
+          <div className={styles.stats}>
+            <div className={styles.stat}>
+              <div className={styles.statLabel}>{t("stats.timeLeft")}</div>
+              <div className={styles.statValue}>
+                {formatSeconds(timeLeft, locale)}
+              </div>
+            </div>
+            <div className={styles.stat}>
+              <div className={styles.statLabel}>{t("stats.candles")}</div>
+              <div className={styles.statValue}>
+                {candlesPlaced}/{targetCandles}
+              </div>
+            </div>
+            <div className={styles.stat}>
+              <div className={styles.statLabel}>{t("stats.streak")}</div>
+              <div className={styles.statValue}>
+                {t("stats.streakValue", { combo })}
+              </div>
+            </div>
+            <div className={styles.stat}>
+              <div className={styles.statLabel}>
+                {byPoints ? t("stats.bestPoints") : t("stats.bestCandles")}
+              </div>
+              <div className={styles.statValue}>
+                {formatCount(
+                  (byPoints ? bestEntry?.points : bestEntry?.candles) ?? 0,
+                  locale,
+                )}
+              </div>
+            </div>
+          </div>
+          <div className={styles.controls}>
+            <button
+              className={styles.primaryButton}
+              type="button"
+              onClick={startGame}
+              disabled={isRunning || isStarting || eventState !== "open"}
+            >
+              {isStarting
+                ? t("actions.starting")
+                : status === "ended"
+                  ? t("actions.playAgain")
+                  : t("actions.start")}
+            </button>
+            <button
+              className={styles.secondaryButton}
+              type="button"
+              onClick={resetGame}
+            >
+              {t("actions.reset")}
+            </button>
+            {event.slug ? null : (
+              <>
+                <Link className={styles.secondaryButton} href="/party">
+                  {t("actions.partyRoom")}
+                </Link>
+                <Link className={styles.secondaryButton} href="/new">
+                  {t("actions.newBirthday")}
+                </Link>
+              </>
+            )}
+            <span
+              className={`${styles.statusPill} ${
+                status === "running" ? styles.statusPillRunning : ""
+              }`}
+            >
+              {statusLabel}
+            </span>
+          </div>
+        </header>
+      ) : null}
+
+      <main className={`${styles.main} ${isRunning ? styles.mainPlaying : ""}`}>
+        <section
+          className={`${styles.gameCard} ${
+            isRunning ? styles.gameCardPlaying : ""
+          }`}
+        >
+          <div
+            className={`${styles.stage} ${isRunning ? styles.stagePlaying : ""}`}
+          >
+            {goldFlash ? <div className={styles.goldFlash} /> : null}
+            {isRunning ? (
+              <div className={styles.stageHud}>
+                <div
+                  className={`${styles.stageStat} ${
+                    frozen ? styles.stageStatFrozen : ""
+                  }`}
+                >
+                  <span className={styles.stageLabel}>
+                    {frozen ? t("hud.frozen") : t("hud.time")}
+                  </span>
+                  <strong className={styles.stageValue}>
+                    {formatSeconds(timeLeft, locale)}
+                  </strong>
+                </div>
+                <div className={styles.stageStat}>
+                  <span className={styles.stageLabel}>{t("hud.candles")}</span>
+                  <strong className={styles.stageValue}>
+                    {candlesPlaced}/{targetCandles}
+                  </strong>
+                </div>
+                <div className={styles.stageStat}>
+                  <span className={styles.stageLabel}>{t("hud.streak")}</span>
+                  <strong className={styles.stageValue}>
+                    {t("stats.streakValue", { combo })}
+                  </strong>
+                </div>
+                {shields > 0 ? (
+                  <div className={styles.stageStat}>
+                    <span className={styles.stageLabel}>
+                      {t("hud.shield")}
+                    </span>
+                    <strong className={styles.stageValue}>{shields}</strong>
+                  </div>
+                ) : null}
+                {byPoints ? (
+                  <div className={styles.stageStat}>
+                    <span className={styles.stageLabel}>
+                      {t("hud.points")}
+                    </span>
+                    <strong className={styles.stageValue}>
+                      {formatCount(points, locale)}
+                    </strong>
+                  </div>
+                ) : null}
+              </div>
+            ) : null}
+            <div className={styles.cake}>
+              <div className={styles.cakeCandles}>
+                {cakeSpots.slice(0, candlesPlaced).map((spot, index) => (
+                  <span
+                    key={index}
+                    className={styles.cakeCandle}
+                    style={{
+                      left: `${spot.x}%`,
+                      top: `${spot.y}%`,
+                      "--tilt": `${spot.tilt}deg`,
+                    } as CSSProperties}
+                  />
+                ))}
+              </div>
+            </div>
+            <CandleField
+              candles={candles}
+              onPop={handlePop}
+              targetId={usesTargeting ? targetId : null}
+              slots={lastInputMethod === "keyboard" ? slots : undefined}
+              translator={translator}
+            />
+          </div>
+          {!isRunning ? (
+            <div className={styles.rules}>
+              <div className={styles.rule}>
+                <span className={styles.ruleDot} />
+                {t("rules.pop", { target: targetCandles })}
+              </div>
+              <div className={styles.rule}>
+                <span className={`${styles.ruleDot} ${styles.ruleDotGold}`} />
+                {byPoints
+                  ? t("rules.goldenPoints", { points: GOLDEN_POINTS })
+                  : t("rules.golden")}
+              </div>
+              <div className={styles.rule}>
+                <span className={`${styles.ruleDot} ${styles.ruleDotBomb}`} />
+                {byPoints
+                  ? t("rules.bombPoints", { points: BOMB_PENALTY })
+                  : t("rules.bomb")}
+              </div>
+              <div className={styles.rule}>
+                <span className={`${styles.ruleDot} ${styles.ruleDotPower}`} />
+                {t("rules.powerUps")}
+              </div>
+              <div className={styles.rule}>
+                <span className={styles.ruleDot} />
+                {byPoints
+                  ? t("rules.streakPoints", { points: POP_POINTS })
+                  : t("rules.streak")}
+              </div>
+            </div>
+          ) : null}
+        </section>
+
+        {!isRunning ? (
+          <aside className={styles.scoreCard}>
+            <div className={styles.scoreHeader}>
+              <h2>
+                {board === "daily" ? t("scores.dailyTitle") : t("scores.title")}
+                {mode === "classic" ? "" : ` · ${t(`mode.${mode}`)}`}
+              </h2>
+              <span>
+                {t("scores.placed", {
+                  placed: candlesPlaced,
+                  target: targetCandles,
+                })}
+              </span>
+            </div>
+            {powerUps && status === "ended" ? (
+              <div className={styles.roundSummary}>
+                {describePowerUps(translator, powerUps)}
+              </div>
+            ) : null}
+            <div
+              className={styles.modePicker}
+              role="group"
+              aria-label={t("scores.viewLabel")}
+            >
+              <button
+                type="button"
+                className={`${styles.modeOption} ${
+                  scoreView === "all" ? styles.modeOptionActive : ""
+                }`}
+                aria-pressed={scoreView === "all"}
+                onClick={() => setScoreView("all")}
+              >
+                {t("scores.all")}
+              </button>
+              <button
+                type="button"
+                className={`${styles.modeOption} ${
+                  scoreView === "best" ? styles.modeOptionActive : ""
+                }`}
+                aria-pressed={scoreView === "best"}
+                onClick={() => setScoreView("best")}
+              >
+                {t("scores.best")}
+              </button>
+            </div>
+            {isLoadingScores ? (
+              <div className={styles.scoreEmpty}>{t("scores.loading")}</div>
+            ) : topScores.length === 0 ? (
+              <div className={styles.scoreEmpty}>{t("scores.empty")}</div>
+            ) : (
+              <ol className={styles.scoreList}>
+                {topScores.map((entry, index) => (
+                  <li
+                    key={entry.id}
+                    className={`${styles.scoreRow} ${
+                      freshScoreIds.includes(entry.id) ? styles.scoreRowNew : ""
+                    }`}
+                  >
+                    <div className={styles.scoreMeta}>
+                      <span className={styles.scoreRank}>#{index + 1}</span>
+                      <span className={styles.scoreName}>{entry.name}</span>
+                      {entry.accessMode ? (
+                        <span
+                          className={styles.scoreTag}
+                          title={
+                            entry.accessMode === "extended"
+                              ? t("scores.extendedTitle")
+                              : t("scores.accessibleTitle")
+                          }
+                        >
+                          {entry.accessMode === "extended"
+                            ? t("scores.extended")
+                            : t("scores.accessible")}
+                        </span>
+                      ) : null}
+                    </div>
+                    <div className={styles.scoreMeta}>
+                      <span className={styles.scoreValue}>
+                        {byPoints
+                          ? t("scores.points", { points: entry.points ?? 0 })
+                          : plural("scores.candles", entry.candles ?? 0)}
+                      </span>
+                      <span className={styles.scoreTime}>
+                        {formatTimeMs(entry.timeMs ?? 0, locale)}
+                      </span>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            <div className={styles.form}>
+              <div className={styles.nameRow}>
+                <div>
+                  <div className={styles.nameLabel}>
+                    {t("form.submittingAs")}
+                  </div>
+                  <div className={styles.nameValue}>
+                    {hasConfirmedName ? playerName : t("form.noName")}
+                  </div>
+                </div>
+                <button
+                  className={styles.nameButton}
+                  type="button"
+                  onClick={openNameModal}
+                >
+                  {hasConfirmedName ? t("form.changeName") : t("form.setName")}
+                </button>
+              </div>
+              <button
+                className={styles.submitButton}
+                type="button"
+                onClick={() => submitScore("manual")}
+                disabled={!canSubmit || isSubmitting}
+              >
+                {isSubmitting ? t("actions.saving") : t("form.save")}
+              </button>
+              <div className={styles.helper}>
+                {!hasConfirmedName
+                  ? t("form.needName")
+                  : needsEmail
+                    ? t("form.needEmail")
+                    : status === "ended"
+                      ? t("form.ready", { honoree })
+                      : t("form.locked")}
+              </div>
+              {placement ? (
+                <div className={styles.placement}>
+                  <strong>
+                    {describePlacement(
+                      translator,
+                      placement,
+                      { points, candles: candlesPlaced, timeMs: finalTimeMs },
+                      byPoints,
+                    )}
+                  </strong>
+                  {placement.percentile !== null ? (
+                    <span className={styles.placementMeta}>
+                      {t("placement.percentile", {
+                        percentile: placement.percentile,
+                      })}
+                    </span>
+                  ) : null}
+                </div>
+              ) : null}
+              {message ? (
+                <div className={`${styles.message} ${styles.messageSuccess}`}>
+                  {message}
+                </div>
+              ) : null}
+              {unsentScoreId !== null ? (
+                <button
+                  className={styles.nameButton}
+                  type="button"
+                  onClick={resendVerification}
+                  disabled={isResending}
+                >
+                  {isResending
+                    ? t("verification.resending")
+                    : t("verification.resend")}
+                </button>
+              ) : null}
+              {error ? (
+                <div className={`${styles.message} ${styles.messageError}`}>
+                  {error}
+                </div>
+              ) : null}
+            </div>
+          </aside>
+        ) : null}
+      </main>
+
+      {!isRunning ? (
+        <footer className={styles.footer}>
+          {t("footer", { honoree })}
+        </footer>
+      ) : null}
+
+      {isNameModalOpen ? (
+        <div
+          className={styles.modalBackdrop}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="name-modal-title"
+        >
+          <div className={styles.modalCard}>
+            <h3 id="name-modal-title" className={styles.modalTitle}>
+              {t("nameModal.title")}
+            </h3>
+            <p className={styles.modalText}>{t("nameModal.text")}</p>
+            <input
+              className={styles.modalInput}
+              type="text"
+              maxLength={40}
+              value={nameDraft}
+              onChange={(event) => {
+                setNameDraft(event.target.value);
+                setNameModalError("");
+              }}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") {
+                  confirmName();
+                }
+              }}
+              placeholder={t("nameModal.placeholder")}
+              autoFocus
+            />
+            {nameModalError ? (
+              <div className={styles.modalError}>{nameModalError}</div>
+            ) : null}
+            <div className={styles.modalActions}>
+              <button
+                className={styles.modalPrimary}
+                type="button"
+                onClick={confirmName}
+                disabled={isSavingName}
+              >
+                {isSavingName ? t("actions.saving") : t("nameModal.save")}
+              </button>
+              {hasConfirmedName ? (
+                <button
+                  className={styles.modalSecondary}
+                  type="button"
+                  onClick={closeNameModal}
+                >
+                  {t("actions.cancel")}
+                </button>
+              ) : null}
+            </div>
+          </div>
+        </div>
+      ) : null}
+
+      {isEmailModalOpen ? (
+        <div
+          className={styles.modalBackdrop}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="email-modal-title"
+        >
+          <div className={styles.modalCard}>
+            <h3 id="email-modal-title" className={styles.modalTitle}>
+              {t("emailModal.title")}
+            </h3>
+            <p className={styles.modalText}>{t("emailModal.text")}</p>
+            <input
+              className={styles.modalInput}
+              type="email"
+              maxLength={254}
+              value={emailDraft}
+              onChange={(event) => {
+                setEmailDraft(event.target.value);
+                setEmailModalError("");
+              }}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") {
+                  confirmEmail();
+                }
+              }}
+              placeholder="you@example.com"
+              autoFocus
+            />
+            {emailModalError ? (
+              <div className={styles.modalError}>{emailModalError}</div>
+            ) : null}
+            <div className={styles.modalActions}>
+              <button
+                className={styles.modalPrimary}
+                type="button"
+                onClick={confirmEmail}
+              >
+                {t("emailModal.save")}
+              </button>
+              {hasConfirmedEmail ? (
+                <button
+                  className={styles.modalSecondary}
+                  type="button"
+                  onClick={closeEmailModal}
+                >
+                  {t("actions.cancel")}
+                </button>
+              ) : null}
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import type { CSSProperties } from "react";
+import { describeCandle } from "@/lib/accessibility";
+import type { Candle, CandleKind } from "@/lib/game";
+import { ENGLISH, type Translator } from "@/lib/i18n";
+import { pointerInputMethod, type InputMethod } from "@/lib/input";
+import styles from "@/app/page.module.css";
+
+type CandleFieldProps = {
+  candles: Candle[];
+  onPop: (candle: Candle, method: InputMethod) => void;
+  targetId?: string | null;
+  slots?: Record<string, number>;
+  translator?: Translator;
+};
+
+const KIND_CLASSES: Record<CandleKind, string> = {
+  plain: "",
+  golden: styles.golden,
+  bomb: styles.bomb,
+  freeze: styles.freeze,
+  shield: styles.shield,
+  magnet: styles.magnet,
+};
+
+// Shown by the high-contrast palette so kinds never rely on colour alone.
+const KIND_GLYPHS: Record<CandleKind, string> = {
+  plain: "",
+  golden: "★",
+  bomb: "✕",
+  freeze: "❄",
+  shield: "◆",
+  magnet: "U",
+};
+
+const STATE_CLASSES: Record<Candle["state"], string> = {
+  alive: "",
+  blown: styles.candleBlown,
+  shielded: styles.candleShielded,
+  boom: styles.bombBoom,
+};
+
+export default function CandleField({
+  candles,
+  onPop,
+  targetId = null,
+  slots = {},
+  translator = ENGLISH,
+}: CandleFieldProps) {
+  return (
+    <div className={styles.candleField}>
+      {candles.map((candle) => (
+        <button
+          key={candle.id}
+          type="button"
+          className={`${styles.candle} ${KIND_CLASSES[candle.kind]} ${
+            STATE_CLASSES[candle.state]
+          } ${candle.id === targetId ? styles.candleTargeted : ""}`}
+          style={{
+            left: `${candle.x}%`,
+            top: `${candle.y}%`,
+            "--delay": `${candle.delay}s`,
+          } as CSSProperties}
+          aria-label={describeCandle(translator, candle)}
+          // Pointer events fire once per finger, so simultaneous taps each
+          // land; click only covers keyboard and assistive-tech activation.
+          onPointerDown={(event) => {
+            if (event.button !== 0) return;
+            event.preventDefault();
+            onPop(candle, pointerInputMethod(event.pointerType));
+          }}
+          onClick={(event) => {
+            if (event.detail === 0) onPop(candle, "keyboard");
+          }}
+        >
+          {slots[candle.id] && candle.state === "alive" ? (
+            <span className={styles.slotBadge} aria-hidden="true">
+              {slots[candle.id]}
+            </span>
+          ) : null}
+          {KIND_GLYPHS[candle.kind] ? (
+            <span className={styles.candleGlyph} aria-hidden="true">
+              {KIND_GLYPHS[candle.kind]}
+            </span>
+          ) : null}
+          {candle.kind === "golden" && candle.state === "alive" ? (
+            <span className={styles.sparkle} />
+          ) : null}
+          {candle.state === "blown" ? (
+            <span className={styles.tapPop} />
+          ) : null}
+          {candle.state === "blown" ? (
+            <span className={styles.blow} />
+          ) : null}
+          {candle.state === "shielded" ? (
+            <span className={styles.shieldBurst} />
+          ) : null}
+          {candle.state === "boom" ? (
+            <span className={styles.boom} />
+          ) : null}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import styles from "@/app/page.module.css";
+import type { Translator } from "@/lib/i18n";
+import {
+  CONTROL_ACTIONS,
+  DEFAULT_BINDINGS,
+  describeButton,
+  describeKey,
+  firstPressedButton,
+  rebindButton,
+  rebindKey,
+  type ControlAction,
+  type ControlBindings,
+  type InputMethod,
+} from "@/lib/input";
+
+type ControlsPanelProps = {
+  bindings: ControlBindings;
+  lastMethod: InputMethod | null;
+  onChange: (bindings: ControlBindings) => void;
+  translator: Translator;
+};
+
+// A key slot is a ControlAction or the index of a number-key slot.
+type Listening =
+  | { device: "key"; target: ControlAction | number }
+  | { device: "button"; action: ControlAction };
+
+export default function ControlsPanel({
+  bindings,
+  lastMethod,
+  onChange,
+  translator,
+}: ControlsPanelProps) {
+  const { t } = translator;
+  const [listening, setListening] = useState<Listening | null>(null);
+
+  useEffect(() => {
+    if (listening?.device !== "key") return;
+    const captureKey = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.key !== "Escape") {
+        onChange(rebindKey(bindings, listening.target, event.key));
+      }
+      setListening(null);
+    };
+    window.addEventListener("keydown", captureKey, { capture: true });
+    return () =>
+      window.removeEventListener("keydown", captureKey, { capture: true });
+  }, [bindings, listening, onChange]);
+
+  useEffect(() => {
+    if (listening?.device !== "button") return;
+    let frame = 0;
+    // Wait for every button to be let go so the click that opened this
+    // prompt on a gamepad is not taken as the new binding.
+    let released = false;
+    const poll = () => {
+      const gamepad =
+        typeof navigator.getGamepads === "function"
+          ? navigator.getGamepads().find((pad) => pad?.connected)
+          : null;
+      const button = gamepad ? firstPressedButton(gamepad) : -1;
+      if (button < 0) {
+        released = true;
+      } else if (released) {
+        onChange(rebindButton(bindings, listening.action, button));
+        setListening(null);
+        return;
+      }
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [bindings, listening, onChange]);
+
+  const isListening = (device: "key" | "button", target: ControlAction | number) =>
+    listening?.device === device &&
+    (listening.device === "key"
+      ? listening.target === target
+      : listening.action === target);
+
+  return (
+    <details className={styles.controlsPanel}>
+      <summary className={styles.controlsSummary}>
+        {t("controls.title")}
+        {lastMethod
+          ? t("controls.playingWith", { method: t(`input.${lastMethod}`) })
+          : ""}
+      </summary>
+      <p className={styles.controlsHint}>{t("controls.hint")}</p>
+      <table className={styles.controlsTable}>
+        <thead>
+          <tr>
+            <th scope="col">{t("controls.action")}</th>
+            <th scope="col">{t("controls.key")}</th>
+            <th scope="col">{t("controls.gamepad")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {CONTROL_ACTIONS.map((action) => (
+            <tr key={action}>
+              <th scope="row">{t(`controls.${action}`)}</th>
+              <td>
+                <button
+                  type="button"
+                  className={styles.controlsKey}
+                  aria-label={t("controls.changeKey", {
+                    action: t(`controls.${action}`),
+                    key: describeKey(translator, bindings.keys[action]),
+                  })}
+                  onClick={() => setListening({ device: "key", target: action })}
+                >
+                  {isListening("key", action)
+                    ? t("controls.pressKey")
+                    : describeKey(translator, bindings.keys[action])}
+                </button>
+              </td>
+              <td>
+                <button
+                  type="button"
+                  className={styles.controlsKey}
+                  aria-label={t("controls.changeButton", {
+                    action: t(`controls.${action}`),
+                    button: describeButton(
+                      translator,
+                      bindings.buttons[action],
+                    ),
+                  })}
+                  onClick={() => setListening({ device: "button", action })}
+                >
+                  {isListening("button", action)
+                    ? t("controls.pressButton")
+                    : describeButton(translator, bindings.buttons[action])}
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div
+        className={styles.controlsSlots}
+        role="group"
+        aria-label={t("controls.slots")}
+      >
+        {bindings.slotKeys.map((key, index) => (
+          <button
+            key={index}
+            type="button"
+            className={styles.controlsKey}
+            aria-label={t("controls.changeSlot", {
+              slot: index + 1,
+              key: describeKey(translator, key),
+            })}
+            onClick={() => setListening({ device: "key", target: index })}
+          >
+            {index + 1}:{" "}
+            {isListening("key", index) ? "..." : describeKey(translator, key)}
+          </button>
+        ))}
+      </div>
+      <button
+        type="button"
+        className={styles.modeOption}
+        onClick={() => {
+          setListening(null);
+          onChange(DEFAULT_BINDINGS);
+        }}
+      >
+        {t("controls.reset")}
+      </button>
+    </details>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { Candle } from "@/lib/game";
+import {
+  CONTROL_ACTIONS,
+  assignSlots,
+  candleInSlot,
+  commandForKey,
+  gamepadActions,
+  moveTarget,
+  pickTarget,
+  type ControlAction,
+  type ControlBindings,
+  type InputCommand,
+  type InputMethod,
+} from "@/lib/input";
+
+const MOVE_REPEAT_MS = 220;
+
+type GameInputOptions = {
+  candles: Candle[];
+  isRunning: boolean;
+  bindings: ControlBindings;
+  onPop: (candle: Candle, method: InputMethod) => void;
+  onTarget?: (candle: Candle, method: InputMethod) => void;
+};
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+// Maps the keyboard and the first connected gamepad onto the same pop action
+// the candle buttons use. Pointer input stays on the buttons themselves.
+export function useGameInput({
+  candles,
+  isRunning,
+  bindings,
+  onPop,
+  onTarget,
+}: GameInputOptions) {
+  // Slots depend on the previous assignment, so they are carried forward
+  // during render whenever the candle list changes.
+  const [slotState, setSlotState] = useState(() => ({
+    candles,
+    slots: assignSlots(candles, {}),
+  }));
+  const slots =
+    slotState.candles === candles
+      ? slotState.slots
+      : assignSlots(candles, slotState.slots);
+  if (slotState.candles !== candles) {
+    setSlotState({ candles, slots });
+  }
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const latestRef = useRef({
+    candles,
+    slots,
+    targetId,
+    bindings,
+    onPop,
+    onTarget,
+  });
+
+  useEffect(() => {
+    latestRef.current = { candles, slots, targetId, bindings, onPop, onTarget };
+  });
+
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const run = (command: InputCommand, method: InputMethod) => {
+      const latest = latestRef.current;
+      if (command.type === "move") {
+        const nextId = moveTarget(
+          latest.candles,
+          pickTarget(latest.candles, latest.targetId),
+          command.direction,
+        );
+        latest.targetId = nextId;
+        setTargetId(nextId);
+        const candle = latest.candles.find((entry) => entry.id === nextId);
+        if (candle) latest.onTarget?.(candle, method);
+        return;
+      }
+      const candleId =
+        command.type === "slot"
+          ? candleInSlot(latest.slots, command.slot)
+          : pickTarget(latest.candles, latest.targetId);
+      const candle = latest.candles.find((entry) => entry.id === candleId);
+      if (candle) latest.onPop(candle, method);
+    };
+
+    const handleKey = (event: KeyboardEvent) => {
+      if (
+        event.altKey ||
+        event.ctrlKey ||
+        event.metaKey ||
+        isTypingTarget(event.target)
+      ) {
+        return;
+      }
+      const command = commandForKey(latestRef.current.bindings, event.key);
+      if (!command) return;
+      // A focused candle button pops itself through its own click.
+      if (
+        command.type === "pop" &&
+        event.target instanceof HTMLElement &&
+        event.target.closest("button")
+      ) {
+        return;
+      }
+      event.preventDefault();
+      if (event.repeat && command.type !== "move") return;
+      run(command, "keyboard");
+    };
+
+    let frame = 0;
+    let held = new Set<ControlAction>();
+    const lastMoveAt: Partial<Record<ControlAction, number>> = {};
+    const pollGamepad = (now: number) => {
+      const gamepad =
+        typeof navigator.getGamepads === "function"
+          ? navigator.getGamepads().find((pad) => pad?.connected)
+          : null;
+      const pressed = gamepad
+        ? gamepadActions(gamepad, latestRef.current.bindings)
+        : new Set<ControlAction>();
+      for (const action of CONTROL_ACTIONS) {
+        if (!pressed.has(action)) continue;
+        if (action === "pop") {
+          if (!held.has(action)) run({ type: "pop" }, "gamepad");
+          continue;
+        }
+        const last = lastMoveAt[action];
+        if (
+          !held.has(action) ||
+          (last !== undefined && now - last >= MOVE_REPEAT_MS)
+        ) {
+          lastMoveAt[action] = now;
+          run({ type: "move", direction: action }, "gamepad");
+        }
+      }
+      held = pressed;
+      frame = requestAnimationFrame(pollGamepad);
+    };
+
+    window.addEventListener("keydown", handleKey);
+    frame = requestAnimationFrame(pollGamepad);
+    return () => {
+      window.removeEventListener("keydown", handleKey);
+      cancelAnimationFrame(frame);
+    };
+  }, [isRunning]);
+
+  return { slots, targetId: pickTarget(candles, targetId) };
+}
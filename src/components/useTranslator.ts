@@ -0,0 +1,33 @@
+"use client";
+
+import { useEffect, useMemo, useSyncExternalStore } from "react";
+import {
+  DEFAULT_LOCALE,
+  LOCALE_STORAGE_KEY,
+  createTranslator,
+  loadLocale,
+} from "@/lib/i18n";
+
+const subscribe = (onChange: () => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === LOCALE_STORAGE_KEY) onChange();
+  };
+  window.addEventListener("storage", onStorage);
+  return () => window.removeEventListener("storage", onStorage);
+};
+
+// Pages without a language picker follow the one on the game screen, or the
+// browser's language until a choice is made there.
+export function useTranslator() {
+  const locale = useSyncExternalStore(
+    subscribe,
+    loadLocale,
+    () => DEFAULT_LOCALE,
+  );
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  return useMemo(() => createTranslator(locale), [locale]);
+}
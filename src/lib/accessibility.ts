@@ -0,0 +1,168 @@
+import {
+  POWER_UPS,
+  timeLeftSeconds,
+  type Candle,
+  type GameConfig,
+  type GameState,
+} from "@/lib/game";
+import type { Translator } from "@/lib/i18n";
+
+// "extended" rounds also stretch how long each candle stays up, so the
+// server has to replay them with the same lifetime.
+export type AccessMode = "accessible" | "extended";
+
+export type AccessibilitySettings = {
+  enabled: boolean;
+  highContrast: boolean;
+  extendedCandles: boolean;
+};
+
+export const ACCESS_MODES: AccessMode[] = ["accessible", "extended"];
+
+export const ACCESSIBILITY_STORAGE_KEY = "alexbd-accessibility";
+
+export const EXTENDED_LIFE_FACTOR = 2;
+
+export const DEFAULT_ACCESSIBILITY: AccessibilitySettings = {
+  enabled: false,
+  highContrast: false,
+  extendedCandles: false,
+};
+
+const STREAK_MILESTONES = [3, 5, 8];
+const TIME_MILESTONES = [10, 5, 3, 2, 1];
+
+export const readAccessMode = (value: unknown): AccessMode | null =>
+  ACCESS_MODES.find((mode) => mode === value) ?? null;
+
+export const accessModeFor = (settings: AccessibilitySettings) =>
+  settings.enabled
+    ? settings.extendedCandles
+      ? ("extended" as const)
+      : ("accessible" as const)
+    : null;
+
+export const accessConfig = (
+  config: GameConfig,
+  accessMode: AccessMode | null,
+): GameConfig =>
+  accessMode === "extended"
+    ? { ...config, candleLifeMs: config.candleLifeMs * EXTENDED_LIFE_FACTOR }
+    : config;
+
+export const loadAccessibilitySettings = (): AccessibilitySettings => {
+  try {
+    const saved = JSON.parse(
+      window.localStorage.getItem(ACCESSIBILITY_STORAGE_KEY) ?? "null",
+    ) as Partial<AccessibilitySettings> | null;
+    return {
+      enabled: saved?.enabled === true,
+      highContrast: saved?.highContrast === true,
+      extendedCandles: saved?.extendedCandles === true,
+    };
+  } catch {
+    return DEFAULT_ACCESSIBILITY;
+  }
+};
+
+export const saveAccessibilitySettings = (settings: AccessibilitySettings) => {
+  window.localStorage.setItem(
+    ACCESSIBILITY_STORAGE_KEY,
+    JSON.stringify(settings),
+  );
+};
+
+// Candle coordinates are percentages of the play field.
+export const describePosition = ({ t }: Translator, x: number, y: number) => {
+  const row = y < 25 ? "top" : y < 45 ? "middle" : "bottom";
+  const column = x < 38 ? "left" : x > 62 ? "right" : "center";
+  return t(`position.${row}.${column}`);
+};
+
+export const describeCandle = (translator: Translator, candle: Candle) =>
+  translator.t("candle.label", {
+    candle: translator.t(`candle.${candle.kind}`),
+    position: describePosition(translator, candle.x, candle.y),
+  });
+
+// What changed between two snapshots of a round, phrased for a live region.
+export const describeRoundChange = (
+  translator: Translator,
+  previous: GameState | null,
+  next: GameState,
+) => {
+  const { t, plural } = translator;
+  const parts: string[] = [];
+  const known = new Set(previous?.candles.map((candle) => candle.id));
+  const target = next.config.targetCandles;
+
+  if (next.status === "ended") {
+    if (previous?.status === "ended") return "";
+    parts.push(t(`announce.${next.endReason ?? "time"}`));
+    parts.push(plural("announce.total", next.candlesPlaced));
+    return parts.join(" ");
+  }
+
+  if (!previous) {
+    parts.push(t("announce.started", { target }));
+  }
+
+  const placed = next.candlesPlaced - (previous?.candlesPlaced ?? 0);
+  if (placed > 0) {
+    parts.push(
+      plural("announce.placed", placed, {
+        placed: next.candlesPlaced,
+        target,
+      }),
+    );
+  }
+  for (const powerUp of POWER_UPS) {
+    if (next.powerUps[powerUp] <= (previous?.powerUps[powerUp] ?? 0)) {
+      continue;
+    }
+    parts.push(t(`announce.${powerUp}`));
+  }
+  if (previous && next.shields < previous.shields) {
+    parts.push(t("announce.shieldBlocked"));
+  }
+
+  const previousCombo = previous?.combo ?? 0;
+  if (
+    STREAK_MILESTONES.some(
+      (streak) => previousCombo < streak && next.combo >= streak,
+    )
+  ) {
+    parts.push(t("announce.streak", { combo: next.combo }));
+  } else if (previousCombo >= STREAK_MILESTONES[0] && next.combo === 0) {
+    parts.push(t("announce.streakLost"));
+  }
+
+  const spawned = next.candles.filter(
+    (candle) => candle.state === "alive" && !known.has(candle.id),
+  );
+  if (spawned.length > 0) {
+    parts.push(
+      t("announce.spawned", {
+        list: spawned
+          .map((candle) =>
+            t("announce.spawnedCandle", {
+              candle: t(`spawn.${candle.kind}`),
+              position: describePosition(translator, candle.x, candle.y),
+            }),
+          )
+          .join(", "),
+      }),
+    );
+  }
+
+  const secondsLeft = timeLeftSeconds(next);
+  if (
+    previous &&
+    secondsLeft !== timeLeftSeconds(previous) &&
+    TIME_MILESTONES.includes(secondsLeft)
+  ) {
+    parts.push(plural("announce.secondsLeft", secondsLeft));
+  }
+
+  return parts.join(" ");
+};
@@ -0,0 +1,46 @@
+import crypto from "crypto";
+
+type AdminCredential = {
+  actor: string;
+  token: string;
+};
+
+// ADMIN_TOKENS is a comma-separated list of actor:token pairs, so every
+// moderation action can be traced back to whoever held the token.
+const readCredentials = (): AdminCredential[] =>
+  (process.env.ADMIN_TOKENS ?? "")
+    .split(",")
+    .map((pair) => pair.trim())
+    .filter(Boolean)
+    .map((pair) => {
+      const separator = pair.indexOf(":");
+      return {
+        actor: pair.slice(0, separator).trim(),
+        token: pair.slice(separator + 1).trim(),
+      };
+    })
+    .filter((credential) => credential.actor && credential.token);
+
+const tokensMatch = (expected: string, received: string) => {
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received);
+  return (
+    expectedBuffer.length === receivedBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, receivedBuffer)
+  );
+};
+
+export const readBearerToken = (request: Request) => {
+  const header = request.headers.get("authorization") ?? "";
+  const [scheme, token] = header.split(" ");
+  return scheme === "Bearer" && token ? token : null;
+};
+
+export const findAdminActor = (request: Request) => {
+  const token = readBearerToken(request);
+  if (!token) return null;
+  const credential = readCredentials().find((item) =>
+    tokensMatch(item.token, token),
+  );
+  return credential?.actor ?? null;
+};
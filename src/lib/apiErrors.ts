@@ -0,0 +1,72 @@
+// Sent as `code` beside the English `error` message so clients can show
+// their own wording. Codes are part of the API: add new ones, never rename.
+export const API_ERROR_CODES = [
+  "INVALID_JSON",
+  "SERVER_ERROR",
+  "SCHEMA_OUT_OF_DATE",
+  "RATE_LIMITED",
+  "NAME_REQUIRED",
+  "NAME_BLOCKED",
+  "MESSAGE_BLOCKED",
+  "SLUG_RESERVED",
+  "SLUG_TAKEN",
+  "CLIENT_ID_INVALID",
+  "CANDLES_INVALID",
+  "TIME_INVALID",
+  "POINTS_INVALID",
+  "POINTS_REQUIRED",
+  "EMAIL_INVALID",
+  "EMAIL_REQUIRED_TOP10",
+  "END_REASON_INVALID",
+  "INPUTS_INVALID",
+  "POWER_UPS_INVALID",
+  "INPUT_METHOD_INVALID",
+  "ACCESS_MODE_INVALID",
+  "BOARD_INVALID",
+  "MODE_INVALID",
+  "MODE_MISMATCH",
+  "DATE_INVALID",
+  "QUERY_INVALID",
+  "EVENT_INVALID",
+  "EVENT_NOT_FOUND",
+  "EVENT_NOT_STARTED",
+  "EVENT_OVER",
+  "LEADERBOARD_CLOSED",
+  "SESSION_REQUIRED",
+  "SESSION_EXPIRED",
+  "ROUND_UNVERIFIED",
+  "SCORE_INVALID",
+  "VERIFICATION_NOT_FOUND",
+  "ROOM_NOT_FOUND",
+  "ROOM_JOIN_REQUIRED",
+  "ROOM_HOST_ONLY",
+  "ROOM_FULL",
+  "ROOM_STARTED",
+  "ROOM_NOT_RUNNING",
+  "ROOM_FINISHED",
+  "ROOM_CODE_UNAVAILABLE",
+  "UNAUTHORIZED",
+  "SCORE_NOT_FOUND",
+  "STATUS_INVALID",
+  "HIDDEN_INVALID",
+  "NOTHING_TO_CHANGE",
+  "AGE_INVALID",
+  "SLUG_INVALID",
+  "THEME_INVALID",
+  "DATE_ORDER_INVALID",
+  "MESSAGE_INVALID",
+  "MESSAGE_TOO_LONG",
+  "CLOSED_INVALID",
+  "ORGANIZER_LINK_INVALID",
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+export type ApiErrorBody = {
+  error?: string;
+  code?: string;
+  field?: string;
+};
+
+export const isApiErrorCode = (value: unknown): value is ApiErrorCode =>
+  API_ERROR_CODES.some((code) => code === value);
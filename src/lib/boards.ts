@@ -0,0 +1,30 @@
+export type Board = "classic" | "daily";
+
+export const BOARDS: Board[] = ["classic", "daily"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_KEY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+export const readBoard = (value: unknown): Board | null =>
+  BOARDS.find((board) => board === value) ?? null;
+
+export const toDateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+export const isDateKey = (value: unknown): value is string =>
+  typeof value === "string" &&
+  DATE_KEY_REGEX.test(value) &&
+  !Number.isNaN(Date.parse(`${value}T00:00:00Z`)) &&
+  toDateKey(new Date(`${value}T00:00:00Z`)) === value;
+
+// Daily challenges roll over at UTC midnight so every player shares a date.
+export const msUntilNextDaily = (now = Date.now()) =>
+  DAY_MS - (now % DAY_MS);
+
+export const dailySeed = (dateKey: string) => {
+  let hash = 0x811c9dc5;
+  for (const char of `daily-cake:${dateKey}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) & 0x7fffffff;
+};
@@ -0,0 +1,30 @@
+export type CakeSpot = {
+  x: number;
+  y: number;
+  tilt: number;
+};
+
+const CAKE_LEFT = 8;
+const CAKE_WIDTH = 81;
+const CAKE_TOP = 24;
+const CAKE_HEIGHT = 40;
+const ROW_STEP = 20;
+
+// Lays the candles out in rows across the top of the cake. Bigger cakes get
+// more columns and tighter rows so every candle still fits; 29 candles keep
+// the original 10-wide, three-row layout.
+export const cakeCandleSpots = (count: number): CakeSpot[] => {
+  const columns = Math.max(1, Math.min(count, Math.ceil(Math.sqrt(count * 3))));
+  const rows = Math.ceil(count / columns);
+  const columnStep = columns > 1 ? CAKE_WIDTH / (columns - 1) : 0;
+  const rowStep = rows > 1 ? Math.min(ROW_STEP, CAKE_HEIGHT / (rows - 1)) : 0;
+  return Array.from({ length: count }, (_, index) => {
+    const row = Math.floor(index / columns);
+    const col = index % columns;
+    return {
+      x: columns > 1 ? CAKE_LEFT + col * columnStep : 50,
+      y: CAKE_TOP + row * rowStep,
+      tilt: (col % 2 === 0 ? -7 : 6) + row * 2,
+    };
+  });
+};
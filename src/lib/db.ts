@@ -1,24 +1,27 @@
+import fs from "fs";
+import path from "path";
 import pg from "pg";
 import { Sequelize } from "sequelize";
+import {
+  SchemaOutOfDateError,
+  migrateUp,
+  pendingMigrations,
+} from "@/lib/migrations";
 
 const databaseUrl = process.env.DATABASE_URL;
 
-if (!databaseUrl) {
-  throw new Error("DATABASE_URL is not set");
-}
+// Without DATABASE_URL the app runs on an embedded SQLite file (or
+// SQLITE_STORAGE=:memory:) so it works locally without Postgres.
+const sqliteStorage = process.env.SQLITE_STORAGE ?? ".data/alexbd.sqlite";
 
-const sslEnabled =
-  process.env.DATABASE_SSL === "true" ||
-  process.env.NODE_ENV === "production" ||
-  databaseUrl.includes("sslmode=require");
+export const isEmbeddedDb = !databaseUrl;
 
-const globalForSequelize = globalThis as unknown as {
-  sequelize?: Sequelize;
-};
-
-export const sequelize =
-  globalForSequelize.sequelize ??
-  new Sequelize(databaseUrl, {
+const createPostgres = (url: string) => {
+  const sslEnabled =
+    process.env.DATABASE_SSL === "true" ||
+    process.env.NODE_ENV === "production" ||
+    url.includes("sslmode=require");
+  const instance = new Sequelize(url, {
     dialect: "postgres",
     logging: false,
     dialectModule: pg,
@@ -31,15 +34,72 @@ export const sequelize =
         }
       : {},
   });
+  const { host, pathname } = new URL(url);
+  console.info(`Database: postgres (${host}${pathname})`);
+  return instance;
+};
+
+const createSqlite = (storage: string) => {
+  if (storage !== ":memory:") {
+    fs.mkdirSync(path.dirname(path.resolve(storage)), { recursive: true });
+  }
+  const instance = new Sequelize({
+    dialect: "sqlite",
+    storage,
+    logging: false,
+  });
+  console.info(`Database: sqlite (${storage})`);
+  return instance;
+};
+
+const globalForSequelize = globalThis as unknown as {
+  sequelize?: Sequelize;
+};
+
+export const sequelize =
+  globalForSequelize.sequelize ??
+  (databaseUrl ? createPostgres(databaseUrl) : createSqlite(sqliteStorage));
 
 if (process.env.NODE_ENV !== "production") {
   globalForSequelize.sequelize = sequelize;
 }
 
-let hasSynced = false;
+const checkSchema = async () => {
+  if (isEmbeddedDb) {
+    const applied = await migrateUp(sequelize);
+    if (applied.length > 0) {
+      console.info(`Applied migrations: ${applied.join(", ")}`);
+    }
+    return;
+  }
+  const pending = await pendingMigrations(sequelize);
+  if (pending.length > 0) {
+    const error = new SchemaOutOfDateError(
+      pending.map((migration) => migration.name),
+    );
+    console.error(error.message);
+    throw error;
+  }
+};
+
+let schemaReady: Promise<void> | undefined;
 
-export async function ensureDb() {
-  if (hasSynced) return;
-  await sequelize.sync({ alter: true });
-  hasSynced = true;
+export function ensureDb() {
+  schemaReady ??= checkSchema().catch((error: unknown) => {
+    schemaReady = undefined;
+    throw error;
+  });
+  return schemaReady;
 }
+
+// A :memory: database lives on one shared connection, so two transactions
+// open at once trip over each other. Embedded writers take turns instead, and
+// that includes findOrCreate, which opens a transaction of its own.
+let embeddedWrites: Promise<unknown> = Promise.resolve();
+
+export const runExclusive = <T>(work: () => Promise<T>): Promise<T> => {
+  if (!isEmbeddedDb) return work();
+  const result = embeddedWrites.then(work);
+  embeddedWrites = result.catch(() => undefined);
+  return result;
+};
@@ -0,0 +1,121 @@
+import type { Metadata } from "next";
+import { toDateKey } from "@/lib/boards";
+import { DEFAULT_CONFIG, type GameConfig } from "@/lib/game";
+import { modeConfig, type GameMode } from "@/lib/modes";
+import type { Event } from "@/models/Event";
+
+export type EventTheme = "party" | "pastel" | "ocean";
+
+export type EventStatus = "upcoming" | "open" | "ended" | "closed";
+
+export const EVENT_THEMES: EventTheme[] = ["party", "pastel", "ocean"];
+
+export const EVENT_MIN_AGE = 1;
+export const EVENT_MAX_AGE = 120;
+export const MAX_MESSAGE_LENGTH = 280;
+
+const SLUG_REGEX = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const MIN_SLUG_LENGTH = 3;
+export const MAX_SLUG_LENGTH = 40;
+
+// Slugs that would read like one of the app's own pages.
+const RESERVED_SLUGS = [
+  "admin",
+  "api",
+  "edit",
+  "event",
+  "events",
+  "help",
+  "manage",
+  "new",
+  "organizer",
+  "party",
+  "settings",
+  "static",
+];
+
+export type EventDetails = {
+  slug: string | null;
+  honoree: string;
+  age: number;
+  theme: EventTheme;
+  startDate: string | null;
+  endDate: string | null;
+  message: string | null;
+  closed: boolean;
+};
+
+// The original cake: scores without an event belong to Alexander's boards.
+export const DEFAULT_EVENT: EventDetails = {
+  slug: null,
+  honoree: "Alexander",
+  age: DEFAULT_CONFIG.targetCandles,
+  theme: "party",
+  startDate: null,
+  endDate: null,
+  message: null,
+  closed: false,
+};
+
+export const readEventSlug = (value: unknown): string | null =>
+  typeof value === "string" &&
+  value.length >= MIN_SLUG_LENGTH &&
+  value.length <= MAX_SLUG_LENGTH &&
+  SLUG_REGEX.test(value)
+    ? value
+    : null;
+
+export const isReservedSlug = (slug: string) => RESERVED_SLUGS.includes(slug);
+
+// "Zoë Smith" turning 40 becomes "zoe-smith-40". Names with no Latin
+// letters fall back to "birthday-40".
+export const suggestEventSlug = (honoree: string, age: number) => {
+  const name = honoree
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  const suffix = `-${age}`;
+  const slug = `${name
+    .slice(0, MAX_SLUG_LENGTH - suffix.length)
+    .replace(/-+$/, "")}${suffix}`;
+  return /[a-z]/.test(name) && readEventSlug(slug) ? slug : `birthday-${age}`;
+};
+
+export const readEventTheme = (value: unknown): EventTheme | null =>
+  EVENT_THEMES.find((theme) => theme === value) ?? null;
+
+export const serializeEvent = (event: Event): EventDetails => ({
+  slug: event.slug,
+  honoree: event.honoree,
+  age: event.age,
+  theme: event.theme,
+  startDate: event.startDate,
+  endDate: event.endDate,
+  message: event.message,
+  closed: Boolean(event.closedAt),
+});
+
+// Dates are whole UTC days, inclusive at both ends, like the Daily Cake.
+export const eventStatus = (
+  event: Pick<EventDetails, "startDate" | "endDate" | "closed">,
+  now = new Date(),
+): EventStatus => {
+  if (event.closed) return "closed";
+  const today = toDateKey(now);
+  if (event.startDate && today < event.startDate) return "upcoming";
+  if (event.endDate && today > event.endDate) return "ended";
+  return "open";
+};
+
+// Each candle is a year, so the honoree's age is the round's target.
+export const eventConfig = (mode: GameMode, age: number): GameConfig => ({
+  ...modeConfig(mode),
+  targetCandles: age,
+});
+
+export const eventMetadata = (event: EventDetails): Metadata => ({
+  title: `${event.honoree}'s Birthday Candle Dash`,
+  description: `A playful birthday game for ${event.honoree} with a high score board.`,
+});
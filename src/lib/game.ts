@@ -0,0 +1,379 @@
+export type PowerUp = "freeze" | "shield" | "magnet";
+
+export type CandleKind = "plain" | "golden" | "bomb" | PowerUp;
+
+// Spawn rolls walk this list in order, so keep it stable: reordering it
+// changes which candles every seed produces.
+export const CANDLE_KINDS: CandleKind[] = [
+  "plain",
+  "golden",
+  "bomb",
+  "freeze",
+  "shield",
+  "magnet",
+];
+
+export const POWER_UPS: PowerUp[] = ["freeze", "shield", "magnet"];
+
+export const isPowerUp = (kind: CandleKind): kind is PowerUp =>
+  POWER_UPS.some((powerUp) => powerUp === kind);
+
+export type GameConfig = {
+  gameMs: number;
+  maxCandles: number;
+  spawnMs: number;
+  candleLifeMs: number;
+  initialCandles: number;
+  // Relative odds for each spawned candle's kind.
+  spawnWeights: Record<CandleKind, number>;
+  targetCandles: number;
+  comboWindowMs: number;
+  maxCombo: number;
+  popClearMs: number;
+  boomClearMs: number;
+  popPoints: number;
+  goldenPoints: number;
+  bombPenalty: number;
+  freezeMs: number;
+  maxFreezeMs: number;
+  magnetRadius: number;
+};
+
+export const DEFAULT_CONFIG: GameConfig = {
+  gameMs: 15000,
+  maxCandles: 12,
+  spawnMs: 420,
+  candleLifeMs: 2600,
+  initialCandles: 5,
+  spawnWeights: {
+    plain: 61,
+    golden: 18,
+    bomb: 12,
+    freeze: 3,
+    shield: 3,
+    magnet: 3,
+  },
+  targetCandles: 29,
+  comboWindowMs: 1800,
+  maxCombo: 8,
+  popClearMs: 320,
+  boomClearMs: 420,
+  popPoints: 10,
+  goldenPoints: 25,
+  bombPenalty: 100,
+  freezeMs: 3000,
+  maxFreezeMs: 6000,
+  magnetRadius: 22,
+};
+
+export type EndReason = "time" | "bomb" | "candles";
+
+export type Candle = {
+  id: string;
+  x: number;
+  y: number;
+  kind: CandleKind;
+  bornAt: number;
+  delay: number;
+  // "shielded" is a bomb a shield absorbed; it clears like a blown candle.
+  state: "alive" | "blown" | "shielded" | "boom";
+  poppedAt: number | null;
+};
+
+export type PopInput = {
+  candleId: string;
+  atMs: number;
+};
+
+export type GameState = {
+  config: GameConfig;
+  seed: number;
+  rng: number;
+  nowMs: number;
+  nextSpawnAt: number;
+  spawned: number;
+  candles: Candle[];
+  candlesPlaced: number;
+  points: number;
+  combo: number;
+  shields: number;
+  // Freezes stop the round clock: each one pushes the deadline back and
+  // extends the frozen window that ends at frozenUntil.
+  frozenMs: number;
+  frozenUntil: number;
+  powerUps: Record<PowerUp, number>;
+  lastPopAt: number | null;
+  status: "running" | "ended";
+  endReason: EndReason | null;
+  endedAt: number | null;
+};
+
+// mulberry32: the whole generator state is one uint32, so it can live inside
+// GameState and be copied along with everything else.
+const nextRandom = (state: GameState) => {
+  state.rng = (state.rng + 0x6d2b79f5) >>> 0;
+  let t = state.rng;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const randomBetween = (state: GameState, min: number, max: number) =>
+  nextRandom(state) * (max - min) + min;
+
+const pickKind = (weights: Record<CandleKind, number>, roll: number) => {
+  const total = CANDLE_KINDS.reduce((sum, kind) => sum + weights[kind], 0);
+  let threshold = roll * total;
+  for (const kind of CANDLE_KINDS) {
+    threshold -= weights[kind];
+    if (threshold < 0) return kind;
+  }
+  return "plain";
+};
+
+const makeCandle = (state: GameState, bornAt: number): Candle => {
+  const kind = pickKind(state.config.spawnWeights, nextRandom(state));
+  const candle: Candle = {
+    id: `c${state.spawned}`,
+    x: randomBetween(state, 12, 88),
+    y: randomBetween(state, 8, 62),
+    kind,
+    bornAt,
+    delay: randomBetween(state, 0, 1.2),
+    state: "alive",
+    poppedAt: null,
+  };
+  state.spawned += 1;
+  return candle;
+};
+
+const cloneState = (state: GameState): GameState => ({
+  ...state,
+  candles: state.candles.slice(),
+  powerUps: { ...state.powerUps },
+});
+
+const deadlineMs = (state: GameState) =>
+  state.config.gameMs + state.frozenMs;
+
+// Round-clock time at atMs: real time minus the frozen stretches before it.
+const clockMs = (state: GameState, atMs: number) =>
+  atMs - state.frozenMs + Math.max(0, state.frozenUntil - atMs);
+
+const isExpired = (state: GameState, candle: Candle, atMs: number) =>
+  atMs - candle.bornAt >= state.config.candleLifeMs;
+
+const clearPopped = (state: GameState, atMs: number) => {
+  state.candles = state.candles.filter(
+    (candle) =>
+      (candle.state !== "blown" && candle.state !== "shielded") ||
+      candle.poppedAt === null ||
+      atMs - candle.poppedAt < state.config.popClearMs,
+  );
+};
+
+const finish = (state: GameState, reason: EndReason, atMs: number) => {
+  state.status = "ended";
+  state.endReason = reason;
+  state.endedAt = atMs;
+  state.nowMs = atMs;
+  if (reason !== "bomb") {
+    state.candles = [];
+  }
+};
+
+const advance = (state: GameState, nowMs: number) => {
+  if (state.status === "ended") {
+    if (
+      state.endedAt !== null &&
+      nowMs - state.endedAt >= state.config.boomClearMs
+    ) {
+      state.candles = [];
+    }
+    return;
+  }
+
+  const target = Math.max(state.nowMs, nowMs);
+  const endAt = deadlineMs(state);
+
+  while (state.nextSpawnAt <= target && state.nextSpawnAt < endAt) {
+    const spawnAt = state.nextSpawnAt;
+    clearPopped(state, spawnAt);
+    state.candles = state.candles.filter(
+      (candle) => !isExpired(state, candle, spawnAt),
+    );
+    if (state.candles.length < state.config.maxCandles) {
+      state.candles.push(makeCandle(state, spawnAt));
+    }
+    state.nextSpawnAt += state.config.spawnMs;
+  }
+
+  if (target >= endAt) {
+    finish(state, "time", endAt);
+    return;
+  }
+
+  clearPopped(state, target);
+  if (
+    state.lastPopAt !== null &&
+    target - state.lastPopAt > state.config.comboWindowMs
+  ) {
+    state.combo = 0;
+  }
+  state.nowMs = target;
+};
+
+export const createGame = (
+  seed: number,
+  config: GameConfig = DEFAULT_CONFIG,
+): GameState => {
+  const state: GameState = {
+    config,
+    seed: seed >>> 0,
+    rng: seed >>> 0,
+    nowMs: 0,
+    nextSpawnAt: config.spawnMs,
+    spawned: 0,
+    candles: [],
+    candlesPlaced: 0,
+    points: 0,
+    combo: 0,
+    shields: 0,
+    frozenMs: 0,
+    frozenUntil: 0,
+    powerUps: { freeze: 0, shield: 0, magnet: 0 },
+    lastPopAt: null,
+    status: "running",
+    endReason: null,
+    endedAt: null,
+  };
+  for (let index = 0; index < config.initialCandles; index += 1) {
+    state.candles.push(makeCandle(state, 0));
+  }
+  return state;
+};
+
+export const tick = (state: GameState, nowMs: number): GameState => {
+  const next = cloneState(state);
+  advance(next, nowMs);
+  return next;
+};
+
+const placeCandle = (state: GameState, index: number) => {
+  const candle = state.candles[index];
+  if (!candle) return;
+  state.candles[index] = { ...candle, state: "blown", poppedAt: state.nowMs };
+  state.candlesPlaced = Math.min(
+    state.candlesPlaced + 1,
+    state.config.targetCandles,
+  );
+  state.combo = Math.min(state.combo + 1, state.config.maxCombo);
+  // The streak multiplies the base points; the golden bonus is flat.
+  state.points +=
+    state.config.popPoints * state.combo +
+    (candle.kind === "golden" ? state.config.goldenPoints : 0);
+  state.lastPopAt = state.nowMs;
+};
+
+const applyPowerUp = (state: GameState, source: Candle) => {
+  const { config } = state;
+  if (source.kind === "freeze") {
+    const bonus = Math.min(
+      config.freezeMs,
+      config.maxFreezeMs - state.frozenMs,
+    );
+    if (bonus <= 0) return;
+    state.frozenMs += bonus;
+    state.frozenUntil = Math.max(state.frozenUntil, state.nowMs) + bonus;
+    return;
+  }
+  if (source.kind === "shield") {
+    state.shields += 1;
+    return;
+  }
+  if (source.kind === "magnet") {
+    // Pulls in ordinary candles only; bombs and other power-ups stay put.
+    state.candles.forEach((candle, index) => {
+      if (
+        candle.state === "alive" &&
+        (candle.kind === "plain" || candle.kind === "golden") &&
+        !isExpired(state, candle, state.nowMs) &&
+        Math.hypot(candle.x - source.x, candle.y - source.y) <=
+          config.magnetRadius
+      ) {
+        placeCandle(state, index);
+      }
+    });
+  }
+};
+
+export const popCandle = (
+  state: GameState,
+  candleId: string,
+  nowMs: number,
+): GameState => {
+  const next = cloneState(state);
+  advance(next, nowMs);
+  if (next.status !== "running") return next;
+
+  const index = next.candles.findIndex((candle) => candle.id === candleId);
+  const candle = next.candles[index];
+  if (!candle || candle.state !== "alive" || isExpired(next, candle, next.nowMs)) {
+    return next;
+  }
+
+  if (candle.kind === "bomb") {
+    if (next.shields > 0) {
+      next.shields -= 1;
+      next.candles[index] = {
+        ...candle,
+        state: "shielded",
+        poppedAt: next.nowMs,
+      };
+      return next;
+    }
+    next.candles[index] = { ...candle, state: "boom", poppedAt: next.nowMs };
+    next.combo = 0;
+    next.points = Math.max(0, next.points - next.config.bombPenalty);
+    finish(next, "bomb", next.nowMs);
+    return next;
+  }
+
+  placeCandle(next, index);
+  if (isPowerUp(candle.kind)) {
+    next.powerUps[candle.kind] += 1;
+    applyPowerUp(next, candle);
+  }
+  if (next.candlesPlaced >= next.config.targetCandles) {
+    finish(next, "candles", next.nowMs);
+  }
+  return next;
+};
+
+export const timeLeftSeconds = (state: GameState) =>
+  Math.max(
+    0,
+    Math.ceil((state.config.gameMs - clockMs(state, state.nowMs)) / 1000),
+  );
+
+export const isFrozen = (state: GameState) =>
+  state.status === "running" && state.frozenUntil > state.nowMs;
+
+export const elapsedMs = (state: GameState) =>
+  clockMs(state, Math.min(state.endedAt ?? state.nowMs, deadlineMs(state)));
+
+export const replayRound = (
+  seed: number,
+  inputs: PopInput[],
+  config: GameConfig = DEFAULT_CONFIG,
+) => {
+  let state = createGame(seed, config);
+  for (const input of inputs) {
+    if (state.status !== "running") break;
+    state = popCandle(state, input.candleId, input.atMs);
+  }
+  if (state.status === "running") {
+    state = tick(state, deadlineMs(state));
+  }
+  return state;
+};
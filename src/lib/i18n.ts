@@ -0,0 +1,108 @@
+import { isApiErrorCode, type ApiErrorBody } from "@/lib/apiErrors";
+import { en, type MessageKey } from "@/locales/en";
+import { es } from "@/locales/es";
+
+export type Locale = "en" | "es";
+
+export type { MessageKey };
+
+// Plural messages are stored as `<key>.one`, `<key>.other` and so on.
+export type PluralKey = {
+  [K in MessageKey]: K extends `${infer Base}.other` ? Base : never;
+}[MessageKey];
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translator = {
+  locale: Locale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  plural: (key: PluralKey, count: number, params?: MessageParams) => string;
+};
+
+export const LOCALES: Locale[] = ["en", "es"];
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+};
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+export const LOCALE_STORAGE_KEY = "alexbd-locale";
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, es };
+
+export const readLocale = (value: unknown): Locale | null =>
+  LOCALES.find((locale) => locale === value) ?? null;
+
+// Picks the first supported language from the browser's list, so "es-MX"
+// lands on Spanish.
+export const detectLocale = (languages: readonly string[]): Locale => {
+  for (const language of languages) {
+    const locale = readLocale(language.toLowerCase().split("-")[0]);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+};
+
+// A saved choice wins over the browser's language.
+export const loadLocale = () =>
+  readLocale(window.localStorage.getItem(LOCALE_STORAGE_KEY)) ??
+  detectLocale(navigator.languages ?? [navigator.language]);
+
+export const saveLocale = (locale: Locale) => {
+  window.localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+};
+
+export const formatCount = (value: number, locale: Locale) =>
+  new Intl.NumberFormat(locale).format(value);
+
+export const formatSeconds = (
+  seconds: number,
+  locale: Locale,
+  fractionDigits = 0,
+) =>
+  new Intl.NumberFormat(locale, {
+    style: "unit",
+    unit: "second",
+    unitDisplay: "narrow",
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(seconds);
+
+export const formatTimeMs = (value: number, locale: Locale) =>
+  formatSeconds(value / 1000, locale, 1);
+
+export const createTranslator = (locale: Locale): Translator => {
+  const catalog = CATALOGS[locale];
+  const rules = new Intl.PluralRules(locale);
+  const t = (key: MessageKey, params: MessageParams = {}) =>
+    catalog[key].replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = params[name];
+      if (value === undefined) return match;
+      return typeof value === "number" ? formatCount(value, locale) : value;
+    });
+  const plural = (
+    key: PluralKey,
+    count: number,
+    params: MessageParams = {},
+  ) => {
+    const form = `${key}.${rules.select(count)}`;
+    const pluralKey = (form in catalog ? form : `${key}.other`) as MessageKey;
+    return t(pluralKey, { ...params, count });
+  };
+  return { locale, t, plural };
+};
+
+export const ENGLISH = createTranslator(DEFAULT_LOCALE);
+
+// Prefers the catalog wording for a known error code, then the server's
+// English message, then the caller's fallback.
+export const localizeApiError = (
+  { t }: Translator,
+  data: ApiErrorBody,
+  fallback: MessageKey,
+) => {
+  if (isApiErrorCode(data.code)) return t(`apiError.${data.code}`);
+  return data.error ?? t(fallback);
+};
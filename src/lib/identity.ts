@@ -0,0 +1,26 @@
+export const NAME_STORAGE_KEY = "alexbd-player-name";
+export const NAME_CONFIRMED_KEY = "alexbd-name-confirmed";
+export const EMAIL_STORAGE_KEY = "alexbd-player-email";
+export const PLAYER_ID_STORAGE_KEY = "alexbd-player-id";
+
+export const newClientId = () => {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return "10000000-1000-4000-8000-100000000000".replace(/[018]/g, (char) =>
+    (
+      Number(char) ^
+      (Math.floor(Math.random() * 256) & (15 >> (Number(char) / 4)))
+    ).toString(16),
+  );
+};
+
+// Reads the browser's player id, minting one on first visit.
+export const loadClientId = () => {
+  let clientId = window.localStorage.getItem(PLAYER_ID_STORAGE_KEY);
+  if (!clientId) {
+    clientId = newClientId();
+    window.localStorage.setItem(PLAYER_ID_STORAGE_KEY, clientId);
+  }
+  return clientId;
+};
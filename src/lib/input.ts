@@ -0,0 +1,288 @@
+import type { Candle } from "@/lib/game";
+import type { Translator } from "@/lib/i18n";
+
+export type InputMethod = "pointer" | "touch" | "keyboard" | "gamepad";
+
+export type ControlAction = "up" | "down" | "left" | "right" | "pop";
+
+export type Direction = Exclude<ControlAction, "pop">;
+
+export type ControlBindings = {
+  keys: Record<ControlAction, string>;
+  // Number-key targeting: slotKeys[0] pops the candle tagged 1, and so on.
+  slotKeys: string[];
+  buttons: Record<ControlAction, number>;
+};
+
+export type InputCommand =
+  | { type: "move"; direction: Direction }
+  | { type: "pop" }
+  | { type: "slot"; slot: number };
+
+export const INPUT_METHODS: InputMethod[] = [
+  "pointer",
+  "touch",
+  "keyboard",
+  "gamepad",
+];
+
+export const CONTROL_ACTIONS: ControlAction[] = [
+  "up",
+  "down",
+  "left",
+  "right",
+  "pop",
+];
+
+export const SLOT_COUNT = 9;
+
+export const CONTROLS_STORAGE_KEY = "alexbd-controls";
+
+// Buttons follow the browser's "standard" gamepad layout: A and the d-pad.
+export const DEFAULT_BINDINGS: ControlBindings = {
+  keys: {
+    up: "ArrowUp",
+    down: "ArrowDown",
+    left: "ArrowLeft",
+    right: "ArrowRight",
+    pop: " ",
+  },
+  slotKeys: ["1", "2", "3", "4", "5", "6", "7", "8", "9"],
+  buttons: { up: 12, down: 13, left: 14, right: 15, pop: 0 },
+};
+
+const STICK_THRESHOLD = 0.6;
+
+export const readInputMethod = (value: unknown): InputMethod | null =>
+  INPUT_METHODS.find((method) => method === value) ?? null;
+
+export const pointerInputMethod = (pointerType: string): InputMethod =>
+  pointerType === "touch" || pointerType === "pen" ? "touch" : "pointer";
+
+const normalizeKey = (key: string) =>
+  key.length === 1 ? key.toLowerCase() : key;
+
+const ARROW_KEYS = ["ArrowUp", "ArrowDown", "ArrowLeft", "ArrowRight"] as const;
+
+export const describeKey = ({ t }: Translator, key: string) => {
+  if (key === " ") return t("key.space");
+  const arrow = ARROW_KEYS.find((name) => name === key);
+  if (arrow) return t(`key.${arrow}`);
+  return key.length === 1 ? key.toUpperCase() : key;
+};
+
+export const describeButton = ({ t }: Translator, index: number) =>
+  t("key.button", { index: String(index) });
+
+export const commandForKey = (
+  bindings: ControlBindings,
+  key: string,
+): InputCommand | null => {
+  const pressed = normalizeKey(key);
+  const action = CONTROL_ACTIONS.find(
+    (name) => normalizeKey(bindings.keys[name]) === pressed,
+  );
+  if (action) {
+    return action === "pop"
+      ? { type: "pop" }
+      : { type: "move", direction: action };
+  }
+  const slot = bindings.slotKeys.findIndex(
+    (slotKey) => normalizeKey(slotKey) === pressed,
+  );
+  return slot >= 0 ? { type: "slot", slot: slot + 1 } : null;
+};
+
+// Every key and button may only do one thing, so a rebind takes the key
+// away from whichever action had it before.
+export const rebindKey = (
+  bindings: ControlBindings,
+  target: ControlAction | number,
+  key: string,
+): ControlBindings => {
+  const pressed = normalizeKey(key);
+  const keys = { ...bindings.keys };
+  const slotKeys = bindings.slotKeys.slice();
+  const previous =
+    typeof target === "number" ? slotKeys[target] : keys[target];
+  for (const action of CONTROL_ACTIONS) {
+    if (normalizeKey(keys[action]) === pressed) keys[action] = previous;
+  }
+  slotKeys.forEach((slotKey, index) => {
+    if (normalizeKey(slotKey) === pressed) slotKeys[index] = previous;
+  });
+  if (typeof target === "number") {
+    slotKeys[target] = key;
+  } else {
+    keys[target] = key;
+  }
+  return { ...bindings, keys, slotKeys };
+};
+
+export const rebindButton = (
+  bindings: ControlBindings,
+  action: ControlAction,
+  button: number,
+): ControlBindings => {
+  const buttons = { ...bindings.buttons };
+  const previous = buttons[action];
+  for (const name of CONTROL_ACTIONS) {
+    if (buttons[name] === button) buttons[name] = previous;
+  }
+  buttons[action] = button;
+  return { ...bindings, buttons };
+};
+
+const isKeyList = (value: unknown): value is string[] =>
+  Array.isArray(value) &&
+  value.length === SLOT_COUNT &&
+  value.every((key) => typeof key === "string" && key.length > 0);
+
+export const loadControlBindings = (): ControlBindings => {
+  try {
+    const saved = JSON.parse(
+      window.localStorage.getItem(CONTROLS_STORAGE_KEY) ?? "null",
+    ) as Partial<ControlBindings> | null;
+    const keys = { ...DEFAULT_BINDINGS.keys };
+    const buttons = { ...DEFAULT_BINDINGS.buttons };
+    for (const action of CONTROL_ACTIONS) {
+      const key = saved?.keys?.[action];
+      const button = saved?.buttons?.[action];
+      if (typeof key === "string" && key.length > 0) keys[action] = key;
+      if (Number.isInteger(button) && (button as number) >= 0) {
+        buttons[action] = button as number;
+      }
+    }
+    return {
+      keys,
+      slotKeys: isKeyList(saved?.slotKeys)
+        ? saved.slotKeys
+        : DEFAULT_BINDINGS.slotKeys,
+      buttons,
+    };
+  } catch {
+    return DEFAULT_BINDINGS;
+  }
+};
+
+export const saveControlBindings = (bindings: ControlBindings) => {
+  window.localStorage.setItem(CONTROLS_STORAGE_KEY, JSON.stringify(bindings));
+};
+
+const isTargetable = (candle: Candle) => candle.state === "alive";
+
+// Keeps each live candle on the number it was first given, so a key press
+// never lands on a candle that shifted into the slot a moment earlier.
+export const assignSlots = (
+  candles: Candle[],
+  previous: Record<string, number>,
+) => {
+  const alive = candles.filter(isTargetable);
+  const slots: Record<string, number> = {};
+  const taken = new Set<number>();
+  for (const candle of alive) {
+    const slot = previous[candle.id];
+    if (slot) {
+      slots[candle.id] = slot;
+      taken.add(slot);
+    }
+  }
+  for (const candle of alive) {
+    if (slots[candle.id]) continue;
+    let slot = 1;
+    while (slot <= SLOT_COUNT && taken.has(slot)) slot += 1;
+    if (slot > SLOT_COUNT) break;
+    slots[candle.id] = slot;
+    taken.add(slot);
+  }
+  const unchanged =
+    Object.keys(slots).length === Object.keys(previous).length &&
+    Object.entries(slots).every(([id, slot]) => previous[id] === slot);
+  return unchanged ? previous : slots;
+};
+
+export const candleInSlot = (slots: Record<string, number>, slot: number) =>
+  Object.keys(slots).find((id) => slots[id] === slot) ?? null;
+
+const DIRECTION_VECTORS: Record<Direction, [number, number]> = {
+  up: [0, -1],
+  down: [0, 1],
+  left: [-1, 0],
+  right: [1, 0],
+};
+
+// Picks the nearest live candle roughly in the pressed direction; with no
+// current target it starts from the candle nearest the middle of the field.
+export const moveTarget = (
+  candles: Candle[],
+  currentId: string | null,
+  direction: Direction,
+) => {
+  const alive = candles.filter(isTargetable);
+  const current = alive.find((candle) => candle.id === currentId);
+  if (!current) {
+    const nearest = alive
+      .slice()
+      .sort(
+        (a, b) =>
+          Math.hypot(a.x - 50, a.y - 35) - Math.hypot(b.x - 50, b.y - 35),
+      )[0];
+    return nearest?.id ?? null;
+  }
+  const [dx, dy] = DIRECTION_VECTORS[direction];
+  let best: Candle | null = null;
+  let bestScore = Infinity;
+  for (const candle of alive) {
+    if (candle.id === current.id) continue;
+    const offsetX = candle.x - current.x;
+    const offsetY = candle.y - current.y;
+    const along = offsetX * dx + offsetY * dy;
+    if (along <= 0) continue;
+    const across = Math.abs(offsetX * dy - offsetY * dx);
+    const score = along + across * 2;
+    if (score < bestScore) {
+      best = candle;
+      bestScore = score;
+    }
+  }
+  return best?.id ?? current.id;
+};
+
+export const pickTarget = (candles: Candle[], currentId: string | null) =>
+  candles.some((candle) => candle.id === currentId && isTargetable(candle))
+    ? currentId
+    : null;
+
+// The gamepad's pressed actions this frame: bound buttons plus the left stick.
+export const gamepadActions = (
+  gamepad: Gamepad,
+  bindings: ControlBindings,
+) => {
+  const pressed = new Set<ControlAction>();
+  for (const action of CONTROL_ACTIONS) {
+    if (gamepad.buttons[bindings.buttons[action]]?.pressed) {
+      pressed.add(action);
+    }
+  }
+  const [axisX = 0, axisY = 0] = gamepad.axes;
+  if (axisX <= -STICK_THRESHOLD) pressed.add("left");
+  if (axisX >= STICK_THRESHOLD) pressed.add("right");
+  if (axisY <= -STICK_THRESHOLD) pressed.add("up");
+  if (axisY >= STICK_THRESHOLD) pressed.add("down");
+  return pressed;
+};
+
+export const firstPressedButton = (gamepad: Gamepad) =>
+  gamepad.buttons.findIndex((button) => button.pressed);
+
+// The method behind most of a round's pops, which is what the score reports.
+export const primaryInputMethod = (methods: InputMethod[]) => {
+  const counts = new Map<InputMethod, number>();
+  let primary: InputMethod | null = null;
+  for (const method of methods) {
+    const count = (counts.get(method) ?? 0) + 1;
+    counts.set(method, count);
+    if (!primary || count > (counts.get(primary) ?? 0)) primary = method;
+  }
+  return primary;
+};
@@ -0,0 +1,388 @@
+import { Op, Transaction, type Order, type WhereOptions } from "sequelize";
+import type { Board } from "@/lib/boards";
+import { runExclusive, sequelize } from "@/lib/db";
+import { ranksByPoints, type GameMode } from "@/lib/modes";
+import { Score } from "@/models/Score";
+
+export const TOP_LIMIT = 10;
+export const DEFAULT_LIMIT = 10;
+export const MAX_LIMIT = 100;
+const NEIGHBOUR_COUNT = 2;
+const MILESTONE_STEP = 10;
+
+type RankField = "points" | "candles" | "timeMs" | "createdAt" | "id";
+type RankKey = [RankField, "ASC" | "DESC"];
+
+const CANDLE_RANK: RankKey[] = [
+  ["candles", "DESC"],
+  ["timeMs", "ASC"],
+  ["createdAt", "ASC"],
+  ["id", "ASC"],
+];
+
+// Points boards fall back to the candle ordering to break ties.
+const POINTS_RANK: RankKey[] = [["points", "DESC"], ...CANDLE_RANK];
+
+export type Period = "day" | "week" | "month" | "all";
+export type LeaderboardView = "all" | "best";
+
+const PERIODS: Period[] = ["day", "week", "month", "all"];
+const VIEWS: LeaderboardView[] = ["all", "best"];
+
+export type BoardScope = {
+  board: Board;
+  mode: GameMode;
+  boardDate: string | null;
+  eventId: number | null;
+};
+
+type Cursor = {
+  points: number;
+  candles: number;
+  timeMs: number;
+  createdAt: string;
+  id: number;
+};
+
+export type LeaderboardQuery = {
+  view: LeaderboardView;
+  limit: number;
+  offset: number;
+  cursor: Cursor | null;
+  since: Date | null;
+  until: Date | null;
+};
+
+type QueryResult =
+  | { query: LeaderboardQuery; error?: undefined; field?: undefined }
+  | { query?: undefined; error: string; field: string };
+
+export const serializeScore = (entry: Score) => ({
+  id: entry.id,
+  name: entry.name,
+  playerId: entry.playerId,
+  points: entry.points,
+  candles: entry.candles,
+  timeMs: entry.timeMs,
+  accessMode: entry.accessMode,
+  createdAt: entry.createdAt.toISOString(),
+});
+
+export const scoreScope = (entry: Score): BoardScope => ({
+  board: entry.board,
+  mode: entry.mode,
+  boardDate: entry.boardDate,
+  eventId: entry.eventId,
+});
+
+const rankKeys = (scope: BoardScope) =>
+  ranksByPoints(scope.mode) ? POINTS_RANK : CANDLE_RANK;
+
+export const scoreOrder = (scope: BoardScope): Order => rankKeys(scope);
+
+const reversedOrder = (scope: BoardScope): Order =>
+  rankKeys(scope).map(([field, direction]) => [
+    field,
+    direction === "ASC" ? "DESC" : "ASC",
+  ]);
+
+const rankValue = (entry: Score, field: RankField) =>
+  field === "createdAt" ? entry.createdAt.getTime() : entry[field];
+
+export const ranksAhead = (scope: BoardScope, entry: Score, other: Score) => {
+  for (const [field, direction] of rankKeys(scope)) {
+    const a = rankValue(entry, field);
+    const b = rankValue(other, field);
+    if (a !== b) return direction === "DESC" ? a > b : a < b;
+  }
+  return false;
+};
+
+export const boardWhere = (scope: BoardScope) => ({
+  board: scope.board,
+  mode: scope.mode,
+  boardDate: scope.boardDate,
+  eventId: scope.eventId,
+  status: "published",
+  hiddenAt: null,
+});
+
+// Writers to one board queue behind a lock so the Top 10 they read is still
+// the Top 10 when their insert commits. SQLite IMMEDIATE transactions already
+// hold the database write lock, so only Postgres needs the advisory lock.
+export const withBoardLock = <T>(
+  scope: BoardScope,
+  work: (transaction: Transaction) => Promise<T>,
+) =>
+  runExclusive(() =>
+    sequelize.transaction(
+      { type: Transaction.TYPES.IMMEDIATE },
+      async (transaction) => {
+        if (sequelize.getDialect() === "postgres") {
+          await sequelize.query(
+            "SELECT pg_advisory_xact_lock(hashtext(:key))",
+            {
+              transaction,
+              replacements: {
+                key: `scores:${scope.eventId ?? ""}:${scope.board}:${
+                  scope.mode
+                }:${scope.boardDate ?? ""}`,
+              },
+            },
+          );
+        }
+        return work(transaction);
+      },
+    ),
+  );
+
+export const findTopScores = (scope: BoardScope, transaction?: Transaction) =>
+  Score.findAll({
+    where: boardWhere(scope),
+    order: scoreOrder(scope),
+    limit: TOP_LIMIT,
+    transaction,
+  });
+
+const periodStart = (period: Period, now: Date) => {
+  const start = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+  );
+  if (period === "week") {
+    const weekday = (start.getUTCDay() + 6) % 7;
+    start.setUTCDate(start.getUTCDate() - weekday);
+  }
+  if (period === "month") {
+    start.setUTCDate(1);
+  }
+  return start;
+};
+
+const readInteger = (value: string | null) => {
+  if (value === null) return null;
+  if (!/^\d+$/.test(value)) return Number.NaN;
+  return Number(value);
+};
+
+const readTimestamp = (value: string | null) => {
+  if (value === null) return null;
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed;
+};
+
+const toCursor = (entry: Score): Cursor => ({
+  points: entry.points,
+  candles: entry.candles,
+  timeMs: entry.timeMs,
+  createdAt: entry.createdAt.toISOString(),
+  id: entry.id,
+});
+
+export const encodeCursor = (entry: Score) =>
+  Buffer.from(JSON.stringify(toCursor(entry))).toString("base64url");
+
+const decodeCursor = (value: string): Cursor | null => {
+  try {
+    const parsed = JSON.parse(
+      Buffer.from(value, "base64url").toString(),
+    ) as Partial<Cursor> | null;
+    if (
+      typeof parsed?.candles !== "number" ||
+      typeof parsed.timeMs !== "number" ||
+      typeof parsed.createdAt !== "string" ||
+      Number.isNaN(Date.parse(parsed.createdAt)) ||
+      typeof parsed.id !== "number"
+    ) {
+      return null;
+    }
+    return {
+      // Cursors minted before points existed sort as zero points.
+      points: typeof parsed.points === "number" ? parsed.points : 0,
+      candles: parsed.candles,
+      timeMs: parsed.timeMs,
+      createdAt: parsed.createdAt,
+      id: parsed.id,
+    };
+  } catch {
+    return null;
+  }
+};
+
+export const readLeaderboardQuery = (
+  searchParams: URLSearchParams,
+  now = new Date(),
+): QueryResult => {
+  const viewParam = searchParams.get("view") ?? "all";
+  const view = VIEWS.find((item) => item === viewParam);
+  if (!view) {
+    return { error: "View must be all or best.", field: "view" };
+  }
+
+  const limit = readInteger(searchParams.get("limit")) ?? DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return {
+      error: `Limit must be a whole number from 1 to ${MAX_LIMIT}.`,
+      field: "limit",
+    };
+  }
+
+  const offset = readInteger(searchParams.get("offset")) ?? 0;
+  if (!Number.isInteger(offset) || offset < 0) {
+    return {
+      error: "Offset must be a whole number of 0 or more.",
+      field: "offset",
+    };
+  }
+
+  const cursorParam = searchParams.get("cursor");
+  const cursor = cursorParam === null ? null : decodeCursor(cursorParam);
+  if (cursorParam !== null && !cursor) {
+    return { error: "Cursor is invalid.", field: "cursor" };
+  }
+  if (cursor && offset > 0) {
+    return { error: "Use either cursor or offset, not both.", field: "cursor" };
+  }
+
+  const periodParam = searchParams.get("period") ?? "all";
+  const period = PERIODS.find((item) => item === periodParam);
+  if (!period) {
+    return {
+      error: "Period must be day, week, month or all.",
+      field: "period",
+    };
+  }
+
+  const since = readTimestamp(searchParams.get("since"));
+  const until = readTimestamp(searchParams.get("until"));
+  if (since === undefined || until === undefined) {
+    return {
+      error: "Since and until must be ISO 8601 timestamps.",
+      field: "since",
+    };
+  }
+
+  const windowStart = period === "all" ? since : periodStart(period, now);
+  const effectiveSince =
+    since && windowStart && since > windowStart ? since : windowStart;
+  if (effectiveSince && until && effectiveSince >= until) {
+    return { error: "Since must be earlier than until.", field: "since" };
+  }
+
+  return {
+    query: { view, limit, offset, cursor, since: effectiveSince, until },
+  };
+};
+
+const windowWhere = (scope: BoardScope, query: LeaderboardQuery) => {
+  const createdAt: Record<symbol, Date> = {};
+  if (query.since) createdAt[Op.gte] = query.since;
+  if (query.until) createdAt[Op.lt] = query.until;
+  return {
+    ...boardWhere(scope),
+    ...(query.view === "best" ? { isPersonalBest: true } : {}),
+    ...(query.since || query.until ? { createdAt } : {}),
+  };
+};
+
+// Rows strictly after (or before) the cursor in board order: tied on every
+// earlier rank key and past it on the next one.
+const pastCursor = (
+  scope: BoardScope,
+  cursor: Cursor,
+  side: "after" | "before",
+): WhereOptions => {
+  const keys = rankKeys(scope);
+  const value = (field: RankField) =>
+    field === "createdAt" ? new Date(cursor.createdAt) : cursor[field];
+  return {
+    [Op.or]: keys.map(([field, direction], index) => {
+      const descending = direction === "DESC";
+      const op = descending === (side === "after") ? Op.lt : Op.gt;
+      return {
+        ...Object.fromEntries(
+          keys.slice(0, index).map(([tied]) => [tied, value(tied)]),
+        ),
+        [field]: { [op]: value(field) },
+      };
+    }),
+  };
+};
+
+const afterCursor = (scope: BoardScope, cursor: Cursor) =>
+  pastCursor(scope, cursor, "after");
+
+const beforeCursor = (scope: BoardScope, cursor: Cursor) =>
+  pastCursor(scope, cursor, "before");
+
+const milestoneRank = (rank: number) => {
+  if (rank <= 1) return null;
+  if (rank <= MILESTONE_STEP) return 1;
+  return Math.floor((rank - 1) / MILESTONE_STEP) * MILESTONE_STEP;
+};
+
+// Pending scores are not on the board yet, so they have no place to report.
+export async function findPlacement(scope: BoardScope, entry: Score) {
+  if (entry.status !== "published") return null;
+  const where = boardWhere(scope);
+  const cursor = toCursor(entry);
+  const [ahead, total, above, below] = await Promise.all([
+    Score.count({ where: { ...where, ...beforeCursor(scope, cursor) } }),
+    Score.count({ where }),
+    Score.findAll({
+      where: { ...where, ...beforeCursor(scope, cursor) },
+      order: reversedOrder(scope),
+      limit: NEIGHBOUR_COUNT,
+    }),
+    Score.findAll({
+      where: { ...where, ...afterCursor(scope, cursor) },
+      order: scoreOrder(scope),
+      limit: NEIGHBOUR_COUNT,
+    }),
+  ]);
+  const rank = ahead + 1;
+  const targetRank = milestoneRank(rank);
+  const target =
+    targetRank === null
+      ? null
+      : await Score.findOne({
+          where,
+          order: scoreOrder(scope),
+          offset: targetRank - 1,
+        });
+
+  return {
+    rank,
+    total,
+    percentile:
+      total > 0 ? Math.round(((total - rank + 1) / total) * 1000) / 10 : null,
+    above: above.reverse(),
+    below,
+    target: target && targetRank ? { rank: targetRank, entry: target } : null,
+  };
+}
+
+export async function findLeaderboardPage(
+  scope: BoardScope,
+  query: LeaderboardQuery,
+) {
+  const where = windowWhere(scope, query);
+  const [total, rows] = await Promise.all([
+    Score.count({ where }),
+    Score.findAll({
+      where: query.cursor
+        ? { ...where, ...afterCursor(scope, query.cursor) }
+        : where,
+      order: scoreOrder(scope),
+      limit: query.limit + 1,
+      offset: query.cursor ? undefined : query.offset,
+    }),
+  ]);
+  const scores = rows.slice(0, query.limit);
+  const lastEntry = scores[scores.length - 1];
+  return {
+    scores,
+    total,
+    nextCursor:
+      rows.length > query.limit && lastEntry ? encodeCursor(lastEntry) : null,
+  };
+}
@@ -0,0 +1,103 @@
+import crypto from "crypto";
+import type { BoardScope, LeaderboardQuery } from "@/lib/leaderboard";
+
+export type CachedPage = {
+  body: string;
+  etag: string;
+  expiresAt: number;
+};
+
+const readPositiveInteger = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Other instances only learn about new scores once their copy expires, so
+// keep this short when running more than one server.
+export const LEADERBOARD_CACHE_TTL_MS = readPositiveInteger(
+  process.env.LEADERBOARD_CACHE_TTL_MS,
+  30_000,
+);
+const MAX_CACHED_PAGES = 500;
+
+type CacheState = {
+  pages: Map<string, Map<string, CachedPage>>;
+  generations: Map<string, number>;
+};
+
+const globalForCache = globalThis as unknown as {
+  leaderboardCache?: CacheState;
+};
+
+const cache: CacheState = (globalForCache.leaderboardCache ??= {
+  pages: new Map(),
+  generations: new Map(),
+});
+
+const scopeKey = (scope: BoardScope) =>
+  `${scope.eventId ?? ""}:${scope.board}:${scope.mode}:${scope.boardDate ?? ""}`;
+
+const queryKey = (query: LeaderboardQuery) =>
+  JSON.stringify([
+    query.view,
+    query.limit,
+    query.offset,
+    query.cursor,
+    query.since?.toISOString() ?? null,
+    query.until?.toISOString() ?? null,
+  ]);
+
+const createEtag = (body: string) =>
+  `W/"${crypto.createHash("sha1").update(body).digest("base64url")}"`;
+
+const countPages = () =>
+  Array.from(cache.pages.values()).reduce((sum, pages) => sum + pages.size, 0);
+
+const prune = (now: number) => {
+  cache.pages.forEach((pages, key) => {
+    pages.forEach((page, pageKey) => {
+      if (page.expiresAt <= now) pages.delete(pageKey);
+    });
+    if (pages.size === 0) cache.pages.delete(key);
+  });
+  while (countPages() >= MAX_CACHED_PAGES) {
+    const oldest = cache.pages.keys().next();
+    if (oldest.done) break;
+    cache.pages.delete(oldest.value);
+  }
+};
+
+export async function readCachedPage(
+  scope: BoardScope,
+  query: LeaderboardQuery,
+  load: () => Promise<unknown>,
+  now = Date.now(),
+): Promise<CachedPage> {
+  const key = scopeKey(scope);
+  const pageKey = queryKey(query);
+  const cached = cache.pages.get(key)?.get(pageKey);
+  if (cached && cached.expiresAt > now) return cached;
+
+  // A score saved while this page loads bumps the generation, and the
+  // stale result is served once but never stored.
+  const generation = cache.generations.get(key) ?? 0;
+  const body = JSON.stringify(await load());
+  const page = {
+    body,
+    etag: createEtag(body),
+    expiresAt: now + LEADERBOARD_CACHE_TTL_MS,
+  };
+  if ((cache.generations.get(key) ?? 0) === generation) {
+    prune(now);
+    const pages = cache.pages.get(key) ?? new Map<string, CachedPage>();
+    pages.set(pageKey, page);
+    cache.pages.set(key, pages);
+  }
+  return page;
+}
+
+export const invalidateLeaderboard = (scope: BoardScope) => {
+  const key = scopeKey(scope);
+  cache.pages.delete(key);
+  cache.generations.set(key, (cache.generations.get(key) ?? 0) + 1);
+};
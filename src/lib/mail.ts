@@ -0,0 +1,87 @@
+import fs from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export type MailTransport = {
+  send: (message: MailMessage) => Promise<void>;
+};
+
+const mailFrom =
+  process.env.MAIL_FROM ?? "Candle Dash <no-reply@candle-dash.local>";
+
+export const createSmtpTransport = (url: string): MailTransport => {
+  const transporter = nodemailer.createTransport(url);
+  return {
+    send: async (message) => {
+      await transporter.sendMail({ from: mailFrom, ...message });
+    },
+  };
+};
+
+export const createFileTransport = (directory: string): MailTransport => ({
+  send: async (message) => {
+    await fs.mkdir(directory, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9]+/gi, "_")}.json`;
+    await fs.writeFile(
+      path.join(directory, fileName),
+      JSON.stringify({ from: mailFrom, ...message }, null, 2),
+    );
+  },
+});
+
+export const createConsoleTransport = (): MailTransport => ({
+  send: async (message) => {
+    console.info(
+      `[mail] to=${message.to} subject="${message.subject}"\n${message.text}`,
+    );
+  },
+});
+
+// Falling back to the console quietly would leave every Top 10 score pending
+// in production, so there it has to be asked for by name.
+const defaultTransportKind = () => {
+  if (process.env.MAIL_TRANSPORT) return process.env.MAIL_TRANSPORT;
+  if (process.env.SMTP_URL) return "smtp";
+  if (process.env.NODE_ENV === "production") {
+    throw new Error(
+      "SMTP_URL is not set. Set it, or set MAIL_TRANSPORT=console to log emails instead.",
+    );
+  }
+  console.warn("SMTP_URL is not set; verification emails go to the console.");
+  return "console";
+};
+
+const createDefaultTransport = (): MailTransport => {
+  const kind = defaultTransportKind();
+  if (kind === "smtp") {
+    if (!process.env.SMTP_URL) {
+      throw new Error("SMTP_URL is not set");
+    }
+    return createSmtpTransport(process.env.SMTP_URL);
+  }
+  if (kind === "file") {
+    return createFileTransport(process.env.MAIL_DIR ?? ".mail");
+  }
+  if (kind === "console") {
+    return createConsoleTransport();
+  }
+  throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`);
+};
+
+let transport: MailTransport | null = null;
+
+export const getMailTransport = () => {
+  transport ??= createDefaultTransport();
+  return transport;
+};
+
+export const setMailTransport = (next: MailTransport | null) => {
+  transport = next;
+};
@@ -0,0 +1,97 @@
+import { DataTypes, type QueryInterface, type Sequelize } from "sequelize";
+import { migrations } from "@/migrations";
+
+export type MigrationStatus = {
+  name: string;
+  runAt: Date | null;
+};
+
+const MIGRATIONS_TABLE = "schema_migrations";
+
+export class SchemaOutOfDateError extends Error {
+  constructor(readonly pending: string[]) {
+    super(
+      `Database schema is behind (pending: ${pending.join(", ")}). ` +
+        "Run `npm run migrate:up` before serving requests.",
+    );
+    this.name = "SchemaOutOfDateError";
+  }
+}
+
+const ensureMigrationsTable = async (queryInterface: QueryInterface) => {
+  if (await queryInterface.tableExists(MIGRATIONS_TABLE)) return;
+  await queryInterface.createTable(MIGRATIONS_TABLE, {
+    name: {
+      type: DataTypes.STRING(200),
+      allowNull: false,
+      primaryKey: true,
+    },
+    runAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+  });
+};
+
+const readApplied = async (sequelize: Sequelize) => {
+  const queryInterface = sequelize.getQueryInterface();
+  if (!(await queryInterface.tableExists(MIGRATIONS_TABLE))) {
+    return new Map<string, Date>();
+  }
+  const rows = (await queryInterface.select(null, MIGRATIONS_TABLE, {
+    raw: true,
+  })) as unknown as { name: string; runAt: Date | string }[];
+  return new Map(rows.map((row) => [row.name, new Date(row.runAt)]));
+};
+
+export async function migrationStatus(
+  sequelize: Sequelize,
+): Promise<MigrationStatus[]> {
+  const applied = await readApplied(sequelize);
+  return migrations.map((migration) => ({
+    name: migration.name,
+    runAt: applied.get(migration.name) ?? null,
+  }));
+}
+
+export async function pendingMigrations(sequelize: Sequelize) {
+  const applied = await readApplied(sequelize);
+  return migrations.filter((migration) => !applied.has(migration.name));
+}
+
+export async function migrateUp(sequelize: Sequelize) {
+  const queryInterface = sequelize.getQueryInterface();
+  await ensureMigrationsTable(queryInterface);
+  const pending = await pendingMigrations(sequelize);
+  for (const migration of pending) {
+    await sequelize.transaction(async (transaction) => {
+      await migration.up(queryInterface, transaction);
+      await queryInterface.bulkInsert(
+        MIGRATIONS_TABLE,
+        [{ name: migration.name, runAt: new Date() }],
+        { transaction },
+      );
+    });
+  }
+  return pending.map((migration) => migration.name);
+}
+
+export async function migrateDown(sequelize: Sequelize, steps = 1) {
+  const queryInterface = sequelize.getQueryInterface();
+  const applied = await readApplied(sequelize);
+  const reverted = migrations
+    .filter((migration) => applied.has(migration.name))
+    .reverse()
+    .slice(0, steps);
+  for (const migration of reverted) {
+    await sequelize.transaction(async (transaction) => {
+      await migration.down(queryInterface, transaction);
+      await queryInterface.bulkDelete(
+        MIGRATIONS_TABLE,
+        { name: migration.name },
+        { transaction },
+      );
+    });
+  }
+  return reverted.map((migration) => migration.name);
+}
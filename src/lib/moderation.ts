@@ -0,0 +1,150 @@
+import type { ApiErrorCode } from "@/lib/apiErrors";
+import { scoreScope } from "@/lib/leaderboard";
+import { checkName } from "@/lib/names";
+import { refreshPersonalBest } from "@/lib/players";
+import { announceBoardChange } from "@/lib/scoreEvents";
+import { EmailVerification } from "@/models/EmailVerification";
+import {
+  ModerationAction,
+  type ModerationKind,
+} from "@/models/ModerationAction";
+import { Score } from "@/models/Score";
+
+export type ScoreChanges = {
+  hidden?: boolean;
+  name?: string;
+};
+
+export const serializeAdminScore = (entry: Score) => ({
+  id: entry.id,
+  name: entry.name,
+  playerId: entry.playerId,
+  points: entry.points,
+  candles: entry.candles,
+  timeMs: entry.timeMs,
+  email: entry.email,
+  status: entry.status,
+  hidden: entry.hiddenAt !== null,
+  hiddenAt: entry.hiddenAt?.toISOString() ?? null,
+  board: entry.board,
+  mode: entry.mode,
+  boardDate: entry.boardDate,
+  eventId: entry.eventId,
+  accessMode: entry.accessMode,
+  inputMethod: entry.inputMethod,
+  createdAt: entry.createdAt.toISOString(),
+});
+
+export const serializeModerationAction = (action: ModerationAction) => ({
+  id: action.id,
+  scoreId: action.scoreId,
+  actor: action.actor,
+  action: action.action,
+  before: action.before,
+  after: action.after,
+  createdAt: action.createdAt.toISOString(),
+});
+
+export type ChangeError = {
+  error: string;
+  code: ApiErrorCode;
+  field?: string;
+};
+
+export const readScoreChanges = (
+  body: Record<string, unknown>,
+): ScoreChanges | ChangeError => {
+  const changes: ScoreChanges = {};
+  if (body.hidden !== undefined) {
+    if (typeof body.hidden !== "boolean") {
+      return {
+        error: "Hidden must be true or false.",
+        code: "HIDDEN_INVALID",
+        field: "hidden",
+      };
+    }
+    changes.hidden = body.hidden;
+  }
+  if (body.name !== undefined) {
+    const nameCheck = checkName(body.name);
+    if (!nameCheck.ok) {
+      return { error: nameCheck.error, code: nameCheck.code, field: "name" };
+    }
+    changes.name = nameCheck.name;
+  }
+  if (changes.hidden === undefined && changes.name === undefined) {
+    return { error: "Nothing to change.", code: "NOTHING_TO_CHANGE" };
+  }
+  return changes;
+};
+
+const snapshot = (entry: Score) => ({
+  name: entry.name,
+  hiddenAt: entry.hiddenAt?.toISOString() ?? null,
+});
+
+// Pending scores never show on the board, so changing them leaves it as is.
+const announceChange = (entry: Score) => {
+  if (entry.status !== "published") return;
+  announceBoardChange(scoreScope(entry));
+};
+
+const refreshPlayerBest = async (entry: Score) => {
+  if (entry.playerId === null) return;
+  await refreshPersonalBest(scoreScope(entry), entry.playerId);
+};
+
+export async function moderateScore(
+  entry: Score,
+  actor: string,
+  changes: ScoreChanges,
+) {
+  const now = new Date();
+  const records: {
+    action: ModerationKind;
+    before: Record<string, unknown>;
+    after: Record<string, unknown>;
+  }[] = [];
+
+  if (changes.hidden !== undefined && changes.hidden !== (entry.hiddenAt !== null)) {
+    const before = snapshot(entry);
+    await entry.update({ hiddenAt: changes.hidden ? now : null });
+    records.push({
+      action: changes.hidden ? "hide" : "unhide",
+      before,
+      after: snapshot(entry),
+    });
+  }
+
+  if (changes.name !== undefined && changes.name !== entry.name) {
+    const before = snapshot(entry);
+    await entry.update({ name: changes.name });
+    records.push({ action: "rename", before, after: snapshot(entry) });
+  }
+
+  if (records.length === 0) return [];
+
+  if (records.some((record) => record.action !== "rename")) {
+    await refreshPlayerBest(entry);
+  }
+  announceChange(entry);
+
+  return ModerationAction.bulkCreate(
+    records.map((record) => ({ ...record, scoreId: entry.id, actor })),
+  );
+}
+
+export async function deleteScore(entry: Score, actor: string) {
+  const before = serializeAdminScore(entry);
+  await EmailVerification.destroy({ where: { scoreId: entry.id } });
+  await entry.destroy();
+  await refreshPlayerBest(entry);
+  announceChange(entry);
+  return ModerationAction.create({
+    scoreId: entry.id,
+    actor,
+    action: "delete",
+    before,
+    after: null,
+  });
+}
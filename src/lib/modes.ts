@@ -0,0 +1,53 @@
+import { DEFAULT_CONFIG, type GameConfig } from "@/lib/game";
+
+export type GameMode = "kids" | "classic" | "inferno" | "attack";
+
+export type Ranking = "candles" | "points";
+
+export const MODES: GameMode[] = ["kids", "classic", "inferno", "attack"];
+
+export const MODE_LABELS: Record<GameMode, string> = {
+  kids: "Kids",
+  classic: "Classic",
+  inferno: "Inferno",
+  attack: "Score Attack",
+};
+
+// Modes change only the pace and danger. The candle goal is the default 29,
+// or the honoree's age on event boards (see eventConfig).
+export const MODE_CONFIGS: Record<GameMode, GameConfig> = {
+  kids: {
+    ...DEFAULT_CONFIG,
+    gameMs: 25000,
+    spawnMs: 600,
+    candleLifeMs: 4000,
+    maxCandles: 10,
+    spawnWeights: { ...DEFAULT_CONFIG.spawnWeights, bomb: 4 },
+  },
+  classic: DEFAULT_CONFIG,
+  inferno: {
+    ...DEFAULT_CONFIG,
+    gameMs: 12000,
+    spawnMs: 300,
+    candleLifeMs: 1800,
+    maxCandles: 14,
+    spawnWeights: { ...DEFAULT_CONFIG.spawnWeights, bomb: 22 },
+  },
+  attack: DEFAULT_CONFIG,
+};
+
+// Score Attack plays the classic round but ranks by the points total.
+export const MODE_RANKINGS: Record<GameMode, Ranking> = {
+  kids: "candles",
+  classic: "candles",
+  inferno: "candles",
+  attack: "points",
+};
+
+export const readMode = (value: unknown): GameMode | null =>
+  MODES.find((mode) => mode === value) ?? null;
+
+export const modeConfig = (mode: GameMode) => MODE_CONFIGS[mode];
+
+export const ranksByPoints = (mode: GameMode) =>
+  MODE_RANKINGS[mode] === "points";
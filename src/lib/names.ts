@@ -0,0 +1,216 @@
+export const MAX_NAME_LENGTH = 40;
+
+// Words only match whole words so "Dickens", "Shitake" or "Scunthorpe" stay
+// allowed. Fragments also match inside run-together or dotted spellings, so
+// they are kept to stems that never turn up inside an ordinary word.
+const BLOCKED_WORDS = [
+  "arse",
+  "ass",
+  "asshole",
+  "bastard",
+  "bitch",
+  "cock",
+  "cunt",
+  "dick",
+  "fag",
+  "kike",
+  "nazi",
+  "penis",
+  "porn",
+  "pussy",
+  "rape",
+  "retard",
+  "shit",
+  "slut",
+  "spic",
+  "twat",
+  "wank",
+];
+
+const BLOCKED_FRAGMENTS = [
+  "bollocks",
+  "dildo",
+  "faggot",
+  "fuck",
+  "hitler",
+  "nigga",
+  "nigger",
+  "vagina",
+  "whore",
+];
+
+const LEET_MAP: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "2": "z",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "6": "g",
+  "7": "t",
+  "8": "b",
+  "9": "g",
+  "@": "a",
+  $: "s",
+  "!": "i",
+  "|": "l",
+  "+": "t",
+};
+
+const HOMOGLYPH_MAP: Record<string, string> = {
+  а: "a",
+  в: "b",
+  е: "e",
+  ё: "e",
+  з: "z",
+  і: "i",
+  ї: "i",
+  ј: "j",
+  к: "k",
+  м: "m",
+  н: "h",
+  о: "o",
+  р: "p",
+  с: "c",
+  т: "t",
+  у: "y",
+  х: "x",
+  ѕ: "s",
+  ԁ: "d",
+  ԛ: "q",
+  ԝ: "w",
+  α: "a",
+  β: "b",
+  ε: "e",
+  η: "n",
+  ι: "i",
+  κ: "k",
+  ν: "v",
+  ο: "o",
+  ρ: "p",
+  τ: "t",
+  υ: "u",
+  χ: "x",
+  ß: "ss",
+  æ: "ae",
+  ø: "o",
+  œ: "oe",
+  ł: "l",
+  đ: "d",
+  ı: "i",
+};
+
+const INVISIBLE_REGEX =
+  /[\p{Cc}\p{Cf}\p{Co}\p{Cn}\u034f\u115f\u1160\u3164\uffa0]/gu;
+
+export type NameCheck =
+  | { ok: true; name: string }
+  | { ok: false; code: "NAME_REQUIRED" | "NAME_BLOCKED"; error: string };
+
+export const cleanName = (value: unknown) => {
+  if (typeof value !== "string") return "";
+  return Array.from(
+    value
+      .normalize("NFKC")
+      .replace(INVISIBLE_REGEX, "")
+      .trim()
+      .replace(/\s+/g, " "),
+  )
+    .slice(0, MAX_NAME_LENGTH)
+    .join("")
+    .trim();
+};
+
+const collapseRepeats = (value: string) => value.replace(/(.)\1+/g, "$1");
+
+const foldCharacter = (char: string) =>
+  LEET_MAP[char] ?? HOMOGLYPH_MAP[char] ?? char;
+
+// A run of digits is a number, not leetspeak, so "Team 455" stays "Team".
+const foldToken = (token: string) =>
+  /^\d+$/.test(token) ? token : Array.from(token).map(foldCharacter).join("");
+
+const foldText = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .split(/(\s+)/)
+    .map(foldToken)
+    .join("");
+
+const compactText = (value: string) => value.replace(/[^\p{L}]+/gu, "");
+
+// Input is checked as written and with repeats collapsed, so "shiiit" is
+// caught while "As" is never read as "ass".
+export const foldName = (value: string) => {
+  const folded = foldText(value);
+  const words = folded.split(/[^\p{L}]+/u).filter(Boolean);
+  const compact = compactText(folded);
+  return {
+    words: [...new Set([...words, ...words.map(collapseRepeats)])],
+    compacts: [compact, collapseRepeats(compact)],
+  };
+};
+
+// NAME_BLOCKLIST adds comma-separated words; wrap a term in asterisks
+// (*term*) to block it anywhere inside a name.
+const readBlocklist = () => {
+  const words = [...BLOCKED_WORDS];
+  const fragments = [...BLOCKED_FRAGMENTS];
+  (process.env.NAME_BLOCKLIST ?? "")
+    .split(",")
+    .map((term) => term.trim())
+    .filter(Boolean)
+    .forEach((term) => {
+      const fragment = /^\*(.+)\*$/.exec(term);
+      if (fragment) {
+        fragments.push(fragment[1]);
+      } else {
+        words.push(term);
+      }
+    });
+  const fold = (terms: string[]) =>
+    terms.map((term) => compactText(foldText(term))).filter(Boolean);
+  return { words: fold(words), fragments: fold(fragments) };
+};
+
+const blocklist = readBlocklist();
+
+export const isBlockedName = (name: string) => {
+  const { words, compacts } = foldName(name);
+  return (
+    blocklist.words.some((term) => words.includes(term)) ||
+    blocklist.fragments.some((term) =>
+      compacts.some((compact) => compact.includes(term)),
+    )
+  );
+};
+
+// Messages are ordinary sentences, so they only match blocked terms as whole
+// words: no leetspeak, collapsed repeats or fragments ("Party as always!").
+export const isBlockedMessage = (message: string) => {
+  const words = message
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u);
+  return [...blocklist.words, ...blocklist.fragments].some((term) =>
+    words.includes(term),
+  );
+};
+
+export const checkName = (value: unknown): NameCheck => {
+  const name = cleanName(value);
+  if (!name) {
+    return { ok: false, code: "NAME_REQUIRED", error: "Name is required." };
+  }
+  if (isBlockedName(name)) {
+    return {
+      ok: false,
+      code: "NAME_BLOCKED",
+      error: "That name isn't allowed on the board. Please pick another.",
+    };
+  }
+  return { ok: true, name };
+};
@@ -0,0 +1,392 @@
+import crypto from "crypto";
+import { Op, UniqueConstraintError } from "sequelize";
+import { readBearerToken } from "@/lib/admin";
+import type { ApiErrorCode } from "@/lib/apiErrors";
+import { isDateKey } from "@/lib/boards";
+import {
+  EVENT_MAX_AGE,
+  EVENT_MIN_AGE,
+  MAX_MESSAGE_LENGTH,
+  MAX_SLUG_LENGTH,
+  isReservedSlug,
+  readEventSlug,
+  readEventTheme,
+  suggestEventSlug,
+  type EventTheme,
+} from "@/lib/events";
+import { scoreScope } from "@/lib/leaderboard";
+import { checkName, isBlockedMessage } from "@/lib/names";
+import { announceBoardChange } from "@/lib/scoreEvents";
+import { EmailVerification } from "@/models/EmailVerification";
+import { Event } from "@/models/Event";
+import { Score } from "@/models/Score";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Boards stay up for a month after the party so guests can look back.
+const EVENT_RETENTION_MS = 30 * DAY_MS;
+const OPEN_ENDED_EVENT_TTL_MS = 90 * DAY_MS;
+const SLUG_ATTEMPTS = 20;
+export const EVENT_CREATE_LIMIT = 5;
+export const EVENT_CREATE_WINDOW_MS = 60 * 60 * 1000;
+
+export class EventActionError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code: ApiErrorCode,
+    readonly field?: string,
+  ) {
+    super(message);
+    this.name = "EventActionError";
+  }
+}
+
+export type FieldError = {
+  error: string;
+  code: ApiErrorCode;
+  field?: string;
+};
+
+export type EventInput = {
+  honoree: string;
+  age: number;
+  slug: string | null;
+  theme: EventTheme;
+  startDate: string | null;
+  endDate: string | null;
+  message: string | null;
+};
+
+export type EventChanges = Partial<
+  Pick<EventInput, "honoree" | "theme" | "startDate" | "endDate" | "message">
+> & { closed?: boolean };
+
+const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const hashesMatch = (expected: string, received: string) => {
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received);
+  return (
+    expectedBuffer.length === receivedBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, receivedBuffer)
+  );
+};
+
+export const eventExpiry = (endDate: string | null, createdAt: Date) => {
+  if (!endDate) {
+    return new Date(createdAt.getTime() + OPEN_ENDED_EVENT_TTL_MS);
+  }
+  const endsAt = Date.parse(`${endDate}T00:00:00Z`) + DAY_MS;
+  return new Date(endsAt + EVENT_RETENTION_MS);
+};
+
+const readHonoree = (value: unknown): string | FieldError => {
+  const nameCheck = checkName(value);
+  return nameCheck.ok
+    ? nameCheck.name
+    : { error: nameCheck.error, code: nameCheck.code, field: "honoree" };
+};
+
+const readDate = (
+  value: unknown,
+  field: "startDate" | "endDate",
+): string | null | FieldError => {
+  if (value === null || value === "") return null;
+  return isDateKey(value)
+    ? value
+    : {
+        error: "Dates must be formatted as YYYY-MM-DD.",
+        code: "DATE_INVALID",
+        field,
+      };
+};
+
+const readMessage = (value: unknown): string | null | FieldError => {
+  if (value === null) return null;
+  if (typeof value !== "string") {
+    return {
+      error: "Message must be text.",
+      code: "MESSAGE_INVALID",
+      field: "message",
+    };
+  }
+  const message = value.normalize("NFKC").trim();
+  if (!message) return null;
+  if (message.length > MAX_MESSAGE_LENGTH) {
+    return {
+      error: `Message must be ${MAX_MESSAGE_LENGTH} characters or fewer.`,
+      code: "MESSAGE_TOO_LONG",
+      field: "message",
+    };
+  }
+  if (isBlockedMessage(message)) {
+    return {
+      error: "That message isn't allowed. Please reword it.",
+      code: "MESSAGE_BLOCKED",
+      field: "message",
+    };
+  }
+  return message;
+};
+
+const isFieldError = (value: unknown): value is FieldError =>
+  typeof value === "object" && value !== null && "error" in value;
+
+const checkDateOrder = (
+  startDate: string | null,
+  endDate: string | null,
+): FieldError | null =>
+  startDate && endDate && endDate < startDate
+    ? {
+        error: "The end date must be on or after the start date.",
+        code: "DATE_ORDER_INVALID",
+        field: "endDate",
+      }
+    : null;
+
+export const readEventInput = (
+  body: Record<string, unknown>,
+): EventInput | FieldError => {
+  const honoree = readHonoree(body.honoree);
+  if (isFieldError(honoree)) return honoree;
+
+  const age = Number(body.age);
+  if (!Number.isInteger(age) || age < EVENT_MIN_AGE || age > EVENT_MAX_AGE) {
+    return {
+      error: `Age must be a whole number from ${EVENT_MIN_AGE} to ${EVENT_MAX_AGE}.`,
+      code: "AGE_INVALID",
+      field: "age",
+    };
+  }
+
+  let slug: string | null = null;
+  if (body.slug !== undefined && body.slug !== "") {
+    slug = readEventSlug(body.slug);
+    if (!slug) {
+      return {
+        error: `Links must be 3-${MAX_SLUG_LENGTH} lowercase letters, numbers and single hyphens.`,
+        code: "SLUG_INVALID",
+        field: "slug",
+      };
+    }
+    if (isReservedSlug(slug)) {
+      return {
+        error: "That link is reserved. Please pick another.",
+        code: "SLUG_RESERVED",
+        field: "slug",
+      };
+    }
+  }
+
+  const theme =
+    body.theme === undefined ? "party" : readEventTheme(body.theme);
+  if (!theme) {
+    return {
+      error: "Theme must be party, pastel or ocean.",
+      code: "THEME_INVALID",
+      field: "theme",
+    };
+  }
+
+  const startDate = readDate(body.startDate ?? null, "startDate");
+  if (isFieldError(startDate)) return startDate;
+  const endDate = readDate(body.endDate ?? null, "endDate");
+  if (isFieldError(endDate)) return endDate;
+  const dateError = checkDateOrder(startDate, endDate);
+  if (dateError) return dateError;
+
+  const message = readMessage(body.message ?? null);
+  if (isFieldError(message)) return message;
+
+  return { honoree, age, slug, theme, startDate, endDate, message };
+};
+
+export const readEventChanges = (
+  body: Record<string, unknown>,
+): EventChanges | FieldError => {
+  const changes: EventChanges = {};
+  if (body.honoree !== undefined) {
+    const honoree = readHonoree(body.honoree);
+    if (isFieldError(honoree)) return honoree;
+    changes.honoree = honoree;
+  }
+  if (body.theme !== undefined) {
+    const theme = readEventTheme(body.theme);
+    if (!theme) {
+      return {
+        error: "Theme must be party, pastel or ocean.",
+        code: "THEME_INVALID",
+        field: "theme",
+      };
+    }
+    changes.theme = theme;
+  }
+  for (const field of ["startDate", "endDate"] as const) {
+    if (body[field] === undefined) continue;
+    const date = readDate(body[field], field);
+    if (isFieldError(date)) return date;
+    changes[field] = date;
+  }
+  if (body.message !== undefined) {
+    const message = readMessage(body.message);
+    if (isFieldError(message)) return message;
+    changes.message = message;
+  }
+  if (body.closed !== undefined) {
+    if (typeof body.closed !== "boolean") {
+      return {
+        error: "Closed must be true or false.",
+        code: "CLOSED_INVALID",
+        field: "closed",
+      };
+    }
+    changes.closed = body.closed;
+  }
+  if (Object.keys(changes).length === 0) {
+    return { error: "Nothing to change.", code: "NOTHING_TO_CHANGE" };
+  }
+  return changes;
+};
+
+export const findLiveEvent = (slug: string, now = new Date()) =>
+  Event.findOne({
+    where: {
+      slug,
+      [Op.or]: [{ expiresAt: null }, { expiresAt: { [Op.gt]: now } }],
+    },
+  });
+
+// Returns the removed rows so callers can refresh the boards they were on.
+const deleteEventScores = async (eventId: number) => {
+  const scores = await Score.findAll({ where: { eventId } });
+  if (scores.length === 0) return scores;
+  await EmailVerification.destroy({
+    where: { scoreId: scores.map((entry) => entry.id) },
+  });
+  await Score.destroy({ where: { eventId } });
+  return scores;
+};
+
+// Expired events free their slug; their sessions go with them by cascade.
+export async function purgeExpiredEvents(now = new Date()) {
+  const expired = await Event.findAll({
+    where: { expiresAt: { [Op.lte]: now } },
+  });
+  for (const event of expired) {
+    await deleteEventScores(event.id);
+    await event.destroy();
+  }
+  return expired.length;
+}
+
+const slugCandidate = (base: string, attempt: number) => {
+  if (attempt === 0) return base;
+  const suffix = `-${attempt + 1}`;
+  const stem = base.slice(0, MAX_SLUG_LENGTH - suffix.length);
+  return `${stem.replace(/-+$/, "")}${suffix}`;
+};
+
+export async function createEvent(input: EventInput, now = new Date()) {
+  await purgeExpiredEvents(now);
+  const token = crypto.randomBytes(32).toString("base64url");
+  const base = input.slug ?? suggestEventSlug(input.honoree, input.age);
+  const attempts = input.slug ? 1 : SLUG_ATTEMPTS;
+
+  for (let attempt = 0; attempt < attempts; attempt += 1) {
+    try {
+      const event = await Event.create({
+        slug: slugCandidate(base, attempt),
+        honoree: input.honoree,
+        age: input.age,
+        theme: input.theme,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        message: input.message,
+        organizerTokenHash: hashToken(token),
+        expiresAt: eventExpiry(input.endDate, now),
+      });
+      return { event, token };
+    } catch (error) {
+      if (!(error instanceof UniqueConstraintError)) throw error;
+    }
+  }
+  throw input.slug
+    ? new EventActionError(
+        "That link is already taken. Please pick another.",
+        409,
+        "SLUG_TAKEN",
+        "slug",
+      )
+    : new EventActionError(
+        "Unable to find a free link. Please pick one.",
+        409,
+        "SLUG_TAKEN",
+        "slug",
+      );
+}
+
+export async function requireOrganizerEvent(request: Request, slug: string) {
+  const event = await findLiveEvent(slug);
+  if (!event) {
+    throw new EventActionError("Event not found.", 404, "EVENT_NOT_FOUND");
+  }
+  const token = readBearerToken(request);
+  if (
+    !token ||
+    !event.organizerTokenHash ||
+    !hashesMatch(event.organizerTokenHash, hashToken(token))
+  ) {
+    throw new EventActionError(
+      "This organizer link is not valid.",
+      403,
+      "ORGANIZER_LINK_INVALID",
+    );
+  }
+  return event;
+}
+
+export async function updateEvent(
+  event: Event,
+  changes: EventChanges,
+  now = new Date(),
+) {
+  const startDate =
+    changes.startDate === undefined ? event.startDate : changes.startDate;
+  const endDate = changes.endDate === undefined ? event.endDate : changes.endDate;
+  const dateError = checkDateOrder(startDate, endDate);
+  if (dateError) {
+    throw new EventActionError(
+      dateError.error,
+      400,
+      dateError.code,
+      dateError.field,
+    );
+  }
+
+  const { closed, ...fields } = changes;
+  await event.update({
+    ...fields,
+    ...(closed === undefined
+      ? {}
+      : { closedAt: closed ? (event.closedAt ?? now) : null }),
+    ...(changes.endDate === undefined
+      ? {}
+      : { expiresAt: eventExpiry(endDate, event.createdAt) }),
+  });
+  return event;
+}
+
+export async function wipeEventScores(event: Event) {
+  const removed = await deleteEventScores(event.id);
+  const scopes = new Map(
+    removed
+      .filter((entry) => entry.status === "published")
+      .map((entry) => {
+        const scope = scoreScope(entry);
+        return [`${scope.board}:${scope.mode}:${scope.boardDate ?? ""}`, scope];
+      }),
+  );
+  scopes.forEach((scope) => announceBoardChange(scope));
+  return removed.length;
+}
@@ -0,0 +1,88 @@
+import { Op, type Transaction } from "sequelize";
+import { runExclusive } from "@/lib/db";
+import {
+  boardWhere,
+  ranksAhead,
+  scoreOrder,
+  type BoardScope,
+} from "@/lib/leaderboard";
+import { Player } from "@/models/Player";
+import { Score } from "@/models/Score";
+
+const CLIENT_ID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const readClientId = (value: unknown) =>
+  typeof value === "string" && CLIENT_ID_REGEX.test(value)
+    ? value.toLowerCase()
+    : null;
+
+export const serializePlayer = (player: Player) => ({
+  id: player.id,
+  clientId: player.clientId,
+  name: player.displayName,
+  emailVerified: Boolean(player.emailVerifiedAt),
+});
+
+export async function savePlayer(clientId: string, displayName: string) {
+  const [player, created] = await runExclusive(() =>
+    Player.findOrCreate({
+      where: { clientId },
+      defaults: { clientId, displayName },
+    }),
+  );
+  if (!created && player.displayName !== displayName) {
+    await player.update({ displayName });
+  }
+  return { player, created };
+}
+
+export const findPlayer = (clientId: string) =>
+  Player.findOne({ where: { clientId } });
+
+// Anonymous rows keep the default flag, so every legacy score still shows up
+// on the personal-best board as its own entry.
+export async function updatePersonalBest(
+  scope: BoardScope,
+  entry: Score,
+  transaction?: Transaction,
+) {
+  if (entry.playerId === null) return;
+  const previousBest = await Score.findOne({
+    where: {
+      ...boardWhere(scope),
+      playerId: entry.playerId,
+      isPersonalBest: true,
+      id: { [Op.ne]: entry.id },
+    },
+    transaction,
+  });
+  if (!previousBest) return;
+  if (ranksAhead(scope, entry, previousBest)) {
+    await previousBest.update({ isPersonalBest: false }, { transaction });
+    return;
+  }
+  await entry.update({ isPersonalBest: false }, { transaction });
+}
+
+export async function refreshPersonalBest(scope: BoardScope, playerId: number) {
+  await Score.update(
+    { isPersonalBest: false },
+    {
+      where: {
+        playerId,
+        board: scope.board,
+        mode: scope.mode,
+        boardDate: scope.boardDate,
+        eventId: scope.eventId,
+      },
+    },
+  );
+  const best = await Score.findOne({
+    where: { ...boardWhere(scope), playerId },
+    order: scoreOrder(scope),
+  });
+  if (best) {
+    await best.update({ isPersonalBest: true });
+  }
+}
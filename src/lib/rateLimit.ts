@@ -0,0 +1,156 @@
+import { ensureDb, runExclusive, sequelize } from "@/lib/db";
+import { RateLimitBucket } from "@/models/RateLimitBucket";
+
+export type RateLimitHit = {
+  count: number;
+  resetAt: number;
+};
+
+export type RateLimitStore = {
+  hit: (key: string, windowMs: number, now: number) => Promise<RateLimitHit>;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  retryAfterSeconds: number;
+};
+
+const MEMORY_PRUNE_SIZE = 5000;
+
+export const createMemoryStore = (): RateLimitStore => {
+  const buckets = new Map<string, { count: number; windowStart: number }>();
+  return {
+    hit: async (key, windowMs, now) => {
+      if (buckets.size > MEMORY_PRUNE_SIZE) {
+        buckets.forEach((bucket, bucketKey) => {
+          if (now - bucket.windowStart >= windowMs) buckets.delete(bucketKey);
+        });
+      }
+      const current = buckets.get(key);
+      const bucket =
+        current && now - current.windowStart < windowMs
+          ? { count: current.count + 1, windowStart: current.windowStart }
+          : { count: 1, windowStart: now };
+      buckets.set(key, bucket);
+      return { count: bucket.count, resetAt: bucket.windowStart + windowMs };
+    },
+  };
+};
+
+// The upsert and read share a transaction, which keeps the counter atomic
+// across serverless instances on both Postgres and SQLite.
+export const createDatabaseStore = (): RateLimitStore => ({
+  hit: async (key, windowMs, now) => {
+    await ensureDb();
+    const table = RateLimitBucket.getTableName();
+    const row = await runExclusive(() =>
+      sequelize.transaction(async (transaction) => {
+        await sequelize.query(
+          `INSERT INTO "${table}" ("key", "windowStart", "count", "createdAt", "updatedAt")
+           VALUES (:key, :now, 1, :now, :now)
+           ON CONFLICT ("key") DO UPDATE SET
+             "count" = CASE WHEN "${table}"."windowStart" <= :cutoff THEN 1 ELSE "${table}"."count" + 1 END,
+             "windowStart" = CASE WHEN "${table}"."windowStart" <= :cutoff THEN :now ELSE "${table}"."windowStart" END,
+             "updatedAt" = :now`,
+          {
+            transaction,
+            replacements: {
+              key,
+              now: new Date(now),
+              cutoff: new Date(now - windowMs),
+            },
+          },
+        );
+        return RateLimitBucket.findByPk(key, { transaction });
+      }),
+    );
+    return {
+      count: row?.count ?? 1,
+      resetAt: (row?.windowStart.getTime() ?? now) + windowMs,
+    };
+  },
+});
+
+const readPositiveInteger = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const SCORE_RATE_LIMIT = readPositiveInteger(
+  process.env.SCORE_RATE_LIMIT,
+  10,
+);
+export const SCORE_RATE_WINDOW_MS = readPositiveInteger(
+  process.env.SCORE_RATE_WINDOW_MS,
+  60_000,
+);
+
+const globalForRateLimit = globalThis as unknown as {
+  rateLimitStore?: RateLimitStore;
+};
+
+const createDefaultStore = () => {
+  const kind = process.env.RATE_LIMIT_STORE ?? "memory";
+  if (kind === "postgres" || kind === "database") return createDatabaseStore();
+  if (kind === "memory") return createMemoryStore();
+  throw new Error(`Unknown RATE_LIMIT_STORE "${kind}"`);
+};
+
+export const getRateLimitStore = () => {
+  globalForRateLimit.rateLimitStore ??= createDefaultStore();
+  return globalForRateLimit.rateLimitStore;
+};
+
+export const setRateLimitStore = (store: RateLimitStore | undefined) => {
+  globalForRateLimit.rateLimitStore = store;
+};
+
+const readProxyCount = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// Each trusted proxy appends the address it was called from, so the client
+// sits that many entries from the end of X-Forwarded-For. Anything further
+// left is whatever the client chose to send.
+export const TRUSTED_PROXY_COUNT = readProxyCount(
+  process.env.TRUSTED_PROXY_COUNT,
+  1,
+);
+
+export const clientIp = (
+  request: Request,
+  trustedProxies = TRUSTED_PROXY_COUNT,
+) => {
+  if (trustedProxies === 0) return "unknown";
+  const forwarded = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const ip =
+    forwarded.length > 0
+      ? forwarded[Math.max(0, forwarded.length - trustedProxies)]
+      : request.headers.get("x-real-ip");
+  return ip || "unknown";
+};
+
+export async function checkRateLimit(
+  keys: string[],
+  limit = SCORE_RATE_LIMIT,
+  windowMs = SCORE_RATE_WINDOW_MS,
+  now = Date.now(),
+): Promise<RateLimitResult> {
+  const store = getRateLimitStore();
+  const hits = await Promise.all(
+    keys.map((key) => store.hit(key, windowMs, now)),
+  );
+  const blocked = hits.filter((hit) => hit.count > limit);
+  if (blocked.length === 0) {
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+  const resetAt = Math.max(...blocked.map((hit) => hit.resetAt));
+  return {
+    allowed: false,
+    retryAfterSeconds: Math.max(1, Math.ceil((resetAt - now) / 1000)),
+  };
+}
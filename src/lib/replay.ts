@@ -0,0 +1,126 @@
+import {
+  DEFAULT_CONFIG,
+  POWER_UPS,
+  elapsedMs,
+  replayRound,
+  type EndReason,
+  type GameConfig,
+  type PopInput,
+  type PowerUp,
+} from "@/lib/game";
+
+export const MAX_INPUTS = 400;
+const CLOCK_SKEW_MS = 1000;
+
+export type RoundClaim = {
+  seed: number;
+  startedAt: number;
+  receivedAt: number;
+  candles: number;
+  points?: number;
+  powerUps?: Record<PowerUp, number>;
+  timeMs: number;
+  endReason: EndReason;
+  inputs: PopInput[];
+};
+
+export type RoundVerdict = {
+  reason: string;
+  details: Record<string, unknown>;
+};
+
+export const readInputLog = (value: unknown): PopInput[] | null => {
+  if (!Array.isArray(value) || value.length > MAX_INPUTS) return null;
+  const inputs: PopInput[] = [];
+  let lastAt = 0;
+  for (const item of value) {
+    if (typeof item !== "object" || item === null) return null;
+    const { candleId, atMs } = item as Record<string, unknown>;
+    if (
+      typeof candleId !== "string" ||
+      candleId.length > 16 ||
+      typeof atMs !== "number" ||
+      !Number.isInteger(atMs) ||
+      atMs < lastAt
+    ) {
+      return null;
+    }
+    inputs.push({ candleId, atMs });
+    lastAt = atMs;
+  }
+  return inputs;
+};
+
+export const readPowerUpCounts = (
+  value: unknown,
+): Record<PowerUp, number> | null => {
+  if (typeof value !== "object" || value === null) return null;
+  const counts = value as Record<string, unknown>;
+  if (Object.keys(counts).some((key) => !POWER_UPS.some((name) => name === key))) {
+    return null;
+  }
+  const result = { freeze: 0, shield: 0, magnet: 0 };
+  for (const powerUp of POWER_UPS) {
+    const count = counts[powerUp] ?? 0;
+    if (typeof count !== "number" || !Number.isInteger(count) || count < 0) {
+      return null;
+    }
+    result[powerUp] = count;
+  }
+  return result;
+};
+
+export const verifyRound = (
+  claim: RoundClaim,
+  config: GameConfig = DEFAULT_CONFIG,
+): RoundVerdict | null => {
+  const serverElapsedMs = claim.receivedAt - claim.startedAt;
+  if (claim.timeMs > serverElapsedMs + CLOCK_SKEW_MS) {
+    return {
+      reason: "clock_mismatch",
+      details: { timeMs: claim.timeMs, serverElapsedMs },
+    };
+  }
+
+  const replayed = replayRound(claim.seed, claim.inputs, config);
+  const replayedTimeMs = elapsedMs(replayed);
+  const details = {
+    claimed: {
+      candles: claim.candles,
+      points: claim.points ?? null,
+      powerUps: claim.powerUps ?? null,
+      timeMs: claim.timeMs,
+      endReason: claim.endReason,
+    },
+    replayed: {
+      candles: replayed.candlesPlaced,
+      points: replayed.points,
+      powerUps: replayed.powerUps,
+      timeMs: replayedTimeMs,
+      endReason: replayed.endReason,
+    },
+    inputs: claim.inputs.length,
+  };
+
+  if (replayed.endReason !== claim.endReason) {
+    return { reason: "replay_end_reason", details };
+  }
+  if (replayed.candlesPlaced !== claim.candles) {
+    return { reason: "replay_candles", details };
+  }
+  if (replayedTimeMs !== claim.timeMs) {
+    return { reason: "replay_time", details };
+  }
+  if (claim.points !== undefined && replayed.points !== claim.points) {
+    return { reason: "replay_points", details };
+  }
+  if (
+    claim.powerUps &&
+    POWER_UPS.some(
+      (powerUp) => claim.powerUps?.[powerUp] !== replayed.powerUps[powerUp],
+    )
+  ) {
+    return { reason: "replay_power_ups", details };
+  }
+  return null;
+};
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { SchemaOutOfDateError } from "@/lib/migrations";
+import { EventActionError } from "@/lib/organizers";
+import { RoomActionError } from "@/lib/rooms";
+
+export const serverErrorResponse = (error: unknown, message: string) => {
+  if (error instanceof SchemaOutOfDateError) {
+    return NextResponse.json(
+      { error: error.message, code: "SCHEMA_OUT_OF_DATE" },
+      { status: 503 },
+    );
+  }
+  return NextResponse.json(
+    { error: message, code: "SERVER_ERROR" },
+    { status: 500 },
+  );
+};
+
+const etagMatches = (header: string | null, etag: string) => {
+  if (!header) return false;
+  const weak = (value: string) => value.trim().replace(/^W\//, "");
+  return header
+    .split(",")
+    .some((value) => value.trim() === "*" || weak(value) === weak(etag));
+};
+
+// Clients always revalidate, so a cached page costs a 304 instead of a query.
+export const cachedJsonResponse = (
+  request: Request,
+  page: { body: string; etag: string },
+) => {
+  const headers = {
+    ETag: page.etag,
+    "Cache-Control": "public, no-cache",
+  };
+  if (etagMatches(request.headers.get("if-none-match"), page.etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  return new NextResponse(page.body, {
+    headers: { ...headers, "Content-Type": "application/json" },
+  });
+};
+
+export const roomErrorResponse = (error: unknown, message: string) => {
+  if (error instanceof RoomActionError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.status },
+    );
+  }
+  return serverErrorResponse(error, message);
+};
+
+export const eventErrorResponse = (error: unknown, message: string) => {
+  if (error instanceof EventActionError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code, field: error.field },
+      { status: error.status },
+    );
+  }
+  return serverErrorResponse(error, message);
+};
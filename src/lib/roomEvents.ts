@@ -0,0 +1,100 @@
+import { findRoom, serializeRoom } from "@/lib/rooms";
+
+export type RoomState = ReturnType<typeof serializeRoom>;
+
+type Listener = (state: RoomState | null) => void;
+
+type Channel = {
+  listeners: Set<Listener>;
+  state: RoomState | null;
+  key: string;
+  queue: Promise<unknown>;
+};
+
+// Rooms move from countdown to running to results on the clock, and other
+// instances write progress too, so watched rooms are re-read this often.
+const ROOM_POLL_MS = 1000;
+
+const globalForRooms = globalThis as unknown as {
+  roomEvents?: {
+    channels: Map<string, Channel>;
+    poller: ReturnType<typeof setInterval> | null;
+  };
+};
+
+const hub = (globalForRooms.roomEvents ??= {
+  channels: new Map<string, Channel>(),
+  poller: null,
+});
+
+const enqueue = <T>(channel: Channel, task: () => Promise<T>) => {
+  const run = channel.queue.then(task);
+  channel.queue = run.catch(() => undefined);
+  return run;
+};
+
+const refreshChannel = async (code: string, channel: Channel) => {
+  const loaded = await findRoom(code);
+  const state = loaded ? serializeRoom(loaded) : null;
+  const key = JSON.stringify(state);
+  if (key === channel.key) return;
+  channel.key = key;
+  channel.state = state;
+  channel.listeners.forEach((listener) => listener(state));
+};
+
+const refreshAll = () => {
+  hub.channels.forEach((channel, code) => {
+    enqueue(channel, () => refreshChannel(code, channel)).catch(
+      (error: unknown) => console.error("Unable to refresh room", error),
+    );
+  });
+};
+
+const closeChannel = (code: string, channel: Channel) => {
+  if (channel.listeners.size > 0 || hub.channels.get(code) !== channel) return;
+  hub.channels.delete(code);
+  if (hub.channels.size === 0 && hub.poller) {
+    clearInterval(hub.poller);
+    hub.poller = null;
+  }
+};
+
+export const announceRoomChange = (code: string) => {
+  const channel = hub.channels.get(code);
+  if (!channel) return;
+  enqueue(channel, () => refreshChannel(code, channel)).catch(
+    (error: unknown) => console.error("Unable to publish room change", error),
+  );
+};
+
+export async function subscribeToRoom(code: string, listener: Listener) {
+  let channel = hub.channels.get(code);
+  if (!channel) {
+    channel = {
+      listeners: new Set(),
+      state: null,
+      key: "",
+      queue: Promise.resolve(),
+    };
+    hub.channels.set(code, channel);
+  }
+  hub.poller ??= setInterval(refreshAll, ROOM_POLL_MS);
+
+  const current = channel;
+  try {
+    await enqueue(current, async () => {
+      if (!current.key) await refreshChannel(code, current);
+      listener(current.state);
+      current.listeners.add(listener);
+    });
+  } catch (error) {
+    closeChannel(code, current);
+    throw error;
+  }
+
+  return () => {
+    current.listeners.delete(listener);
+    closeChannel(code, current);
+  };
+}
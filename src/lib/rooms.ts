@@ -0,0 +1,306 @@
+import crypto from "crypto";
+import { Op, UniqueConstraintError } from "sequelize";
+import type { ApiErrorCode } from "@/lib/apiErrors";
+import { DEFAULT_CONFIG, type EndReason, type PopInput } from "@/lib/game";
+import { verifyRound } from "@/lib/replay";
+import type { Player } from "@/models/Player";
+import { Room, type RoomStatus } from "@/models/Room";
+import { RoomParticipant } from "@/models/RoomParticipant";
+
+const ROOM_CODE_LENGTH = 5;
+const ROOM_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const ROOM_CODE_ATTEMPTS = 5;
+export const ROOM_MAX_PLAYERS = 12;
+export const ROOM_COUNTDOWN_MS = 3000;
+// Results wait past the buzzer, plus any time freezes added, so late final
+// submissions still count.
+const ROOM_RESULTS_GRACE_MS = 5000;
+
+export class RoomActionError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code: ApiErrorCode,
+  ) {
+    super(message);
+    this.name = "RoomActionError";
+  }
+}
+
+export type LoadedRoom = {
+  room: Room;
+  participants: RoomParticipant[];
+};
+
+export type RoomResult = {
+  candles: number;
+  timeMs: number;
+  endReason: EndReason;
+  inputs: PopInput[];
+};
+
+export const readRoomCode = (value: unknown) => {
+  if (typeof value !== "string") return null;
+  const code = value.trim().toUpperCase();
+  return code.length === ROOM_CODE_LENGTH &&
+    Array.from(code).every((char) => ROOM_CODE_ALPHABET.includes(char))
+    ? code
+    : null;
+};
+
+const generateCode = () =>
+  Array.from(
+    { length: ROOM_CODE_LENGTH },
+    () => ROOM_CODE_ALPHABET[crypto.randomInt(ROOM_CODE_ALPHABET.length)],
+  ).join("");
+
+export const roomPhase = (
+  room: Room,
+  participants: RoomParticipant[],
+  now: number,
+): RoomStatus => {
+  if (!room.startsAt) return "lobby";
+  const startsAt = room.startsAt.getTime();
+  if (now < startsAt) return "countdown";
+  const everyoneFinished = participants.every(
+    (participant) => participant.finishedAt !== null,
+  );
+  if (
+    !everyoneFinished &&
+    now <
+      startsAt +
+        DEFAULT_CONFIG.gameMs +
+        DEFAULT_CONFIG.maxFreezeMs +
+        ROOM_RESULTS_GRACE_MS
+  ) {
+    return "running";
+  }
+  return "results";
+};
+
+// Same ordering as the global board; players still mid-round sort by
+// their live candle count.
+const rankParticipants = (participants: RoomParticipant[]) =>
+  [...participants].sort(
+    (a, b) =>
+      b.candles - a.candles ||
+      (a.timeMs ?? Number.MAX_SAFE_INTEGER) -
+        (b.timeMs ?? Number.MAX_SAFE_INTEGER) ||
+      a.id - b.id,
+  );
+
+export const serializeRoom = ({ room, participants }: LoadedRoom) => ({
+  code: room.code,
+  status: room.status,
+  hostPlayerId: room.hostPlayerId,
+  seed: room.status === "lobby" ? null : room.seed,
+  startsAt: room.startsAt?.toISOString() ?? null,
+  endsAt: room.startsAt
+    ? new Date(room.startsAt.getTime() + DEFAULT_CONFIG.gameMs).toISOString()
+    : null,
+  maxPlayers: ROOM_MAX_PLAYERS,
+  participants: rankParticipants(participants).map((participant, index) => ({
+    rank: index + 1,
+    playerId: participant.playerId,
+    name: participant.name,
+    candles: participant.candles,
+    timeMs: participant.timeMs,
+    endReason: participant.endReason,
+    finished: participant.finishedAt !== null,
+  })),
+});
+
+export async function findRoom(
+  code: string,
+  now = new Date(),
+): Promise<LoadedRoom | null> {
+  const room = await Room.findOne({ where: { code } });
+  if (!room) return null;
+  const participants = await RoomParticipant.findAll({
+    where: { roomId: room.id },
+    order: [["id", "ASC"]],
+  });
+  const status = roomPhase(room, participants, now.getTime());
+  if (status !== room.status) {
+    await room.update({ status });
+  }
+  return { room, participants };
+}
+
+export async function requireRoom(code: string, now = new Date()) {
+  const loaded = await findRoom(code, now);
+  if (!loaded) {
+    throw new RoomActionError("Room not found.", 404, "ROOM_NOT_FOUND");
+  }
+  return loaded;
+}
+
+const requireParticipant = ({ participants }: LoadedRoom, player: Player) => {
+  const participant = participants.find(
+    (entry) => entry.playerId === player.id,
+  );
+  if (!participant) {
+    throw new RoomActionError(
+      "Join the room first.",
+      403,
+      "ROOM_JOIN_REQUIRED",
+    );
+  }
+  return participant;
+};
+
+export async function createRoom(host: Player) {
+  for (let attempt = 0; attempt < ROOM_CODE_ATTEMPTS; attempt += 1) {
+    try {
+      const room = await Room.create({
+        code: generateCode(),
+        hostPlayerId: host.id,
+      });
+      await RoomParticipant.create({
+        roomId: room.id,
+        playerId: host.id,
+        name: host.displayName,
+      });
+      return requireRoom(room.code);
+    } catch (error) {
+      if (!(error instanceof UniqueConstraintError)) throw error;
+    }
+  }
+  throw new RoomActionError(
+    "Unable to pick a room code. Try again.",
+    503,
+    "ROOM_CODE_UNAVAILABLE",
+  );
+}
+
+export async function joinRoom(loaded: LoadedRoom, player: Player) {
+  const existing = loaded.participants.find(
+    (entry) => entry.playerId === player.id,
+  );
+  if (existing) {
+    if (existing.name !== player.displayName) {
+      await existing.update({ name: player.displayName });
+    }
+    return;
+  }
+  if (loaded.room.status !== "lobby") {
+    throw new RoomActionError(
+      "This round has already started.",
+      409,
+      "ROOM_STARTED",
+    );
+  }
+  if (loaded.participants.length >= ROOM_MAX_PLAYERS) {
+    throw new RoomActionError("This room is full.", 409, "ROOM_FULL");
+  }
+  try {
+    await RoomParticipant.create({
+      roomId: loaded.room.id,
+      playerId: player.id,
+      name: player.displayName,
+    });
+  } catch (error) {
+    // A double-tapped join already added this player.
+    if (!(error instanceof UniqueConstraintError)) throw error;
+  }
+}
+
+export async function startRoom(
+  loaded: LoadedRoom,
+  player: Player,
+  now = new Date(),
+) {
+  if (loaded.room.hostPlayerId !== player.id) {
+    throw new RoomActionError(
+      "Only the host can start the round.",
+      403,
+      "ROOM_HOST_ONLY",
+    );
+  }
+  const [started] = await Room.update(
+    {
+      status: "countdown",
+      seed: crypto.randomInt(0, 0x7fffffff),
+      startsAt: new Date(now.getTime() + ROOM_COUNTDOWN_MS),
+    },
+    { where: { id: loaded.room.id, status: "lobby" } },
+  );
+  if (started === 0) {
+    throw new RoomActionError(
+      "This round has already started.",
+      409,
+      "ROOM_STARTED",
+    );
+  }
+}
+
+export async function recordProgress(
+  loaded: LoadedRoom,
+  player: Player,
+  candles: number,
+) {
+  const participant = requireParticipant(loaded, player);
+  if (loaded.room.status !== "running") {
+    throw new RoomActionError(
+      "The round is not running.",
+      409,
+      "ROOM_NOT_RUNNING",
+    );
+  }
+  await RoomParticipant.update(
+    { candles },
+    {
+      where: {
+        id: participant.id,
+        finishedAt: null,
+        candles: { [Op.lt]: candles },
+      },
+    },
+  );
+}
+
+export async function finishRound(
+  loaded: LoadedRoom,
+  player: Player,
+  result: RoomResult,
+  now = new Date(),
+) {
+  const participant = requireParticipant(loaded, player);
+  const { room } = loaded;
+  if (room.status !== "running" || !room.startsAt || room.seed === null) {
+    throw new RoomActionError(
+      "The round is not running.",
+      409,
+      "ROOM_NOT_RUNNING",
+    );
+  }
+  const verdict = verifyRound({
+    seed: room.seed,
+    startedAt: room.startsAt.getTime(),
+    receivedAt: now.getTime(),
+    ...result,
+  });
+  if (verdict) {
+    throw new RoomActionError(
+      "This round could not be verified.",
+      422,
+      "ROUND_UNVERIFIED",
+    );
+  }
+  const [finished] = await RoomParticipant.update(
+    {
+      candles: result.candles,
+      timeMs: result.timeMs,
+      endReason: result.endReason,
+      finishedAt: now,
+    },
+    { where: { id: participant.id, finishedAt: null } },
+  );
+  if (finished === 0) {
+    throw new RoomActionError(
+      "You already finished this round.",
+      409,
+      "ROOM_FINISHED",
+    );
+  }
+}
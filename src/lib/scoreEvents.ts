@@ -0,0 +1,203 @@
+import {
+  findTopScores,
+  serializeScore,
+  type BoardScope,
+} from "@/lib/leaderboard";
+import { invalidateLeaderboard } from "@/lib/leaderboardCache";
+
+type BoardEntry = ReturnType<typeof serializeScore>;
+
+export type BoardEvent = {
+  id: number;
+  type: "snapshot" | "update";
+  data: {
+    board: BoardScope["board"];
+    mode: BoardScope["mode"];
+    date: string | null;
+    scores: BoardEntry[];
+    added: BoardEntry[];
+    removed: number[];
+    moved: { id: number; from: number; to: number }[];
+  };
+};
+
+type Listener = (event: BoardEvent) => void;
+
+type Channel = {
+  scope: BoardScope;
+  listeners: Set<Listener>;
+  scores: BoardEntry[] | null;
+  events: BoardEvent[];
+  // Events at or below this id were never buffered (or were dropped), so a
+  // client that last saw one of them needs a fresh snapshot.
+  floor: number;
+  queue: Promise<unknown>;
+};
+
+const EVENT_BUFFER_SIZE = 100;
+
+// Writes on other instances never reach this hub, so open channels also
+// re-read their board on a timer.
+const BOARD_POLL_MS = 15_000;
+
+const globalForEvents = globalThis as unknown as {
+  scoreEvents?: {
+    lastId: number;
+    channels: Map<string, Channel>;
+    poller: ReturnType<typeof setInterval> | null;
+  };
+};
+
+const hub = (globalForEvents.scoreEvents ??= {
+  lastId: 0,
+  channels: new Map<string, Channel>(),
+  poller: null,
+});
+
+const channelKey = (scope: BoardScope) =>
+  `${scope.eventId ?? ""}:${scope.board}:${scope.mode}:${scope.boardDate ?? ""}`;
+
+const enqueue = <T>(channel: Channel, task: () => Promise<T>) => {
+  const run = channel.queue.then(task);
+  channel.queue = run.catch(() => undefined);
+  return run;
+};
+
+const loadScores = async (scope: BoardScope) =>
+  (await findTopScores(scope)).map(serializeScore);
+
+const diffBoards = (previous: BoardEntry[], next: BoardEntry[]) => {
+  const previousRanks = new Map(
+    previous.map((entry, index) => [entry.id, index + 1]),
+  );
+  const nextIds = new Set(next.map((entry) => entry.id));
+  return {
+    added: next.filter((entry) => !previousRanks.has(entry.id)),
+    removed: previous
+      .filter((entry) => !nextIds.has(entry.id))
+      .map((entry) => entry.id),
+    moved: next.flatMap((entry, index) => {
+      const from = previousRanks.get(entry.id);
+      return from !== undefined && from !== index + 1
+        ? [{ id: entry.id, from, to: index + 1 }]
+        : [];
+    }),
+  };
+};
+
+const refreshChannel = async (channel: Channel) => {
+  const scores = await loadScores(channel.scope);
+  const previous = channel.scores;
+  channel.scores = scores;
+  if (!previous || JSON.stringify(previous) === JSON.stringify(scores)) return;
+
+  const event: BoardEvent = {
+    id: ++hub.lastId,
+    type: "update",
+    data: {
+      board: channel.scope.board,
+      mode: channel.scope.mode,
+      date: channel.scope.boardDate,
+      scores,
+      ...diffBoards(previous, scores),
+    },
+  };
+  channel.events.push(event);
+  if (channel.events.length > EVENT_BUFFER_SIZE) {
+    const dropped = channel.events.shift();
+    if (dropped) channel.floor = dropped.id;
+  }
+  channel.listeners.forEach((listener) => listener(event));
+};
+
+const refreshAll = () => {
+  hub.channels.forEach((channel) => {
+    enqueue(channel, () => refreshChannel(channel)).catch((error: unknown) =>
+      console.error("Unable to refresh live scoreboard", error),
+    );
+  });
+};
+
+const closeChannel = (key: string, channel: Channel) => {
+  if (channel.listeners.size > 0 || hub.channels.get(key) !== channel) return;
+  hub.channels.delete(key);
+  if (hub.channels.size === 0 && hub.poller) {
+    clearInterval(hub.poller);
+    hub.poller = null;
+  }
+};
+
+// Clears cached pages and pushes the new Top 10 to anyone watching.
+export const announceBoardChange = (scope: BoardScope) => {
+  invalidateLeaderboard(scope);
+  const channel = hub.channels.get(channelKey(scope));
+  // Nobody is watching, but the next channel's floor must land above every
+  // id a returning client saw before this change.
+  if (!channel) {
+    hub.lastId += 1;
+    return;
+  }
+  enqueue(channel, () => refreshChannel(channel)).catch((error: unknown) =>
+    console.error("Unable to publish board change", error),
+  );
+};
+
+export async function subscribeToBoard(
+  scope: BoardScope,
+  lastEventId: number | null,
+  listener: Listener,
+) {
+  const key = channelKey(scope);
+  let channel = hub.channels.get(key);
+  if (!channel) {
+    channel = {
+      scope,
+      listeners: new Set(),
+      scores: null,
+      events: [],
+      floor: hub.lastId,
+      queue: Promise.resolve(),
+    };
+    hub.channels.set(key, channel);
+  }
+  hub.poller ??= setInterval(refreshAll, BOARD_POLL_MS);
+
+  const current = channel;
+  try {
+    await enqueue(current, async () => {
+      current.scores ??= await loadScores(scope);
+      const canReplay =
+        lastEventId !== null &&
+        lastEventId >= current.floor &&
+        lastEventId <= hub.lastId;
+      if (canReplay) {
+        current.events
+          .filter((event) => event.id > lastEventId)
+          .forEach(listener);
+      } else {
+        listener({
+          id: hub.lastId,
+          type: "snapshot",
+          data: {
+            board: scope.board,
+            mode: scope.mode,
+            date: scope.boardDate,
+            scores: current.scores,
+            added: [],
+            removed: [],
+            moved: [],
+          },
+        });
+      }
+      current.listeners.add(listener);
+    });
+  } catch (error) {
+    closeChannel(key, current);
+    throw error;
+  }
+
+  return () => {
+    current.listeners.delete(listener);
+    closeChannel(key, current);
+  };
+}
@@ -0,0 +1,119 @@
+import crypto from "crypto";
+import { Op, type Transaction } from "sequelize";
+import type { AccessMode } from "@/lib/accessibility";
+import { dailySeed, toDateKey, type Board } from "@/lib/boards";
+import type { GameMode } from "@/lib/modes";
+import { GameSession } from "@/models/GameSession";
+
+export const SESSION_TTL_MS = 10 * 60 * 1000;
+
+type SessionPayload = {
+  id: string;
+  startedAt: number;
+};
+
+const globalForSessions = globalThis as unknown as {
+  sessionSecret?: string;
+};
+
+// Without SESSION_SECRET tokens are signed with a per-process key, so they
+// only verify on the instance that issued them.
+const sessionSecret =
+  process.env.SESSION_SECRET ??
+  globalForSessions.sessionSecret ??
+  crypto.randomBytes(32).toString("hex");
+
+globalForSessions.sessionSecret = sessionSecret;
+
+const sign = (value: string) =>
+  crypto.createHmac("sha256", sessionSecret).update(value).digest("base64url");
+
+const encodeToken = (payload: SessionPayload) => {
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${body}.${sign(body)}`;
+};
+
+export const readSessionToken = (value: unknown): SessionPayload | null => {
+  if (typeof value !== "string") return null;
+  const [body, signature, ...rest] = value.split(".");
+  if (!body || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(body));
+  const received = Buffer.from(signature);
+  if (
+    expected.length !== received.length ||
+    !crypto.timingSafeEqual(expected, received)
+  ) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString()) as
+      | Partial<SessionPayload>
+      | null;
+    if (
+      typeof payload?.id !== "string" ||
+      typeof payload.startedAt !== "number"
+    ) {
+      return null;
+    }
+    return { id: payload.id, startedAt: payload.startedAt };
+  } catch {
+    return null;
+  }
+};
+
+export async function issueSession(
+  board: Board = "classic",
+  mode: GameMode = "classic",
+  eventId: number | null = null,
+  accessMode: AccessMode | null = null,
+) {
+  const startedAt = new Date();
+  const boardDate = board === "daily" ? toDateKey(startedAt) : null;
+  const session = await GameSession.create({
+    seed: boardDate ? dailySeed(boardDate) : crypto.randomInt(0, 0x7fffffff),
+    board,
+    mode,
+    boardDate,
+    eventId,
+    accessMode,
+    startedAt,
+    expiresAt: new Date(startedAt.getTime() + SESSION_TTL_MS),
+  });
+  return {
+    token: encodeToken({ id: session.id, startedAt: startedAt.getTime() }),
+    seed: session.seed,
+    board: session.board,
+    mode: session.mode,
+    accessMode: session.accessMode,
+    boardDate: session.boardDate,
+    startedAt: session.startedAt,
+    expiresAt: session.expiresAt,
+  };
+}
+
+export async function findOpenSession(id: string, now = new Date()) {
+  const session = await GameSession.findByPk(id);
+  if (!session || session.usedAt || session.expiresAt <= now) return null;
+  return session;
+}
+
+export async function claimSession(
+  id: string,
+  now = new Date(),
+  transaction?: Transaction,
+) {
+  const [claimed] = await GameSession.update(
+    { usedAt: now },
+    {
+      where: {
+        id,
+        usedAt: null,
+        expiresAt: { [Op.gt]: now },
+      },
+      transaction,
+    },
+  );
+  return claimed > 0;
+}
@@ -0,0 +1,93 @@
+import crypto from "crypto";
+import { Op } from "sequelize";
+import { scoreScope } from "@/lib/leaderboard";
+import { getMailTransport } from "@/lib/mail";
+import { updatePersonalBest } from "@/lib/players";
+import { announceBoardChange } from "@/lib/scoreEvents";
+import { EmailVerification } from "@/models/EmailVerification";
+import { Player } from "@/models/Player";
+import { Score } from "@/models/Score";
+
+export const VERIFICATION_TTL_MS = 48 * 60 * 60 * 1000;
+
+const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+export async function sendScoreVerification(
+  score: Score,
+  email: string,
+  appUrl: string,
+) {
+  const token = crypto.randomBytes(32).toString("base64url");
+  await EmailVerification.create({
+    scoreId: score.id,
+    email,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + VERIFICATION_TTL_MS),
+  });
+
+  const link = new URL("/api/scores/verify", appUrl);
+  link.searchParams.set("token", token);
+  await getMailTransport().send({
+    to: email,
+    subject: "Confirm your Candle Dash Top 10 score",
+    text: [
+      `Hi ${score.name},`,
+      "",
+      `Your ${score.candles} candle round made the Top 10!`,
+      "Open this link to confirm your email and put it on the board:",
+      link.toString(),
+      "",
+      "The link works once and expires in 48 hours.",
+    ].join("\n"),
+  });
+}
+
+// Only the address a pending score was saved with can ask for a new link.
+export async function resendScoreVerification(
+  scoreId: number,
+  email: string,
+  appUrl: string,
+) {
+  const score = await Score.findOne({
+    where: { id: scoreId, email, status: "pending" },
+  });
+  if (!score) return null;
+  await sendScoreVerification(score, email, appUrl);
+  return score;
+}
+
+export async function confirmScoreVerification(token: string, now = new Date()) {
+  const verification = await EmailVerification.findOne({
+    where: {
+      tokenHash: hashToken(token),
+      usedAt: null,
+      expiresAt: { [Op.gt]: now },
+    },
+  });
+  if (!verification) return null;
+
+  const score = await Score.findByPk(verification.scoreId);
+  if (!score) return null;
+
+  // Two clicks on the same link can both get this far; only the one that
+  // marks it used goes on to publish.
+  const [claimed] = await EmailVerification.update(
+    { usedAt: now },
+    { where: { id: verification.id, usedAt: null } },
+  );
+  if (claimed !== 1) return null;
+  if (score.status === "pending") {
+    await score.update({ status: "published", isPersonalBest: true });
+    const scope = scoreScope(score);
+    await updatePersonalBest(scope, score);
+    announceBoardChange(scope);
+  }
+  if (score.playerId !== null) {
+    await Player.update(
+      { email: verification.email, emailVerifiedAt: now },
+      { where: { id: score.playerId } },
+    );
+  }
+  return score;
+}
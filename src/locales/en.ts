@@ -0,0 +1,443 @@
+// Keys are flat and dotted. `{name}` marks a parameter; keys ending in
+// `.one` / `.other` are plural forms picked with Intl.PluralRules.
+export const en = {
+  "language.label": "Language",
+
+  "hero.kicker": "Happy Birthday {honoree}",
+  "hero.title": "Candle Dash Celebration",
+  "hero.subtitle":
+    "Click the dancing candles to place them on {honoree}'s cake. Reach {target} candles before the timer runs out. Golden candles just sparkle extra bright.",
+
+  "event.upcoming": "The cake opens on {date}. Check back then!",
+  "event.closed":
+    "The organizer has closed this leaderboard. Thanks for celebrating!",
+  "event.over": "This birthday wrapped up on {date}. Thanks for celebrating!",
+
+  "board.label": "Game mode",
+  "board.classic": "Classic",
+  "board.daily": "Daily Cake",
+  "board.dailyNote": "Same cake for everyone today.",
+  "board.nextDaily": "Next Daily Cake in {countdown}",
+
+  "mode.label": "Difficulty",
+  "mode.kids": "Kids",
+  "mode.classic": "Classic",
+  "mode.inferno": "Inferno",
+  "mode.attack": "Score Attack",
+  "mode.roundLength": "{seconds} rounds",
+
+  "a11y.label": "Accessibility",
+  "a11y.enabled": "Accessible play",
+  "a11y.highContrast": "High contrast",
+  "a11y.extended": "Candles stay {factor}x longer",
+  "a11y.note":
+    "Still motion, spoken updates, and your scores are tagged accessible.",
+
+  "stats.timeLeft": "Time Left",
+  "stats.candles": "Candles",
+  "stats.streak": "Streak",
+  "stats.streakValue": "{combo}x",
+  "stats.bestPoints": "Best Points",
+  "stats.bestCandles": "Best Candles",
+
+  "hud.time": "Time",
+  "hud.frozen": "Frozen",
+  "hud.candles": "Candles",
+  "hud.streak": "Streak",
+  "hud.shield": "Shield",
+  "hud.points": "Points",
+
+  "actions.starting": "Lighting...",
+  "actions.start": "Start the Party",
+  "actions.playAgain": "Play Again",
+  "actions.reset": "Reset",
+  "actions.partyRoom": "Party Room",
+  "actions.newBirthday": "New Birthday",
+  "actions.cancel": "Cancel",
+  "actions.saving": "Saving...",
+
+  "status.idle": "Ready",
+  "status.running": "GO!",
+  "status.bomb": "Boom!",
+  "status.candles": "Sweet!",
+  "status.time": "Done",
+
+  "rules.pop":
+    "Every pop places a candle on the cake. Hit {target} to finish early.",
+  "rules.golden": "Golden candles are bonus sparkle, not bonus points.",
+  "rules.goldenPoints": "Golden candles add {points} bonus points.",
+  "rules.bomb": "Bombs end the round early, so dodge them.",
+  "rules.bombPoints": "Bombs cost {points} points and end the round.",
+  "rules.powerUps":
+    "Blue freezes the timer, green shields you from one bomb, and the magnet pops the candles around it.",
+  "rules.streak": "Keep a streak going to stay in the groove.",
+  "rules.streakPoints": "Each pop scores {points} points times your streak.",
+
+  "scores.title": "Top 10 Scores",
+  "scores.dailyTitle": "Daily Cake Top 10",
+  "scores.placed": "{placed}/{target} placed",
+  "scores.viewLabel": "Scoreboard view",
+  "scores.all": "All rounds",
+  "scores.best": "Personal bests",
+  "scores.loading": "Loading scoreboard...",
+  "scores.empty": "Be the first to light up the board.",
+  "scores.accessible": "Accessible",
+  "scores.accessibleTitle": "Accessible play",
+  "scores.extended": "Accessible+",
+  "scores.extendedTitle": "Accessible play with longer-lasting candles",
+  "scores.points": "{points} pts",
+  "scores.candles.one": "{count} candle",
+  "scores.candles.other": "{count} candles",
+
+  "powerUps.collected": "Power-ups collected: {list}.",
+  "powerUps.none": "No power-ups this round.",
+  "powerUps.freeze.one": "{count} freeze",
+  "powerUps.freeze.other": "{count} freezes",
+  "powerUps.shield.one": "{count} shield",
+  "powerUps.shield.other": "{count} shields",
+  "powerUps.magnet.one": "{count} magnet",
+  "powerUps.magnet.other": "{count} magnets",
+
+  "form.submittingAs": "Submitting as",
+  "form.noName": "No name yet",
+  "form.changeName": "Change name",
+  "form.setName": "Set name",
+  "form.save": "Save Score",
+  "form.needName": "Set your name to save a score.",
+  "form.needEmail": "Top 10 scores need a confirmed email to submit.",
+  "form.ready": "Save your candles and time to celebrate {honoree}.",
+  "form.locked": "Finish a round to unlock score saving.",
+
+  "placement.rank": "You placed #{rank} of {total}",
+  "placement.top": "{placed} — top of the cake!",
+  "placement.points": "{placed} — {gap} points from #{rank}",
+  "placement.candles.one": "{placed} — {count} candle from #{rank}",
+  "placement.candles.other": "{placed} — {count} candles from #{rank}",
+  "placement.time": "{placed} — {time} from #{rank}",
+  "placement.percentile":
+    "Better than or equal to {percentile}% of rounds on this board.",
+
+  "message.verified": "Email confirmed! Your Top 10 score is on the board.",
+  "message.pending":
+    "Almost there! Open the link we sent to {email} to put this score on the board.",
+  "message.pendingUnsent":
+    "Your score is saved, but we couldn't email {email}. Send the link again to put it on the board.",
+  "message.resent": "We sent a new link to {email}.",
+  "message.madeBoard": "Score saved! You made the Top 10.",
+  "message.autoSaved": "Score saved automatically!",
+  "message.saved": "Score saved! The cake is officially legendary.",
+
+  "error.verifyLink": "That confirmation link is invalid or has expired.",
+  "error.saveName": "Unable to save your name.",
+  "error.pickName": "Please pick another name.",
+  "error.startRound": "Unable to start a round.",
+  "error.submit": "Unable to submit score.",
+  "error.resend": "Unable to send the confirmation email.",
+
+  "verification.resend": "Send the link again",
+  "verification.resending": "Sending...",
+
+  footer: "Built with confetti, cake, and birthday wishes for {honoree}.",
+
+  "nameModal.title": "Add your name",
+  "nameModal.text": "We'll save your candle count and time under this name.",
+  "nameModal.placeholder": "Your name",
+  "nameModal.save": "Save name",
+  "nameModal.empty": "Please enter a name.",
+
+  "emailModal.title": "Top 10 email",
+  "emailModal.text":
+    "This score is Top 10 worthy. Add an email and we'll send a link to confirm it before it goes on the board.",
+  "emailModal.save": "Save email",
+  "emailModal.invalid": "Please enter a valid email.",
+
+  "candle.plain": "Birthday candle",
+  "candle.golden": "Golden candle, extra sparkle",
+  "candle.bomb": "Bomb, ends the round",
+  "candle.freeze": "Freeze candle, pauses the timer",
+  "candle.shield": "Shield candle, absorbs one bomb",
+  "candle.magnet": "Magnet candle, pops nearby candles",
+  "candle.label": "{candle}, {position}",
+
+  "spawn.plain": "candle",
+  "spawn.golden": "golden candle",
+  "spawn.bomb": "bomb",
+  "spawn.freeze": "freeze candle",
+  "spawn.shield": "shield candle",
+  "spawn.magnet": "magnet candle",
+
+  "position.top.left": "top left",
+  "position.top.center": "top center",
+  "position.top.right": "top right",
+  "position.middle.left": "middle left",
+  "position.middle.center": "center",
+  "position.middle.right": "middle right",
+  "position.bottom.left": "bottom left",
+  "position.bottom.center": "bottom center",
+  "position.bottom.right": "bottom right",
+
+  "announce.started": "Round started. Place {target} candles.",
+  "announce.placed.one": "{count} candle placed, {placed} of {target}.",
+  "announce.placed.other": "{count} candles placed, {placed} of {target}.",
+  "announce.freeze": "Freeze! The timer is paused.",
+  "announce.shield": "Shield ready for the next bomb.",
+  "announce.magnet": "Magnet pulled in nearby candles.",
+  "announce.shieldBlocked": "Your shield blocked a bomb.",
+  "announce.streak": "{combo}x streak!",
+  "announce.streakLost": "Streak lost.",
+  "announce.spawned": "New: {list}.",
+  "announce.spawnedCandle": "{candle} {position}",
+  "announce.secondsLeft.one": "{count} second left.",
+  "announce.secondsLeft.other": "{count} seconds left.",
+  "announce.bomb": "Boom! A bomb ended the round.",
+  "announce.candles": "The cake is full! Round complete.",
+  "announce.time": "Time's up!",
+  "announce.total.one": "{count} candle placed.",
+  "announce.total.other": "{count} candles placed.",
+  "announce.target": "Target: {candle}, {position}.",
+
+  "controls.title": "Controls",
+  "controls.playingWith": " · playing with {method}",
+  "controls.hint":
+    "Tap or click candles, press a candle's number, or move the target ring and pop it. Pick a control, then press the new key or gamepad button. Escape cancels.",
+  "controls.action": "Action",
+  "controls.key": "Key",
+  "controls.gamepad": "Gamepad",
+  "controls.pressKey": "Press a key...",
+  "controls.pressButton": "Press a button...",
+  "controls.changeKey": "{action} key: {key}. Change",
+  "controls.changeButton": "{action} gamepad: {button}. Change",
+  "controls.slots": "Candle number keys",
+  "controls.changeSlot": "Candle {slot} key: {key}. Change",
+  "controls.reset": "Reset controls",
+  "controls.up": "Target up",
+  "controls.down": "Target down",
+  "controls.left": "Target left",
+  "controls.right": "Target right",
+  "controls.pop": "Pop target",
+
+  "input.pointer": "Mouse",
+  "input.touch": "Touch",
+  "input.keyboard": "Keyboard",
+  "input.gamepad": "Gamepad",
+
+  "key.space": "Space",
+  "key.ArrowUp": "Up arrow",
+  "key.ArrowDown": "Down arrow",
+  "key.ArrowLeft": "Left arrow",
+  "key.ArrowRight": "Right arrow",
+  "key.button": "Button {index}",
+
+  "nav.backToCake": "← Back to the cake",
+  "nav.backToEvent": "← Back to the event",
+  "nav.partyRooms": "← Party rooms",
+
+  "party.title": "Party Room",
+  "party.intro":
+    "Everyone plays the same candles at the same moment. Share the room code, then the host starts the round.",
+  "party.name": "Your name",
+  "party.namePlaceholder": "Party guest",
+  "party.host": "Host a new room",
+  "party.code": "Room code",
+  "party.join": "Join room",
+  "party.error.open": "Unable to open the room.",
+
+  "room.title": "Room",
+  "room.lobby":
+    "Share this code or link with the guests. {joined}/{max} joined.",
+  "room.start": "Start the round",
+  "room.waitingForHost": "Waiting for the host to start…",
+  "room.waitingForOthers": "Nice round! Waiting for everyone else to finish…",
+  "room.inProgress": "Round in progress.",
+  "room.results": "Room results",
+  "room.players": "Players",
+  "room.hostTag": "{name} (host)",
+  "room.liveTally": "Live tally",
+  "room.end.playing": "Still playing",
+  "room.end.bomb": "Boom!",
+  "room.end.candles": "Full cake",
+  "room.end.time": "Time",
+  "room.resultsNote":
+    "Room rounds stay in the room and are not added to the global leaderboard.",
+  "room.another": "Start another room",
+  "room.closed": "This room has closed.",
+  "room.error.join": "Unable to join the room.",
+  "room.error.start": "Unable to start the round.",
+  "room.error.save": "Unable to save your round.",
+
+  "theme.party": "Party",
+  "theme.pastel": "Pastel",
+  "theme.ocean": "Ocean",
+
+  "eventForm.honoree": "Birthday person",
+  "eventForm.theme": "Theme",
+  "eventForm.startDate": "Opens on",
+  "eventForm.endDate": "Closes after",
+  "eventForm.message": "Message for guests",
+  "eventForm.optional": "{label} (optional)",
+
+  "newEvent.title": "Start a birthday cake",
+  "newEvent.intro":
+    "Make a Candle Dash page for anyone's birthday. Guests pop one candle for every year, and the page gets its own leaderboard.",
+  "newEvent.age": "Turning",
+  "newEvent.slug": "Page link",
+  "newEvent.slugHint":
+    "Your page will live at /e/{slug}. Leave it blank to use the suggestion.",
+  "newEvent.messagePlaceholder": "Beat my score before the cake gets cut!",
+  "newEvent.retention":
+    "Pages are removed 30 days after they close, or 90 days after they are made if they have no closing date.",
+  "newEvent.creating": "Baking...",
+  "newEvent.create": "Create the page",
+  "newEvent.ready": "{honoree}'s cake is ready!",
+  "newEvent.share": "Share with guests",
+  "newEvent.open": "Open the game",
+  "newEvent.copy": "Copy link",
+  "newEvent.organizerTitle": "Your organizer link",
+  "newEvent.organizerNote":
+    "Keep this one to yourself. It is the only way to edit the event, close the leaderboard or clear test scores, and we can't send it again.",
+  "newEvent.copyOrganizer": "Copy organizer link",
+  "newEvent.error": "Unable to create the event.",
+
+  "manage.title": "Manage {honoree}'s cake",
+  "manage.titleLoading": "Manage event",
+  "manage.needToken":
+    "Open this page from your organizer link to make changes.",
+  "manage.details": "Event details",
+  "manage.ageNote":
+    "Turning {age}. The age sets the candle count, so it can't be changed once guests have played.",
+  "manage.save": "Save changes",
+  "manage.saved": "Saved.",
+  "manage.leaderboard": "Leaderboard",
+  "manage.closedNote":
+    "Closed. Guests can still see the board, but new runs are turned away.",
+  "manage.openNote": "Open. Guests can play and post scores.",
+  "manage.close": "Close leaderboard",
+  "manage.reopen": "Reopen leaderboard",
+  "manage.closedNotice":
+    "The leaderboard is closed. New runs won't be accepted.",
+  "manage.reopenedNotice": "The leaderboard is open again.",
+  "manage.clear": "Clear all scores",
+  "manage.confirmClear":
+    "Delete every score on this event's leaderboard? This can't be undone.",
+  "manage.cleared.one": "Cleared {count} score.",
+  "manage.cleared.other": "Cleared {count} scores.",
+  "manage.error.load": "Unable to load the event.",
+  "manage.error.update": "Unable to update the event.",
+  "manage.error.clear": "Unable to clear the scores.",
+
+  "admin.title": "Scoreboard Moderation",
+  "admin.token": "Admin token",
+  "admin.unlock": "Unlock",
+  "admin.board": "Board",
+  "admin.allBoards": "All boards",
+  "admin.mode": "Mode",
+  "admin.allModes": "All modes",
+  "admin.status": "Status",
+  "admin.anyStatus": "Any status",
+  "admin.status.published": "Published",
+  "admin.status.pending": "Pending email",
+  "admin.status.hidden": "Hidden",
+  "admin.visibility": "Visibility",
+  "admin.visibleAndHidden": "Visible and hidden",
+  "admin.visibleOnly": "Visible only",
+  "admin.hiddenOnly": "Hidden only",
+  "admin.search": "Search names",
+  "admin.loading": "Loading...",
+  "admin.count.one": "{count} score",
+  "admin.count.other": "{count} scores",
+  "admin.column.name": "Name",
+  "admin.column.candles": "Candles",
+  "admin.column.time": "Time",
+  "admin.column.board": "Board",
+  "admin.column.status": "Status",
+  "admin.column.saved": "Saved",
+  "admin.column.actions": "Actions",
+  "admin.points": "{count} pts",
+  "admin.newName": "New name",
+  "admin.save": "Save",
+  "admin.hide": "Hide",
+  "admin.unhide": "Unhide",
+  "admin.rename": "Rename",
+  "admin.delete": "Delete",
+  "admin.confirmDelete.one": "Delete {name}'s {count} candle score?",
+  "admin.confirmDelete.other": "Delete {name}'s {count} candle score?",
+  "admin.audit": "Audit log",
+  "admin.auditEmpty": "No moderation actions yet.",
+  "admin.auditEntry": "{action} score #{id}: {change}",
+  "admin.action.hide": "hid",
+  "admin.action.unhide": "unhid",
+  "admin.action.rename": "renamed",
+  "admin.action.delete": "deleted",
+  "admin.error.request": "Request failed.",
+  "admin.error.load": "Unable to load.",
+  "admin.error.action": "Action failed.",
+
+  "apiError.INVALID_JSON": "Something went wrong sending that. Please try again.",
+  "apiError.SERVER_ERROR": "Something went wrong on our side. Please try again.",
+  "apiError.SCHEMA_OUT_OF_DATE":
+    "The game is being updated. Please try again in a few minutes.",
+  "apiError.RATE_LIMITED": "Too many tries. Please wait a moment and try again.",
+  "apiError.NAME_REQUIRED": "Please enter a name.",
+  "apiError.NAME_BLOCKED":
+    "That name isn't allowed on the board. Please pick another.",
+  "apiError.MESSAGE_BLOCKED":
+    "That message isn't allowed. Please write something else.",
+  "apiError.SLUG_RESERVED": "That link is reserved. Please pick another.",
+  "apiError.SLUG_TAKEN": "That link is taken. Please pick another.",
+  "apiError.CLIENT_ID_INVALID":
+    "Your player id looks broken. Reload the page and try again.",
+  "apiError.CANDLES_INVALID": "That candle count doesn't add up.",
+  "apiError.TIME_INVALID": "That round time doesn't add up.",
+  "apiError.POINTS_INVALID": "Those points don't add up.",
+  "apiError.POINTS_REQUIRED": "Points are required for this mode.",
+  "apiError.EMAIL_INVALID": "Please enter a valid email.",
+  "apiError.EMAIL_REQUIRED_TOP10": "Top 10 scores need a confirmed email.",
+  "apiError.END_REASON_INVALID": "That round ended in an unexpected way.",
+  "apiError.INPUTS_INVALID": "This round's pops could not be read.",
+  "apiError.POWER_UPS_INVALID": "This round's power-ups could not be read.",
+  "apiError.INPUT_METHOD_INVALID": "That input method isn't supported.",
+  "apiError.ACCESS_MODE_INVALID": "That accessibility option isn't supported.",
+  "apiError.BOARD_INVALID": "That scoreboard doesn't exist.",
+  "apiError.MODE_INVALID": "That game mode doesn't exist.",
+  "apiError.MODE_MISMATCH": "This score is for a different game mode.",
+  "apiError.DATE_INVALID": "That date isn't valid.",
+  "apiError.QUERY_INVALID": "That scoreboard view isn't valid.",
+  "apiError.EVENT_INVALID": "That birthday link isn't valid.",
+  "apiError.EVENT_NOT_FOUND": "We couldn't find that birthday.",
+  "apiError.EVENT_NOT_STARTED": "This birthday hasn't started yet.",
+  "apiError.EVENT_OVER": "This birthday is over.",
+  "apiError.LEADERBOARD_CLOSED": "This leaderboard is closed.",
+  "apiError.SESSION_REQUIRED": "Start a round before saving a score.",
+  "apiError.SESSION_EXPIRED":
+    "This round has expired or was already saved. Play again to save a new score.",
+  "apiError.ROUND_UNVERIFIED": "This round could not be verified.",
+  "apiError.SCORE_INVALID": "That score couldn't be found.",
+  "apiError.VERIFICATION_NOT_FOUND":
+    "That score is already confirmed or was saved with another email.",
+  "apiError.ROOM_NOT_FOUND": "We couldn't find that room.",
+  "apiError.ROOM_JOIN_REQUIRED": "Join the room first.",
+  "apiError.ROOM_HOST_ONLY": "Only the host can start the round.",
+  "apiError.ROOM_FULL": "This room is full.",
+  "apiError.ROOM_STARTED": "This round has already started.",
+  "apiError.ROOM_NOT_RUNNING": "The round isn't running.",
+  "apiError.ROOM_FINISHED": "You already finished this round.",
+  "apiError.ROOM_CODE_UNAVAILABLE":
+    "We couldn't pick a room code. Please try again.",
+  "apiError.UNAUTHORIZED": "That admin token isn't valid.",
+  "apiError.SCORE_NOT_FOUND": "We couldn't find that score.",
+  "apiError.STATUS_INVALID": "Status must be published or pending.",
+  "apiError.HIDDEN_INVALID": "Hidden must be on or off.",
+  "apiError.NOTHING_TO_CHANGE": "There's nothing to change.",
+  "apiError.AGE_INVALID": "Please enter an age from 1 to 120.",
+  "apiError.SLUG_INVALID":
+    "Links use 3-40 lowercase letters, numbers and single hyphens.",
+  "apiError.THEME_INVALID": "Please pick one of the themes.",
+  "apiError.DATE_ORDER_INVALID":
+    "The end date must be on or after the start date.",
+  "apiError.MESSAGE_INVALID": "The message must be text.",
+  "apiError.MESSAGE_TOO_LONG": "That message is too long.",
+  "apiError.CLOSED_INVALID": "Closed must be on or off.",
+  "apiError.ORGANIZER_LINK_INVALID": "This organizer link isn't valid.",
+};
+
+export type MessageKey = keyof typeof en;
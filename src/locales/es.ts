@@ -0,0 +1,452 @@
+import type { MessageKey } from "@/locales/en";
+
+export const es: Record<MessageKey, string> = {
+  "language.label": "Idioma",
+
+  "hero.kicker": "Feliz cumpleaños, {honoree}",
+  "hero.title": "Fiesta de Velas Veloces",
+  "hero.subtitle":
+    "Toca las velas que bailan para ponerlas en el pastel de {honoree}. Consigue {target} velas antes de que se acabe el tiempo. Las velas doradas solo brillan más.",
+
+  "event.upcoming": "El pastel abre el {date}. ¡Vuelve entonces!",
+  "event.closed":
+    "El organizador cerró esta tabla de puntuaciones. ¡Gracias por celebrar!",
+  "event.over": "Este cumpleaños terminó el {date}. ¡Gracias por celebrar!",
+
+  "board.label": "Modo de juego",
+  "board.classic": "Clásico",
+  "board.daily": "Pastel del día",
+  "board.dailyNote": "Hoy todos juegan con el mismo pastel.",
+  "board.nextDaily": "Siguiente pastel del día en {countdown}",
+
+  "mode.label": "Dificultad",
+  "mode.kids": "Peques",
+  "mode.classic": "Clásico",
+  "mode.inferno": "Infierno",
+  "mode.attack": "Ataque de puntos",
+  "mode.roundLength": "Rondas de {seconds}",
+
+  "a11y.label": "Accesibilidad",
+  "a11y.enabled": "Juego accesible",
+  "a11y.highContrast": "Alto contraste",
+  "a11y.extended": "Las velas duran {factor} veces más",
+  "a11y.note":
+    "Sin animaciones, avisos hablados, y tus puntuaciones se marcan como accesibles.",
+
+  "stats.timeLeft": "Tiempo",
+  "stats.candles": "Velas",
+  "stats.streak": "Racha",
+  "stats.streakValue": "{combo}x",
+  "stats.bestPoints": "Mejores puntos",
+  "stats.bestCandles": "Más velas",
+
+  "hud.time": "Tiempo",
+  "hud.frozen": "Congelado",
+  "hud.candles": "Velas",
+  "hud.streak": "Racha",
+  "hud.shield": "Escudo",
+  "hud.points": "Puntos",
+
+  "actions.starting": "Encendiendo...",
+  "actions.start": "Empezar la fiesta",
+  "actions.playAgain": "Jugar otra vez",
+  "actions.reset": "Reiniciar",
+  "actions.partyRoom": "Sala de fiesta",
+  "actions.newBirthday": "Nuevo cumpleaños",
+  "actions.cancel": "Cancelar",
+  "actions.saving": "Guardando...",
+
+  "status.idle": "Listo",
+  "status.running": "¡YA!",
+  "status.bomb": "¡Bum!",
+  "status.candles": "¡Dulce!",
+  "status.time": "Fin",
+
+  "rules.pop":
+    "Cada toque pone una vela en el pastel. Llega a {target} para terminar antes.",
+  "rules.golden": "Las velas doradas dan brillo extra, no puntos extra.",
+  "rules.goldenPoints": "Las velas doradas suman {points} puntos extra.",
+  "rules.bomb": "Las bombas terminan la ronda antes, así que esquívalas.",
+  "rules.bombPoints": "Las bombas restan {points} puntos y terminan la ronda.",
+  "rules.powerUps":
+    "La azul congela el tiempo, la verde te protege de una bomba y el imán explota las velas cercanas.",
+  "rules.streak": "Mantén la racha para seguir el ritmo.",
+  "rules.streakPoints": "Cada toque vale {points} puntos por tu racha.",
+
+  "scores.title": "Top 10",
+  "scores.dailyTitle": "Top 10 del pastel del día",
+  "scores.placed": "{placed}/{target} puestas",
+  "scores.viewLabel": "Vista de la tabla",
+  "scores.all": "Todas las rondas",
+  "scores.best": "Mejores marcas",
+  "scores.loading": "Cargando la tabla...",
+  "scores.empty": "Sé el primero en iluminar la tabla.",
+  "scores.accessible": "Accesible",
+  "scores.accessibleTitle": "Juego accesible",
+  "scores.extended": "Accesible+",
+  "scores.extendedTitle": "Juego accesible con velas que duran más",
+  "scores.points": "{points} pts",
+  "scores.candles.one": "{count} vela",
+  "scores.candles.other": "{count} velas",
+
+  "powerUps.collected": "Potenciadores conseguidos: {list}.",
+  "powerUps.none": "Sin potenciadores en esta ronda.",
+  "powerUps.freeze.one": "{count} congelación",
+  "powerUps.freeze.other": "{count} congelaciones",
+  "powerUps.shield.one": "{count} escudo",
+  "powerUps.shield.other": "{count} escudos",
+  "powerUps.magnet.one": "{count} imán",
+  "powerUps.magnet.other": "{count} imanes",
+
+  "form.submittingAs": "Guardando como",
+  "form.noName": "Sin nombre todavía",
+  "form.changeName": "Cambiar nombre",
+  "form.setName": "Poner nombre",
+  "form.save": "Guardar puntuación",
+  "form.needName": "Pon tu nombre para guardar una puntuación.",
+  "form.needEmail":
+    "Las puntuaciones del Top 10 necesitan un correo confirmado.",
+  "form.ready": "Guarda tus velas y tu tiempo para celebrar a {honoree}.",
+  "form.locked": "Termina una ronda para poder guardar tu puntuación.",
+
+  "placement.rank": "Quedaste #{rank} de {total}",
+  "placement.top": "{placed}: ¡lo más alto del pastel!",
+  "placement.points": "{placed}: a {gap} puntos del #{rank}",
+  "placement.candles.one": "{placed}: a {count} vela del #{rank}",
+  "placement.candles.other": "{placed}: a {count} velas del #{rank}",
+  "placement.time": "{placed}: a {time} del #{rank}",
+  "placement.percentile":
+    "Igual o mejor que el {percentile}% de las rondas de esta tabla.",
+
+  "message.verified":
+    "¡Correo confirmado! Tu puntuación del Top 10 ya está en la tabla.",
+  "message.pending":
+    "¡Casi listo! Abre el enlace que enviamos a {email} para poner esta puntuación en la tabla.",
+  "message.pendingUnsent":
+    "Tu puntuación está guardada, pero no pudimos escribir a {email}. Envía el enlace otra vez para ponerla en la tabla.",
+  "message.resent": "Enviamos un enlace nuevo a {email}.",
+  "message.madeBoard": "¡Puntuación guardada! Entraste en el Top 10.",
+  "message.autoSaved": "¡Puntuación guardada automáticamente!",
+  "message.saved": "¡Puntuación guardada! El pastel es oficialmente legendario.",
+
+  "error.verifyLink": "Ese enlace de confirmación no es válido o ha caducado.",
+  "error.saveName": "No se pudo guardar tu nombre.",
+  "error.pickName": "Elige otro nombre, por favor.",
+  "error.startRound": "No se pudo empezar una ronda.",
+  "error.submit": "No se pudo guardar la puntuación.",
+  "error.resend": "No se pudo enviar el correo de confirmación.",
+
+  "verification.resend": "Enviar el enlace otra vez",
+  "verification.resending": "Enviando...",
+
+  footer: "Hecho con confeti, pastel y buenos deseos para {honoree}.",
+
+  "nameModal.title": "Añade tu nombre",
+  "nameModal.text":
+    "Guardaremos tus velas y tu tiempo con este nombre.",
+  "nameModal.placeholder": "Tu nombre",
+  "nameModal.save": "Guardar nombre",
+  "nameModal.empty": "Escribe un nombre, por favor.",
+
+  "emailModal.title": "Correo del Top 10",
+  "emailModal.text":
+    "Esta puntuación es digna del Top 10. Añade un correo y te enviaremos un enlace para confirmarla antes de que entre en la tabla.",
+  "emailModal.save": "Guardar correo",
+  "emailModal.invalid": "Escribe un correo válido, por favor.",
+
+  "candle.plain": "Vela de cumpleaños",
+  "candle.golden": "Vela dorada, brillo extra",
+  "candle.bomb": "Bomba, termina la ronda",
+  "candle.freeze": "Vela de hielo, pausa el tiempo",
+  "candle.shield": "Vela escudo, absorbe una bomba",
+  "candle.magnet": "Vela imán, explota las velas cercanas",
+  "candle.label": "{candle}, {position}",
+
+  "spawn.plain": "vela",
+  "spawn.golden": "vela dorada",
+  "spawn.bomb": "bomba",
+  "spawn.freeze": "vela de hielo",
+  "spawn.shield": "vela escudo",
+  "spawn.magnet": "vela imán",
+
+  "position.top.left": "arriba a la izquierda",
+  "position.top.center": "arriba al centro",
+  "position.top.right": "arriba a la derecha",
+  "position.middle.left": "en medio a la izquierda",
+  "position.middle.center": "en el centro",
+  "position.middle.right": "en medio a la derecha",
+  "position.bottom.left": "abajo a la izquierda",
+  "position.bottom.center": "abajo al centro",
+  "position.bottom.right": "abajo a la derecha",
+
+  "announce.started": "Empieza la ronda. Pon {target} velas.",
+  "announce.placed.one": "{count} vela puesta, {placed} de {target}.",
+  "announce.placed.other": "{count} velas puestas, {placed} de {target}.",
+  "announce.freeze": "¡Congelado! El tiempo está en pausa.",
+  "announce.shield": "Escudo listo para la próxima bomba.",
+  "announce.magnet": "El imán atrajo las velas cercanas.",
+  "announce.shieldBlocked": "Tu escudo bloqueó una bomba.",
+  "announce.streak": "¡Racha de {combo}x!",
+  "announce.streakLost": "Racha perdida.",
+  "announce.spawned": "Nuevas: {list}.",
+  "announce.spawnedCandle": "{candle} {position}",
+  "announce.secondsLeft.one": "Queda {count} segundo.",
+  "announce.secondsLeft.other": "Quedan {count} segundos.",
+  "announce.bomb": "¡Bum! Una bomba terminó la ronda.",
+  "announce.candles": "¡El pastel está lleno! Ronda completa.",
+  "announce.time": "¡Se acabó el tiempo!",
+  "announce.total.one": "{count} vela puesta.",
+  "announce.total.other": "{count} velas puestas.",
+  "announce.target": "Objetivo: {candle}, {position}.",
+
+  "controls.title": "Controles",
+  "controls.playingWith": " · jugando con {method}",
+  "controls.hint":
+    "Toca o haz clic en las velas, pulsa el número de una vela, o mueve el aro de objetivo y explótala. Elige un control y luego pulsa la nueva tecla o botón del mando. Escape cancela.",
+  "controls.action": "Acción",
+  "controls.key": "Tecla",
+  "controls.gamepad": "Mando",
+  "controls.pressKey": "Pulsa una tecla...",
+  "controls.pressButton": "Pulsa un botón...",
+  "controls.changeKey": "Tecla de {action}: {key}. Cambiar",
+  "controls.changeButton": "Mando para {action}: {button}. Cambiar",
+  "controls.slots": "Teclas numéricas de las velas",
+  "controls.changeSlot": "Tecla de la vela {slot}: {key}. Cambiar",
+  "controls.reset": "Restablecer controles",
+  "controls.up": "Objetivo arriba",
+  "controls.down": "Objetivo abajo",
+  "controls.left": "Objetivo a la izquierda",
+  "controls.right": "Objetivo a la derecha",
+  "controls.pop": "Explotar objetivo",
+
+  "input.pointer": "Ratón",
+  "input.touch": "Pantalla táctil",
+  "input.keyboard": "Teclado",
+  "input.gamepad": "Mando",
+
+  "key.space": "Espacio",
+  "key.ArrowUp": "Flecha arriba",
+  "key.ArrowDown": "Flecha abajo",
+  "key.ArrowLeft": "Flecha izquierda",
+  "key.ArrowRight": "Flecha derecha",
+  "key.button": "Botón {index}",
+
+  "nav.backToCake": "← Volver al pastel",
+  "nav.backToEvent": "← Volver al cumpleaños",
+  "nav.partyRooms": "← Salas de fiesta",
+
+  "party.title": "Sala de fiesta",
+  "party.intro":
+    "Todos juegan las mismas velas en el mismo momento. Comparte el código de la sala y el anfitrión empieza la ronda.",
+  "party.name": "Tu nombre",
+  "party.namePlaceholder": "Invitado",
+  "party.host": "Crear una sala",
+  "party.code": "Código de sala",
+  "party.join": "Unirse a la sala",
+  "party.error.open": "No se pudo abrir la sala.",
+
+  "room.title": "Sala",
+  "room.lobby":
+    "Comparte este código o enlace con los invitados. {joined}/{max} dentro.",
+  "room.start": "Empezar la ronda",
+  "room.waitingForHost": "Esperando a que el anfitrión empiece…",
+  "room.waitingForOthers": "¡Buena ronda! Esperando a que terminen los demás…",
+  "room.inProgress": "Ronda en curso.",
+  "room.results": "Resultados de la sala",
+  "room.players": "Jugadores",
+  "room.hostTag": "{name} (anfitrión)",
+  "room.liveTally": "Marcador en vivo",
+  "room.end.playing": "Todavía jugando",
+  "room.end.bomb": "¡Bum!",
+  "room.end.candles": "Pastel completo",
+  "room.end.time": "Tiempo",
+  "room.resultsNote":
+    "Las rondas de sala se quedan en la sala y no se suman a la tabla general.",
+  "room.another": "Crear otra sala",
+  "room.closed": "Esta sala se cerró.",
+  "room.error.join": "No se pudo entrar en la sala.",
+  "room.error.start": "No se pudo empezar la ronda.",
+  "room.error.save": "No se pudo guardar tu ronda.",
+
+  "theme.party": "Fiesta",
+  "theme.pastel": "Pastel",
+  "theme.ocean": "Océano",
+
+  "eventForm.honoree": "Cumpleañero",
+  "eventForm.theme": "Tema",
+  "eventForm.startDate": "Abre el",
+  "eventForm.endDate": "Cierra después del",
+  "eventForm.message": "Mensaje para los invitados",
+  "eventForm.optional": "{label} (opcional)",
+
+  "newEvent.title": "Prepara un pastel de cumpleaños",
+  "newEvent.intro":
+    "Crea una página de Candle Dash para el cumpleaños de quien quieras. Los invitados encienden una vela por cada año y la página tiene su propia tabla.",
+  "newEvent.age": "Cumple",
+  "newEvent.slug": "Enlace de la página",
+  "newEvent.slugHint":
+    "Tu página estará en /e/{slug}. Déjalo en blanco para usar la sugerencia.",
+  "newEvent.messagePlaceholder": "¡Supera mi puntuación antes de cortar el pastel!",
+  "newEvent.retention":
+    "Las páginas se borran 30 días después de cerrar, o 90 días después de crearse si no tienen fecha de cierre.",
+  "newEvent.creating": "Horneando...",
+  "newEvent.create": "Crear la página",
+  "newEvent.ready": "¡El pastel de {honoree} está listo!",
+  "newEvent.share": "Compártelo con los invitados",
+  "newEvent.open": "Abrir el juego",
+  "newEvent.copy": "Copiar enlace",
+  "newEvent.organizerTitle": "Tu enlace de organizador",
+  "newEvent.organizerNote":
+    "Guárdalo para ti. Es la única forma de editar el cumpleaños, cerrar la tabla o borrar puntuaciones de prueba, y no podemos enviarlo otra vez.",
+  "newEvent.copyOrganizer": "Copiar enlace de organizador",
+  "newEvent.error": "No se pudo crear el cumpleaños.",
+
+  "manage.title": "Gestionar el pastel de {honoree}",
+  "manage.titleLoading": "Gestionar cumpleaños",
+  "manage.needToken":
+    "Abre esta página desde tu enlace de organizador para hacer cambios.",
+  "manage.details": "Datos del cumpleaños",
+  "manage.ageNote":
+    "Cumple {age}. La edad fija el número de velas, así que no se puede cambiar cuando los invitados ya han jugado.",
+  "manage.save": "Guardar cambios",
+  "manage.saved": "Guardado.",
+  "manage.leaderboard": "Tabla de puntuaciones",
+  "manage.closedNote":
+    "Cerrada. Los invitados aún pueden ver la tabla, pero no se aceptan rondas nuevas.",
+  "manage.openNote": "Abierta. Los invitados pueden jugar y publicar puntuaciones.",
+  "manage.close": "Cerrar la tabla",
+  "manage.reopen": "Reabrir la tabla",
+  "manage.closedNotice":
+    "La tabla está cerrada. No se aceptarán rondas nuevas.",
+  "manage.reopenedNotice": "La tabla vuelve a estar abierta.",
+  "manage.clear": "Borrar todas las puntuaciones",
+  "manage.confirmClear":
+    "¿Borrar todas las puntuaciones de la tabla de este cumpleaños? No se puede deshacer.",
+  "manage.cleared.one": "Se borró {count} puntuación.",
+  "manage.cleared.other": "Se borraron {count} puntuaciones.",
+  "manage.error.load": "No se pudo cargar el cumpleaños.",
+  "manage.error.update": "No se pudo actualizar el cumpleaños.",
+  "manage.error.clear": "No se pudieron borrar las puntuaciones.",
+
+  "admin.title": "Moderación de puntuaciones",
+  "admin.token": "Token de administrador",
+  "admin.unlock": "Desbloquear",
+  "admin.board": "Tabla",
+  "admin.allBoards": "Todas las tablas",
+  "admin.mode": "Modo",
+  "admin.allModes": "Todos los modos",
+  "admin.status": "Estado",
+  "admin.anyStatus": "Cualquier estado",
+  "admin.status.published": "Publicada",
+  "admin.status.pending": "Correo pendiente",
+  "admin.status.hidden": "Oculta",
+  "admin.visibility": "Visibilidad",
+  "admin.visibleAndHidden": "Visibles y ocultas",
+  "admin.visibleOnly": "Solo visibles",
+  "admin.hiddenOnly": "Solo ocultas",
+  "admin.search": "Buscar nombres",
+  "admin.loading": "Cargando...",
+  "admin.count.one": "{count} puntuación",
+  "admin.count.other": "{count} puntuaciones",
+  "admin.column.name": "Nombre",
+  "admin.column.candles": "Velas",
+  "admin.column.time": "Tiempo",
+  "admin.column.board": "Tabla",
+  "admin.column.status": "Estado",
+  "admin.column.saved": "Guardada",
+  "admin.column.actions": "Acciones",
+  "admin.points": "{count} pts",
+  "admin.newName": "Nuevo nombre",
+  "admin.save": "Guardar",
+  "admin.hide": "Ocultar",
+  "admin.unhide": "Mostrar",
+  "admin.rename": "Renombrar",
+  "admin.delete": "Borrar",
+  "admin.confirmDelete.one": "¿Borrar la puntuación de {count} vela de {name}?",
+  "admin.confirmDelete.other":
+    "¿Borrar la puntuación de {count} velas de {name}?",
+  "admin.audit": "Registro de auditoría",
+  "admin.auditEmpty": "Todavía no hay acciones de moderación.",
+  "admin.auditEntry": "{action} la puntuación #{id}: {change}",
+  "admin.action.hide": "ocultó",
+  "admin.action.unhide": "mostró",
+  "admin.action.rename": "renombró",
+  "admin.action.delete": "borró",
+  "admin.error.request": "La solicitud falló.",
+  "admin.error.load": "No se pudo cargar.",
+  "admin.error.action": "La acción falló.",
+
+  "apiError.INVALID_JSON": "Algo falló al enviar eso. Inténtalo de nuevo.",
+  "apiError.SERVER_ERROR":
+    "Algo falló de nuestro lado. Inténtalo de nuevo.",
+  "apiError.SCHEMA_OUT_OF_DATE":
+    "El juego se está actualizando. Inténtalo en unos minutos.",
+  "apiError.RATE_LIMITED":
+    "Demasiados intentos. Espera un momento y vuelve a intentarlo.",
+  "apiError.NAME_REQUIRED": "Escribe un nombre, por favor.",
+  "apiError.NAME_BLOCKED":
+    "Ese nombre no está permitido en la tabla. Elige otro, por favor.",
+  "apiError.MESSAGE_BLOCKED":
+    "Ese mensaje no está permitido. Escribe otra cosa, por favor.",
+  "apiError.SLUG_RESERVED": "Ese enlace está reservado. Elige otro, por favor.",
+  "apiError.SLUG_TAKEN": "Ese enlace ya está ocupado. Elige otro, por favor.",
+  "apiError.CLIENT_ID_INVALID":
+    "Tu identificador de jugador parece dañado. Recarga la página e inténtalo de nuevo.",
+  "apiError.CANDLES_INVALID": "Ese número de velas no cuadra.",
+  "apiError.TIME_INVALID": "Ese tiempo de ronda no cuadra.",
+  "apiError.POINTS_INVALID": "Esos puntos no cuadran.",
+  "apiError.POINTS_REQUIRED": "Este modo necesita puntos.",
+  "apiError.EMAIL_INVALID": "Escribe un correo válido, por favor.",
+  "apiError.EMAIL_REQUIRED_TOP10":
+    "Las puntuaciones del Top 10 necesitan un correo confirmado.",
+  "apiError.END_REASON_INVALID": "Esa ronda terminó de una forma inesperada.",
+  "apiError.INPUTS_INVALID": "No se pudieron leer los toques de esta ronda.",
+  "apiError.POWER_UPS_INVALID":
+    "No se pudieron leer los potenciadores de esta ronda.",
+  "apiError.INPUT_METHOD_INVALID": "Ese método de control no es compatible.",
+  "apiError.ACCESS_MODE_INVALID":
+    "Esa opción de accesibilidad no es compatible.",
+  "apiError.BOARD_INVALID": "Esa tabla de puntuaciones no existe.",
+  "apiError.MODE_INVALID": "Ese modo de juego no existe.",
+  "apiError.MODE_MISMATCH": "Esta puntuación es de otro modo de juego.",
+  "apiError.DATE_INVALID": "Esa fecha no es válida.",
+  "apiError.QUERY_INVALID": "Esa vista de la tabla no es válida.",
+  "apiError.EVENT_INVALID": "Ese enlace de cumpleaños no es válido.",
+  "apiError.EVENT_NOT_FOUND": "No encontramos ese cumpleaños.",
+  "apiError.EVENT_NOT_STARTED": "Este cumpleaños todavía no ha empezado.",
+  "apiError.EVENT_OVER": "Este cumpleaños ya terminó.",
+  "apiError.LEADERBOARD_CLOSED": "Esta tabla de puntuaciones está cerrada.",
+  "apiError.SESSION_REQUIRED":
+    "Empieza una ronda antes de guardar una puntuación.",
+  "apiError.SESSION_EXPIRED":
+    "Esta ronda caducó o ya se guardó. Juega otra vez para guardar una nueva puntuación.",
+  "apiError.ROUND_UNVERIFIED": "No se pudo verificar esta ronda.",
+  "apiError.SCORE_INVALID": "No encontramos esa puntuación.",
+  "apiError.VERIFICATION_NOT_FOUND":
+    "Esa puntuación ya está confirmada o se guardó con otro correo.",
+  "apiError.ROOM_NOT_FOUND": "No encontramos esa sala.",
+  "apiError.ROOM_JOIN_REQUIRED": "Primero únete a la sala.",
+  "apiError.ROOM_HOST_ONLY": "Solo el anfitrión puede empezar la ronda.",
+  "apiError.ROOM_FULL": "Esta sala está llena.",
+  "apiError.ROOM_STARTED": "Esta ronda ya empezó.",
+  "apiError.ROOM_NOT_RUNNING": "La ronda no está en curso.",
+  "apiError.ROOM_FINISHED": "Ya terminaste esta ronda.",
+  "apiError.ROOM_CODE_UNAVAILABLE":
+    "No pudimos elegir un código de sala. Inténtalo otra vez.",
+  "apiError.UNAUTHORIZED": "Ese token de administrador no es válido.",
+  "apiError.SCORE_NOT_FOUND": "No encontramos esa puntuación.",
+  "apiError.STATUS_INVALID": "El estado debe ser publicado o pendiente.",
+  "apiError.HIDDEN_INVALID": "Oculto debe estar activado o desactivado.",
+  "apiError.NOTHING_TO_CHANGE": "No hay nada que cambiar.",
+  "apiError.AGE_INVALID": "Escribe una edad de 1 a 120.",
+  "apiError.SLUG_INVALID":
+    "Los enlaces usan de 3 a 40 minúsculas, números y guiones sueltos.",
+  "apiError.THEME_INVALID": "Elige uno de los temas.",
+  "apiError.DATE_ORDER_INVALID":
+    "La fecha de fin debe ser igual o posterior a la de inicio.",
+  "apiError.MESSAGE_INVALID": "El mensaje debe ser texto.",
+  "apiError.MESSAGE_TOO_LONG": "Ese mensaje es demasiado largo.",
+  "apiError.CLOSED_INVALID": "Cerrado debe estar activado o desactivado.",
+  "apiError.ORGANIZER_LINK_INVALID":
+    "Este enlace de organizador no es válido.",
+};
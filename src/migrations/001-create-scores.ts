@@ -0,0 +1,38 @@
+import { DataTypes } from "sequelize";
+import { createTableIfMissing, timestamps, type Migration } from "./helpers";
+
+export const createScores: Migration = {
+  name: "001-create-scores",
+  up: async (queryInterface, transaction) => {
+    await createTableIfMissing(queryInterface, transaction, "scores", {
+      id: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      name: {
+        type: DataTypes.STRING(40),
+        allowNull: false,
+      },
+      candles: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      timeMs: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      email: {
+        type: DataTypes.STRING(254),
+        allowNull: true,
+      },
+      ...timestamps,
+    });
+  },
+  down: async (queryInterface, transaction) => {
+    await queryInterface.dropTable("scores", { transaction });
+  },
+};
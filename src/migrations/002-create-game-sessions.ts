@@ -0,0 +1,89 @@
+import { DataTypes } from "sequelize";
+import { createTableIfMissing, timestamps, type Migration } from "./helpers";
+
+export const createGameSessions: Migration = {
+  name: "002-create-game-sessions",
+  up: async (queryInterface, transaction) => {
+    await createTableIfMissing(queryInterface, transaction, "game_sessions", {
+      id: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        primaryKey: true,
+      },
+      seed: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      board: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+        defaultValue: "classic",
+      },
+      boardDate: {
+        type: DataTypes.DATEONLY,
+        allowNull: true,
+      },
+      startedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      usedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      ...timestamps,
+    });
+    await createTableIfMissing(
+      queryInterface,
+      transaction,
+      "score_rejections",
+      {
+        id: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          autoIncrement: true,
+          primaryKey: true,
+        },
+        sessionId: {
+          type: DataTypes.UUID,
+          allowNull: true,
+        },
+        name: {
+          type: DataTypes.STRING(40),
+          allowNull: false,
+        },
+        candles: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        timeMs: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        endReason: {
+          type: DataTypes.STRING(16),
+          allowNull: true,
+        },
+        reason: {
+          type: DataTypes.STRING(40),
+          allowNull: false,
+        },
+        details: {
+          type: DataTypes.JSON,
+          allowNull: true,
+        },
+        ...timestamps,
+      },
+    );
+  },
+  down: async (queryInterface, transaction) => {
+    await queryInterface.dropTable("score_rejections", { transaction });
+    await queryInterface.dropTable("game_sessions", { transaction });
+  },
+};
@@ -0,0 +1,37 @@
+import { DataTypes } from "sequelize";
+import { createTableIfMissing, timestamps, type Migration } from "./helpers";
+
+export const createPlayers: Migration = {
+  name: "003-create-players",
+  up: async (queryInterface, transaction) => {
+    await createTableIfMissing(queryInterface, transaction, "players", {
+      id: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      clientId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        unique: true,
+      },
+      displayName: {
+        type: DataTypes.STRING(40),
+        allowNull: false,
+      },
+      email: {
+        type: DataTypes.STRING(254),
+        allowNull: true,
+      },
+      emailVerifiedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      ...timestamps,
+    });
+  },
+  down: async (queryInterface, transaction) => {
+    await queryInterface.dropTable("players", { transaction });
+  },
+};
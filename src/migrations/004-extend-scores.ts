@@ -0,0 +1,113 @@
+import { DataTypes } from "sequelize";
+import {
+  addColumnIfMissing,
+  addIndexIfMissing,
+  type Migration,
+} from "./helpers";
+
+const RANK_FIELDS = [
+  { name: "candles", order: "DESC" as const },
+  "timeMs",
+  "createdAt",
+  "id",
+];
+
+export const extendScores: Migration = {
+  name: "004-extend-scores",
+  up: async (queryInterface, transaction) => {
+    await addColumnIfMissing(
+      queryInterface,
+      transaction,
+      "scores",
+      "playerId",
+      {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        references: { model: "players", key: "id" },
+        onDelete: "SET NULL",
+        onUpdate: "CASCADE",
+      },
+    );
+    await addColumnIfMissing(
+      queryInterface,
+      transaction,
+      "scores",
+      "isPersonalBest",
+      {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+      },
+    );
+    await addColumnIfMissing(queryInterface, transaction, "scores", "status", {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      defaultValue: "published",
+    });
+    await addColumnIfMissing(
+      queryInterface,
+      transaction,
+      "scores",
+      "hiddenAt",
+      {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    );
+    await addColumnIfMissing(queryInterface, transaction, "scores", "board", {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      defaultValue: "classic",
+    });
+    await addColumnIfMissing(
+      queryInterface,
+      transaction,
+      "scores",
+      "boardDate",
+      {
+        type: DataTypes.DATEONLY,
+        allowNull: true,
+      },
+    );
+    await addIndexIfMissing(queryInterface, transaction, "scores", {
+      name: "scores_board_rank_idx",
+      fields: ["board", "boardDate", "status", ...RANK_FIELDS],
+    });
+    await addIndexIfMissing(queryInterface, transaction, "scores", {
+      name: "scores_board_best_rank_idx",
+      fields: ["board", "boardDate", "status", "isPersonalBest", ...RANK_FIELDS],
+    });
+    await addIndexIfMissing(queryInterface, transaction, "scores", {
+      name: "scores_board_created_at_idx",
+      fields: ["board", "boardDate", "createdAt"],
+    });
+    await addIndexIfMissing(queryInterface, transaction, "scores", {
+      name: "scores_player_idx",
+      fields: ["playerId", "board", "boardDate"],
+    });
+  },
+  down: async (queryInterface, transaction) => {
+    await queryInterface.removeIndex("scores", "scores_player_idx", {
+      transaction,
+    });
+    await queryInterface.removeIndex("scores", "scores_board_created_at_idx", {
+      transaction,
+    });
+    await queryInterface.removeIndex("scores", "scores_board_best_rank_idx", {
+      transaction,
+    });
+    await queryInterface.removeIndex("scores", "scores_board_rank_idx", {
+      transaction,
+    });
+    for (const column of [
+      "boardDate",
+      "board",
+      "hiddenAt",
+      "status",
+      "isPersonalBest",
+      "playerId",
+    ]) {
+      await queryInterface.removeColumn("scores", column, { transaction });
+    }
+  },
+};
@@ -0,0 +1,49 @@
+import { DataTypes } from "sequelize";
+import { createTableIfMissing, timestamps, type Migration } from "./helpers";
+
+export const createEmailVerifications: Migration = {
+  name: "005-create-email-verifications",
+  up: async (queryInterface, transaction) => {
+    await createTableIfMissing(
+      queryInterface,
+      transaction,
+      "email_verifications",
+      {
+        id: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          autoIncrement: true,
+          primaryKey: true,
+        },
+        scoreId: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          references: { model: "scores", key: "id" },
+          onDelete: "CASCADE",
+          onUpdate: "CASCADE",
+        },
+        email: {
+          type: DataTypes.STRING(254),
+          allowNull: false,
+        },
+        tokenHash: {
+          type: DataTypes.STRING(64),
+          allowNull: false,
+          unique: true,
+        },
+        expiresAt: {
+          type: DataTypes.DATE,
+          allowNull: false,
+        },
+        usedAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+        },
+        ...timestamps,
+      },
+    );
+  },
+  down: async (queryInterface, transaction) => {
+    await queryInterface.dropTable("email_verifications", { transaction });
+  },
+};
@@ -0,0 +1,54 @@
+import { DataTypes } from "sequelize";
+import {
+  addIndexIfMissing,
+  createTableIfMissing,
+  timestamps,
+  type Migration,
+} from "./helpers";
+
+export const createModerationActions: Migration = {
+  name: "006-create-moderation-actions",
+  up: async (queryInterface, transaction) => {
+    await createTableIfMissing(
+      queryInterface,
+      transaction,
+      "moderation_actions",
+      {
+        id: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          autoIncrement: true,
+          primaryKey: true,
+        },
+        scoreId: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+        },
+        actor: {
+          type: DataTypes.STRING(60),
+          allowNull: false,
+        },
+        action: {
+          type: DataTypes.STRING(16),
+          allowNull: false,
+        },
+        before: {
+          type: DataTypes.JSON,
+          allowNull: true,
+        },
+        after: {
+          type: DataTypes.JSON,
+          allowNull: true,
+        },
+        ...timestamps,
+      },
+    );
+    await addIndexIfMissing(queryInterface, transaction, "moderation_actions", {
+      name: "moderation_actions_score_idx",
+      fields: ["scoreId"],
+    });
+  },
+  down: async (queryInterface, transaction) => {
+    await queryInterface.dropTable("moderation_actions", { transaction });
+  },
+};
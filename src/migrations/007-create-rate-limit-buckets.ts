@@ -0,0 +1,33 @@
+import { DataTypes } from "sequelize";
+import { createTableIfMissing, timestamps, type Migration } from "./helpers";
+
+export const createRateLimitBuckets: Migration = {
+  name: "007-create-rate-limit-buckets",
+  up: async (queryInterface, transaction) => {
+    await createTableIfMissing(
+      queryInterface,
+      transaction,
+      "rate_limit_buckets",
+      {
+        key: {
+          type: DataTypes.STRING(200),
+          allowNull: false,
+          primaryKey: true,
+        },
+        windowStart: {
+          type: DataTypes.DATE,
+          allowNull: false,
+        },
+        count: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        ...timestamps,
+      },
+    );
+  },
+  down: async (queryInterface, transaction) => {
+    await queryInterface.dropTable("rate_limit_buckets", { transaction });
+  },
+};
@@ -0,0 +1,104 @@
+import { DataTypes } from "sequelize";
+import { timestamps, type Migration } from "./helpers";
+
+export const createRooms: Migration = {
+  name: "008-create-rooms",
+  up: async (queryInterface, transaction) => {
+    await queryInterface.createTable(
+      "rooms",
+      {
+        id: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          autoIncrement: true,
+          primaryKey: true,
+        },
+        code: {
+          type: DataTypes.STRING(8),
+          allowNull: false,
+          unique: true,
+        },
+        hostPlayerId: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          references: { model: "players", key: "id" },
+          onDelete: "CASCADE",
+          onUpdate: "CASCADE",
+        },
+        status: {
+          type: DataTypes.STRING(16),
+          allowNull: false,
+          defaultValue: "lobby",
+        },
+        seed: {
+          type: DataTypes.INTEGER,
+          allowNull: true,
+        },
+        startsAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+        },
+        ...timestamps,
+      },
+      { transaction },
+    );
+    await queryInterface.createTable(
+      "room_participants",
+      {
+        id: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          autoIncrement: true,
+          primaryKey: true,
+        },
+        roomId: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          references: { model: "rooms", key: "id" },
+          onDelete: "CASCADE",
+          onUpdate: "CASCADE",
+        },
+        playerId: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          references: { model: "players", key: "id" },
+          onDelete: "CASCADE",
+          onUpdate: "CASCADE",
+        },
+        name: {
+          type: DataTypes.STRING(40),
+          allowNull: false,
+        },
+        candles: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        timeMs: {
+          type: DataTypes.INTEGER,
+          allowNull: true,
+        },
+        endReason: {
+          type: DataTypes.STRING(16),
+          allowNull: true,
+        },
+        finishedAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+        },
+        ...timestamps,
+      },
+      { transaction },
+    );
+    await queryInterface.addIndex("room_participants", {
+      name: "room_participants_room_player_idx",
+      unique: true,
+      fields: ["roomId", "playerId"],
+      transaction,
+    });
+  },
+  down: async (queryInterface, transaction) => {
+    await queryInterface.dropTable("room_participants", { transaction });
+    await queryInterface.dropTable("rooms", { transaction });
+  },
+};
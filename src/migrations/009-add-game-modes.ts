@@ -0,0 +1,86 @@
+import { DataTypes } from "sequelize";
+import { addColumnIfMissing, addIndexIfMissing, type Migration } from "./helpers";
+
+const RANK_FIELDS = [
+  { name: "candles", order: "DESC" as const },
+  "timeMs",
+  "createdAt",
+  "id",
+];
+
+export type IndexSpec = {
+  name: string;
+  fields: (string | { name: string; order: "DESC" })[];
+};
+
+const BOARD_INDEXES: IndexSpec[] = [
+  {
+    name: "scores_board_rank_idx",
+    fields: ["board", "boardDate", "status", ...RANK_FIELDS],
+  },
+  {
+    name: "scores_board_best_rank_idx",
+    fields: ["board", "boardDate", "status", "isPersonalBest", ...RANK_FIELDS],
+  },
+  {
+    name: "scores_board_created_at_idx",
+    fields: ["board", "boardDate", "createdAt"],
+  },
+  {
+    name: "scores_player_idx",
+    fields: ["playerId", "board", "boardDate"],
+  },
+];
+
+export const MODE_INDEXES: IndexSpec[] = [
+  {
+    name: "scores_mode_rank_idx",
+    fields: ["board", "mode", "boardDate", "status", ...RANK_FIELDS],
+  },
+  {
+    name: "scores_mode_best_rank_idx",
+    fields: [
+      "board",
+      "mode",
+      "boardDate",
+      "status",
+      "isPersonalBest",
+      ...RANK_FIELDS,
+    ],
+  },
+  {
+    name: "scores_mode_created_at_idx",
+    fields: ["board", "mode", "boardDate", "createdAt"],
+  },
+  {
+    name: "scores_player_mode_idx",
+    fields: ["playerId", "board", "mode", "boardDate"],
+  },
+];
+
+export const addGameModes: Migration = {
+  name: "009-add-game-modes",
+  up: async (queryInterface, transaction) => {
+    for (const table of ["scores", "game_sessions"]) {
+      await addColumnIfMissing(queryInterface, transaction, table, "mode", {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+        defaultValue: "classic",
+      });
+    }
+    for (const index of MODE_INDEXES) {
+      await addIndexIfMissing(queryInterface, transaction, "scores", index);
+    }
+    for (const index of BOARD_INDEXES) {
+      await queryInterface.removeIndex("scores", index.name, { transaction });
+    }
+  },
+  // Dropping the column drops the mode indexes with it.
+  down: async (queryInterface, transaction) => {
+    await queryInterface.removeColumn("game_sessions", "mode", { transaction });
+    await queryInterface.removeColumn("scores", "mode", { transaction });
+    for (const index of BOARD_INDEXES) {
+      await addIndexIfMissing(queryInterface, transaction, "scores", index);
+    }
+  },
+};
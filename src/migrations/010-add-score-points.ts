@@ -0,0 +1,45 @@
+import { DataTypes } from "sequelize";
+import { MODE_INDEXES, type IndexSpec } from "./009-add-game-modes";
+import { addColumnIfMissing, addIndexIfMissing, type Migration } from "./helpers";
+
+export const POINTS_INDEX: IndexSpec = {
+  name: "scores_points_rank_idx",
+  fields: [
+    "board",
+    "mode",
+    "boardDate",
+    "status",
+    { name: "points", order: "DESC" },
+    { name: "candles", order: "DESC" },
+    "timeMs",
+    "createdAt",
+    "id",
+  ],
+};
+
+export const addScorePoints: Migration = {
+  name: "010-add-score-points",
+  up: async (queryInterface, transaction) => {
+    await addColumnIfMissing(queryInterface, transaction, "scores", "points", {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    });
+    await addIndexIfMissing(
+      queryInterface,
+      transaction,
+      "scores",
+      POINTS_INDEX,
+    );
+  },
+  down: async (queryInterface, transaction) => {
+    await queryInterface.removeIndex("scores", POINTS_INDEX.name, {
+      transaction,
+    });
+    await queryInterface.removeColumn("scores", "points", { transaction });
+    // SQLite drops a column by rebuilding the table, which loses its indexes.
+    for (const index of MODE_INDEXES) {
+      await addIndexIfMissing(queryInterface, transaction, "scores", index);
+    }
+  },
+};
@@ -0,0 +1,27 @@
+import { DataTypes } from "sequelize";
+import { MODE_INDEXES } from "./009-add-game-modes";
+import { POINTS_INDEX } from "./010-add-score-points";
+import { addColumnIfMissing, addIndexIfMissing, type Migration } from "./helpers";
+
+export const addScorePowerUps: Migration = {
+  name: "011-add-score-power-ups",
+  up: async (queryInterface, transaction) => {
+    await addColumnIfMissing(
+      queryInterface,
+      transaction,
+      "scores",
+      "powerUps",
+      {
+        type: DataTypes.JSON,
+        allowNull: true,
+      },
+    );
+  },
+  down: async (queryInterface, transaction) => {
+    await queryInterface.removeColumn("scores", "powerUps", { transaction });
+    // SQLite drops a column by rebuilding the table, which loses its indexes.
+    for (const index of [...MODE_INDEXES, POINTS_INDEX]) {
+      await addIndexIfMissing(queryInterface, transaction, "scores", index);
+    }
+  },
+};
@@ -0,0 +1,83 @@
+import { DataTypes } from "sequelize";
+import { MODE_INDEXES, type IndexSpec } from "./009-add-game-modes";
+import { POINTS_INDEX } from "./010-add-score-points";
+import {
+  addColumnIfMissing,
+  addIndexIfMissing,
+  timestamps,
+  type Migration,
+} from "./helpers";
+
+export const EVENT_INDEX: IndexSpec = {
+  name: "scores_event_board_idx",
+  fields: ["eventId", "board", "mode", "boardDate", "status"],
+};
+
+export const createEvents: Migration = {
+  name: "012-create-events",
+  up: async (queryInterface, transaction) => {
+    await queryInterface.createTable(
+      "events",
+      {
+        id: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          autoIncrement: true,
+          primaryKey: true,
+        },
+        slug: {
+          type: DataTypes.STRING(40),
+          allowNull: false,
+          unique: true,
+        },
+        honoree: {
+          type: DataTypes.STRING(40),
+          allowNull: false,
+        },
+        age: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+        },
+        theme: {
+          type: DataTypes.STRING(16),
+          allowNull: false,
+          defaultValue: "party",
+        },
+        startDate: {
+          type: DataTypes.DATEONLY,
+          allowNull: true,
+        },
+        endDate: {
+          type: DataTypes.DATEONLY,
+          allowNull: true,
+        },
+        ...timestamps,
+      },
+      { transaction },
+    );
+    for (const table of ["scores", "game_sessions"]) {
+      await addColumnIfMissing(queryInterface, transaction, table, "eventId", {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        references: { model: "events", key: "id" },
+        onDelete: "CASCADE",
+        onUpdate: "CASCADE",
+      });
+    }
+    await addIndexIfMissing(queryInterface, transaction, "scores", EVENT_INDEX);
+  },
+  down: async (queryInterface, transaction) => {
+    await queryInterface.removeIndex("scores", EVENT_INDEX.name, {
+      transaction,
+    });
+    await queryInterface.removeColumn("game_sessions", "eventId", {
+      transaction,
+    });
+    await queryInterface.removeColumn("scores", "eventId", { transaction });
+    // SQLite drops a column by rebuilding the table, which loses its indexes.
+    for (const index of [...MODE_INDEXES, POINTS_INDEX]) {
+      await addIndexIfMissing(queryInterface, transaction, "scores", index);
+    }
+    await queryInterface.dropTable("events", { transaction });
+  },
+};
@@ -0,0 +1,66 @@
+import { DataTypes } from "sequelize";
+import { addColumnIfMissing, addIndexIfMissing, type Migration } from "./helpers";
+
+const EXPIRES_AT_INDEX = {
+  name: "events_expires_at_idx",
+  fields: ["expiresAt"],
+};
+
+export const addEventOrganizers: Migration = {
+  name: "013-add-event-organizers",
+  up: async (queryInterface, transaction) => {
+    await addColumnIfMissing(queryInterface, transaction, "events", "message", {
+      type: DataTypes.STRING(280),
+      allowNull: true,
+    });
+    await addColumnIfMissing(
+      queryInterface,
+      transaction,
+      "events",
+      "organizerTokenHash",
+      {
+        type: DataTypes.STRING(64),
+        allowNull: true,
+      },
+    );
+    await addColumnIfMissing(
+      queryInterface,
+      transaction,
+      "events",
+      "closedAt",
+      {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    );
+    await addColumnIfMissing(
+      queryInterface,
+      transaction,
+      "events",
+      "expiresAt",
+      {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    );
+    await addIndexIfMissing(
+      queryInterface,
+      transaction,
+      "events",
+      EXPIRES_AT_INDEX,
+    );
+  },
+  down: async (queryInterface, transaction) => {
+    await queryInterface.removeIndex("events", EXPIRES_AT_INDEX.name, {
+      transaction,
+    });
+    for (const column of [
+      "expiresAt",
+      "closedAt",
+      "organizerTokenHash",
+      "message",
+    ]) {
+      await queryInterface.removeColumn("events", column, { transaction });
+    }
+  },
+};
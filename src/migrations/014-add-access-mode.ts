@@ -0,0 +1,33 @@
+import { DataTypes } from "sequelize";
+import { MODE_INDEXES } from "./009-add-game-modes";
+import { POINTS_INDEX } from "./010-add-score-points";
+import { EVENT_INDEX } from "./012-create-events";
+import { addColumnIfMissing, addIndexIfMissing, type Migration } from "./helpers";
+
+export const addAccessMode: Migration = {
+  name: "014-add-access-mode",
+  up: async (queryInterface, transaction) => {
+    for (const table of ["scores", "game_sessions"]) {
+      await addColumnIfMissing(
+        queryInterface,
+        transaction,
+        table,
+        "accessMode",
+        {
+          type: DataTypes.STRING(16),
+          allowNull: true,
+        },
+      );
+    }
+  },
+  down: async (queryInterface, transaction) => {
+    await queryInterface.removeColumn("game_sessions", "accessMode", {
+      transaction,
+    });
+    await queryInterface.removeColumn("scores", "accessMode", { transaction });
+    // SQLite drops a column by rebuilding the table, which loses its indexes.
+    for (const index of [...MODE_INDEXES, POINTS_INDEX, EVENT_INDEX]) {
+      await addIndexIfMissing(queryInterface, transaction, "scores", index);
+    }
+  },
+};
@@ -0,0 +1,28 @@
+import { DataTypes } from "sequelize";
+import { MODE_INDEXES } from "./009-add-game-modes";
+import { POINTS_INDEX } from "./010-add-score-points";
+import { EVENT_INDEX } from "./012-create-events";
+import { addColumnIfMissing, addIndexIfMissing, type Migration } from "./helpers";
+
+export const addScoreInputMethod: Migration = {
+  name: "015-add-score-input-method",
+  up: async (queryInterface, transaction) => {
+    await addColumnIfMissing(
+      queryInterface,
+      transaction,
+      "scores",
+      "inputMethod",
+      {
+        type: DataTypes.STRING(16),
+        allowNull: true,
+      },
+    );
+  },
+  down: async (queryInterface, transaction) => {
+    await queryInterface.removeColumn("scores", "inputMethod", { transaction });
+    // SQLite drops a column by rebuilding the table, which loses its indexes.
+    for (const index of [...MODE_INDEXES, POINTS_INDEX, EVENT_INDEX]) {
+      await addIndexIfMissing(queryInterface, transaction, "scores", index);
+    }
+  },
+};
@@ -0,0 +1,74 @@
+import {
+  DataTypes,
+  type ModelAttributeColumnOptions,
+  type ModelAttributes,
+  type QueryInterface,
+  type QueryInterfaceIndexOptions,
+  type Transaction,
+} from "sequelize";
+
+// Every query a step runs must pass the transaction, or it runs outside it.
+export type Migration = {
+  name: string;
+  up: (
+    queryInterface: QueryInterface,
+    transaction: Transaction,
+  ) => Promise<void>;
+  down: (
+    queryInterface: QueryInterface,
+    transaction: Transaction,
+  ) => Promise<void>;
+};
+
+// Databases created before migrations existed were built by
+// sequelize.sync, so the early migrations adopt whatever is already there.
+export async function createTableIfMissing(
+  queryInterface: QueryInterface,
+  transaction: Transaction,
+  table: string,
+  attributes: ModelAttributes,
+) {
+  if (await queryInterface.tableExists(table, { transaction })) return;
+  await queryInterface.createTable(table, attributes, { transaction });
+}
+
+export async function addColumnIfMissing(
+  queryInterface: QueryInterface,
+  transaction: Transaction,
+  table: string,
+  column: string,
+  attribute: ModelAttributeColumnOptions,
+) {
+  // describeTable forwards query options, though its typings leave them out.
+  const options = { transaction } as { schema?: string };
+  const columns = await queryInterface.describeTable(table, options);
+  if (column in columns) return;
+  await queryInterface.addColumn(table, column, attribute, { transaction });
+}
+
+export async function addIndexIfMissing(
+  queryInterface: QueryInterface,
+  transaction: Transaction,
+  table: string,
+  options: QueryInterfaceIndexOptions & {
+    name: string;
+    fields: NonNullable<QueryInterfaceIndexOptions["fields"]>;
+  },
+) {
+  const indexes = (await queryInterface.showIndex(table, { transaction })) as {
+    name: string;
+  }[];
+  if (indexes.some((index) => index.name === options.name)) return;
+  await queryInterface.addIndex(table, { ...options, transaction });
+}
+
+export const timestamps = {
+  createdAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+  },
+  updatedAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+  },
+};
@@ -0,0 +1,35 @@
+import { createScores } from "./001-create-scores";
+import { createGameSessions } from "./002-create-game-sessions";
+import { createPlayers } from "./003-create-players";
+import { extendScores } from "./004-extend-scores";
+import { createEmailVerifications } from "./005-create-email-verifications";
+import { createModerationActions } from "./006-create-moderation-actions";
+import { createRateLimitBuckets } from "./007-create-rate-limit-buckets";
+import { createRooms } from "./008-create-rooms";
+import { addGameModes } from "./009-add-game-modes";
+import { addScorePoints } from "./010-add-score-points";
+import { addScorePowerUps } from "./011-add-score-power-ups";
+import { createEvents } from "./012-create-events";
+import { addEventOrganizers } from "./013-add-event-organizers";
+import { addAccessMode } from "./014-add-access-mode";
+import { addScoreInputMethod } from "./015-add-score-input-method";
+import type { Migration } from "./helpers";
+
+// Append new migrations at the end; names are recorded in schema_migrations.
+export const migrations: Migration[] = [
+  createScores,
+  createGameSessions,
+  createPlayers,
+  extendScores,
+  createEmailVerifications,
+  createModerationActions,
+  createRateLimitBuckets,
+  createRooms,
+  addGameModes,
+  addScorePoints,
+  addScorePowerUps,
+  createEvents,
+  addEventOrganizers,
+  addAccessMode,
+  addScoreInputMethod,
+];
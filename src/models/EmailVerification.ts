@@ -0,0 +1,52 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "@/lib/db";
+import { Score } from "@/models/Score";
+
+export class EmailVerification extends Model {
+  declare id: number;
+  declare scoreId: number;
+  declare email: string;
+  declare tokenHash: string;
+  declare expiresAt: Date;
+  declare usedAt: Date | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+EmailVerification.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    scoreId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    email: {
+      type: DataTypes.STRING(254),
+      allowNull: false,
+    },
+    tokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "email_verifications",
+  },
+);
+
+EmailVerification.belongsTo(Score, { foreignKey: "scoreId", as: "score" });
@@ -0,0 +1,82 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "@/lib/db";
+import type { EventTheme } from "@/lib/events";
+
+export class Event extends Model {
+  declare id: number;
+  declare slug: string;
+  declare honoree: string;
+  declare age: number;
+  declare theme: EventTheme;
+  declare startDate: string | null;
+  declare endDate: string | null;
+  declare message: string | null;
+  declare organizerTokenHash: string | null;
+  declare closedAt: Date | null;
+  declare expiresAt: Date | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+Event.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    slug: {
+      type: DataTypes.STRING(40),
+      allowNull: false,
+      unique: true,
+    },
+    honoree: {
+      type: DataTypes.STRING(40),
+      allowNull: false,
+    },
+    age: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    theme: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      defaultValue: "party",
+    },
+    startDate: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+    },
+    endDate: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+    },
+    message: {
+      type: DataTypes.STRING(280),
+      allowNull: true,
+    },
+    organizerTokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    closedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "events",
+    indexes: [
+      {
+        name: "events_expires_at_idx",
+        fields: ["expiresAt"],
+      },
+    ],
+  },
+);
@@ -0,0 +1,73 @@
+import { DataTypes, Model } from "sequelize";
+import type { AccessMode } from "@/lib/accessibility";
+import type { Board } from "@/lib/boards";
+import { sequelize } from "@/lib/db";
+import type { GameMode } from "@/lib/modes";
+
+export class GameSession extends Model {
+  declare id: string;
+  declare seed: number;
+  declare startedAt: Date;
+  declare expiresAt: Date;
+  declare usedAt: Date | null;
+  declare board: Board;
+  declare mode: GameMode;
+  declare boardDate: string | null;
+  declare eventId: number | null;
+  declare accessMode: AccessMode | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+GameSession.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    seed: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    board: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      defaultValue: "classic",
+    },
+    mode: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      defaultValue: "classic",
+    },
+    boardDate: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+    },
+    eventId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    accessMode: {
+      type: DataTypes.STRING(16),
+      allowNull: true,
+    },
+    startedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "game_sessions",
+  },
+);
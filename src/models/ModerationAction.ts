@@ -0,0 +1,51 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "@/lib/db";
+
+export type ModerationKind = "hide" | "unhide" | "rename" | "delete";
+
+export class ModerationAction extends Model {
+  declare id: number;
+  declare scoreId: number;
+  declare actor: string;
+  declare action: ModerationKind;
+  declare before: Record<string, unknown> | null;
+  declare after: Record<string, unknown> | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+ModerationAction.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    scoreId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    actor: {
+      type: DataTypes.STRING(60),
+      allowNull: false,
+    },
+    action: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+    },
+    before: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    after: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "moderation_actions",
+    indexes: [{ name: "moderation_actions_score_idx", fields: ["scoreId"] }],
+  },
+);
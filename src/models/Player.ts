@@ -0,0 +1,44 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "@/lib/db";
+
+export class Player extends Model {
+  declare id: number;
+  declare clientId: string;
+  declare displayName: string;
+  declare email: string | null;
+  declare emailVerifiedAt: Date | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+Player.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    clientId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      unique: true,
+    },
+    displayName: {
+      type: DataTypes.STRING(40),
+      allowNull: false,
+    },
+    email: {
+      type: DataTypes.STRING(254),
+      allowNull: true,
+    },
+    emailVerifiedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "players",
+  },
+);
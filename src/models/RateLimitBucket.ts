@@ -0,0 +1,33 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "@/lib/db";
+
+export class RateLimitBucket extends Model {
+  declare key: string;
+  declare windowStart: Date;
+  declare count: number;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+RateLimitBucket.init(
+  {
+    key: {
+      type: DataTypes.STRING(200),
+      allowNull: false,
+      primaryKey: true,
+    },
+    windowStart: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+  },
+  {
+    sequelize,
+    tableName: "rate_limit_buckets",
+  },
+);
@@ -0,0 +1,52 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "@/lib/db";
+
+export type RoomStatus = "lobby" | "countdown" | "running" | "results";
+
+export class Room extends Model {
+  declare id: number;
+  declare code: string;
+  declare hostPlayerId: number;
+  declare status: RoomStatus;
+  declare seed: number | null;
+  declare startsAt: Date | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+Room.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    code: {
+      type: DataTypes.STRING(8),
+      allowNull: false,
+      unique: true,
+    },
+    hostPlayerId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      defaultValue: "lobby",
+    },
+    seed: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    startsAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "rooms",
+  },
+);
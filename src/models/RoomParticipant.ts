@@ -0,0 +1,72 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "@/lib/db";
+import type { EndReason } from "@/lib/game";
+import { Player } from "@/models/Player";
+import { Room } from "@/models/Room";
+
+export class RoomParticipant extends Model {
+  declare id: number;
+  declare roomId: number;
+  declare playerId: number;
+  declare name: string;
+  declare candles: number;
+  declare timeMs: number | null;
+  declare endReason: EndReason | null;
+  declare finishedAt: Date | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+RoomParticipant.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    roomId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    playerId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    name: {
+      type: DataTypes.STRING(40),
+      allowNull: false,
+    },
+    candles: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    timeMs: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    endReason: {
+      type: DataTypes.STRING(16),
+      allowNull: true,
+    },
+    finishedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "room_participants",
+    indexes: [
+      {
+        name: "room_participants_room_player_idx",
+        unique: true,
+        fields: ["roomId", "playerId"],
+      },
+    ],
+  },
+);
+
+RoomParticipant.belongsTo(Room, { foreignKey: "roomId", as: "room" });
+RoomParticipant.belongsTo(Player, { foreignKey: "playerId", as: "player" });
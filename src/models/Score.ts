@@ -1,12 +1,32 @@
 import { DataTypes, Model } from "sequelize";
+import type { AccessMode } from "@/lib/accessibility";
+import type { Board } from "@/lib/boards";
+import type { PowerUp } from "@/lib/game";
 import { sequelize } from "@/lib/db";
+import type { InputMethod } from "@/lib/input";
+import type { GameMode } from "@/lib/modes";
+import { Player } from "@/models/Player";
+
+export type ScoreStatus = "published" | "pending";
 
 export class Score extends Model {
   declare id: number;
   declare name: string;
   declare candles: number;
+  declare points: number;
+  declare powerUps: Record<PowerUp, number> | null;
   declare timeMs: number;
   declare email: string | null;
+  declare playerId: number | null;
+  declare isPersonalBest: boolean;
+  declare status: ScoreStatus;
+  declare hiddenAt: Date | null;
+  declare board: Board;
+  declare mode: GameMode;
+  declare boardDate: string | null;
+  declare eventId: number | null;
+  declare accessMode: AccessMode | null;
+  declare inputMethod: InputMethod | null;
   declare createdAt: Date;
   declare updatedAt: Date;
 }
@@ -33,6 +53,59 @@ Score.init(
       allowNull: false,
       defaultValue: 0,
     },
+    points: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    powerUps: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    playerId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    isPersonalBest: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    status: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      defaultValue: "published",
+    },
+    hiddenAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    board: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      defaultValue: "classic",
+    },
+    mode: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      defaultValue: "classic",
+    },
+    boardDate: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+    },
+    eventId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    accessMode: {
+      type: DataTypes.STRING(16),
+      allowNull: true,
+    },
+    inputMethod: {
+      type: DataTypes.STRING(16),
+      allowNull: true,
+    },
     email: {
       type: DataTypes.STRING(254),
       allowNull: true,
@@ -41,5 +114,62 @@ Score.init(
   {
     sequelize,
     tableName: "scores",
+    indexes: [
+      {
+        name: "scores_mode_rank_idx",
+        fields: [
+          "board",
+          "mode",
+          "boardDate",
+          "status",
+          { name: "candles", order: "DESC" },
+          "timeMs",
+          "createdAt",
+          "id",
+        ],
+      },
+      {
+        name: "scores_mode_best_rank_idx",
+        fields: [
+          "board",
+          "mode",
+          "boardDate",
+          "status",
+          "isPersonalBest",
+          { name: "candles", order: "DESC" },
+          "timeMs",
+          "createdAt",
+          "id",
+        ],
+      },
+      {
+        name: "scores_points_rank_idx",
+        fields: [
+          "board",
+          "mode",
+          "boardDate",
+          "status",
+          { name: "points", order: "DESC" },
+          { name: "candles", order: "DESC" },
+          "timeMs",
+          "createdAt",
+          "id",
+        ],
+      },
+      {
+        name: "scores_event_board_idx",
+        fields: ["eventId", "board", "mode", "boardDate", "status"],
+      },
+      {
+        name: "scores_mode_created_at_idx",
+        fields: ["board", "mode", "boardDate", "createdAt"],
+      },
+      {
+        name: "scores_player_mode_idx",
+        fields: ["playerId", "board", "mode", "boardDate"],
+      },
+    ],
   },
 );
+
+Score.belongsTo(Player, { foreignKey: "playerId", as: "player" });
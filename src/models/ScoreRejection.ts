@@ -0,0 +1,60 @@
+import { DataTypes, Model } from "sequelize";
+import { sequelize } from "@/lib/db";
+
+export class ScoreRejection extends Model {
+  declare id: number;
+  declare sessionId: string | null;
+  declare name: string;
+  declare candles: number;
+  declare timeMs: number;
+  declare endReason: string | null;
+  declare reason: string;
+  declare details: Record<string, unknown> | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+ScoreRejection.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    sessionId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+    },
+    name: {
+      type: DataTypes.STRING(40),
+      allowNull: false,
+    },
+    candles: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    timeMs: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    endReason: {
+      type: DataTypes.STRING(16),
+      allowNull: true,
+    },
+    reason: {
+      type: DataTypes.STRING(40),
+      allowNull: false,
+    },
+    details: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "score_rejections",
+  },
+);
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+
+process.env.SQLITE_STORAGE = ":memory:";
+delete process.env.DATABASE_URL;
+process.env.ADMIN_TOKENS = "tester:admin-secret";
+
+describe("GET /api/admin/scores search", () => {
+  let adminScores: typeof import("@/app/api/admin/scores/route");
+
+  before(async () => {
+    const { ensureDb } = await import("@/lib/db");
+    const { Score } = await import("@/models/Score");
+    adminScores = await import("@/app/api/admin/scores/route");
+    await ensureDb();
+    const names = [
+      "Ann_Lee",
+      "AnnXLee",
+      "Half%Off",
+      "Half Off",
+      "Back\\Slash",
+      "BackSlash",
+    ];
+    await Score.bulkCreate(
+      names.map((name) => ({ name, candles: 5, timeMs: 9000 })),
+    );
+  });
+
+  const search = async (q: string) => {
+    const response = await adminScores.GET(
+      new Request(
+        `http://localhost/api/admin/scores?${new URLSearchParams({ q })}`,
+        { headers: { Authorization: "Bearer admin-secret" } },
+      ),
+    );
+    assert.equal(response.status, 200);
+    const body = (await response.json()) as { scores: { name: string }[] };
+    return body.scores.map((entry) => entry.name);
+  };
+
+  it("matches wildcard characters literally", async () => {
+    assert.deepEqual(await search("_"), ["Ann_Lee"]);
+    assert.deepEqual(await search("n_l"), ["Ann_Lee"]);
+    assert.deepEqual(await search("%"), ["Half%Off"]);
+    assert.deepEqual(await search("\\"), ["Back\\Slash"]);
+  });
+
+  it("still matches any part of the name, ignoring case", async () => {
+    assert.deepEqual((await search("LEE")).sort(), ["AnnXLee", "Ann_Lee"]);
+  });
+});
@@ -0,0 +1,192 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  DEFAULT_CONFIG,
+  createGame,
+  elapsedMs,
+  popCandle,
+  replayRound,
+  tick,
+  type Candle,
+  type CandleKind,
+  type GameConfig,
+  type GameState,
+} from "@/lib/game";
+import { playRound } from "./helpers/rounds";
+
+// No candles of its own and no spawns before the round ends, so each test
+// lays out exactly the candles it needs.
+const QUIET_CONFIG: GameConfig = {
+  ...DEFAULT_CONFIG,
+  initialCandles: 0,
+  spawnMs: 60_000,
+};
+
+const candle = (id: string, kind: CandleKind, x = 50, y = 30): Candle => ({
+  id,
+  x,
+  y,
+  kind,
+  bornAt: 0,
+  delay: 0,
+  state: "alive",
+  poppedAt: null,
+});
+
+const gameWith = (
+  candles: Candle[],
+  config: GameConfig = QUIET_CONFIG,
+): GameState => ({ ...createGame(1, config), candles });
+
+const popAll = (state: GameState, pops: [string, number][]) =>
+  pops.reduce((next, [id, atMs]) => popCandle(next, id, atMs), state);
+
+describe("createGame and replayRound", () => {
+  it("start with no pop recorded", () => {
+    assert.equal(createGame(7).lastPopAt, null);
+  });
+
+  it("give the same state for the same seed and inputs", () => {
+    const { inputs } = playRound(42, 6);
+    assert.deepEqual(createGame(42), createGame(42));
+    assert.deepEqual(replayRound(42, inputs), replayRound(42, inputs));
+    assert.notDeepEqual(createGame(42).candles, createGame(43).candles);
+  });
+});
+
+describe("freeze", () => {
+  it("pushes the deadline back by the freeze length", () => {
+    const frozen = popCandle(gameWith([candle("f", "freeze")]), "f", 1000);
+    assert.equal(frozen.frozenMs, DEFAULT_CONFIG.freezeMs);
+
+    const atOldDeadline = tick(frozen, DEFAULT_CONFIG.gameMs);
+    assert.equal(atOldDeadline.status, "running");
+
+    const ended = tick(frozen, DEFAULT_CONFIG.gameMs + DEFAULT_CONFIG.freezeMs);
+    assert.equal(ended.endReason, "time");
+    assert.equal(elapsedMs(ended), DEFAULT_CONFIG.gameMs);
+  });
+
+  it("stops adding time at the cap", () => {
+    const state = popAll(
+      gameWith(["a", "b", "c"].map((id) => candle(id, "freeze", 20))),
+      [
+        ["a", 100],
+        ["b", 200],
+        ["c", 300],
+      ],
+    );
+    assert.equal(state.frozenMs, DEFAULT_CONFIG.maxFreezeMs);
+    assert.equal(state.powerUps.freeze, 3);
+  });
+});
+
+describe("shield", () => {
+  it("absorbs one bomb and keeps the round going", () => {
+    const state = popAll(
+      gameWith([candle("s", "shield"), candle("b", "bomb", 80)]),
+      [
+        ["s", 100],
+        ["b", 200],
+      ],
+    );
+    assert.equal(state.status, "running");
+    assert.equal(state.shields, 0);
+    const bomb = state.candles.find((entry) => entry.id === "b");
+    assert.equal(bomb?.state, "shielded");
+  });
+
+  it("lets an unshielded bomb end the round", () => {
+    const state = popCandle(gameWith([candle("b", "bomb")]), "b", 100);
+    assert.equal(state.endReason, "bomb");
+    assert.equal(state.points, 0);
+  });
+});
+
+describe("magnet", () => {
+  it("pops ordinary candles in range and leaves the rest", () => {
+    const state = popCandle(
+      gameWith([
+        candle("m", "magnet", 50, 30),
+        candle("near", "plain", 55, 30),
+        candle("gold", "golden", 60, 40),
+        candle("far", "plain", 90, 60),
+        candle("bomb", "bomb", 52, 32),
+      ]),
+      "m",
+      100,
+    );
+    const states = Object.fromEntries(
+      state.candles.map((entry) => [entry.id, entry.state]),
+    );
+    assert.deepEqual(states, {
+      m: "blown",
+      near: "blown",
+      gold: "blown",
+      far: "alive",
+      bomb: "alive",
+    });
+    assert.equal(state.candlesPlaced, 3);
+  });
+});
+
+describe("points and streaks", () => {
+  it("multiplies pops by the streak and adds the golden bonus", () => {
+    const state = popAll(
+      gameWith([
+        candle("a", "plain", 20),
+        candle("b", "plain", 40),
+        candle("g", "golden", 60),
+      ]),
+      [
+        ["a", 100],
+        ["b", 200],
+        ["g", 300],
+      ],
+    );
+    assert.equal(state.combo, 3);
+    assert.equal(state.points, 10 * 1 + 10 * 2 + 10 * 3 + 25);
+  });
+
+  it("resets the streak after the combo window and caps it", () => {
+    const config = { ...QUIET_CONFIG, maxCombo: 2, candleLifeMs: 10_000 };
+    const state = popAll(
+      gameWith(
+        ["a", "b", "c", "d"].map((id, index) =>
+          candle(id, "plain", 20 * index),
+        ),
+        config,
+      ),
+      [
+        ["a", 100],
+        ["b", 200],
+        ["c", 300],
+        ["d", 300 + config.comboWindowMs + 1],
+      ],
+    );
+    assert.equal(state.combo, 1);
+    assert.equal(state.points, 10 * 1 + 10 * 2 + 10 * 2 + 10 * 1);
+  });
+
+  it("takes the bomb penalty off the points", () => {
+    const state = popAll(
+      gameWith([
+        ...["a", "b", "c", "d", "e", "f"].map((id, index) =>
+          candle(id, "plain", 10 + 10 * index),
+        ),
+        candle("bomb", "bomb", 90),
+      ]),
+      [
+        ["a", 100],
+        ["b", 200],
+        ["c", 300],
+        ["d", 400],
+        ["e", 500],
+        ["f", 600],
+        ["bomb", 700],
+      ],
+    );
+    assert.equal(state.points, 10 * (1 + 2 + 3 + 4 + 5 + 6) - 100);
+    assert.equal(state.combo, 0);
+  });
+});
@@ -0,0 +1,74 @@
+import { DEFAULT_EVENT, eventConfig } from "@/lib/events";
+import { createGame, elapsedMs, popCandle, replayRound, tick } from "@/lib/game";
+
+export type Round = {
+  candles: number;
+  timeMs: number;
+  endReason: string;
+  inputs: { candleId: string; atMs: number }[];
+};
+
+const RealDate = Date;
+
+// Rounds are replayed at full length, so the server clock has to have moved
+// on by the time they are submitted.
+export const shiftClock = (offsetMs: number) => {
+  class ShiftedDate extends RealDate {
+    constructor(...args: ConstructorParameters<typeof Date> | []) {
+      if (args.length === 0) {
+        super(RealDate.now() + offsetMs);
+      } else {
+        super(...(args as ConstructorParameters<typeof Date>));
+      }
+    }
+
+    static now() {
+      return RealDate.now() + offsetMs;
+    }
+  }
+  globalThis.Date = ShiftedDate as DateConstructor;
+};
+
+export const resetClock = () => {
+  globalThis.Date = RealDate;
+};
+
+export const CLOCK_SHIFT_MS = 20_000;
+
+// Pops the first `pops` safe candles it sees, then lets the clock run out.
+export const playRound = (seed: number, pops: number): Round => {
+  const config = eventConfig("classic", DEFAULT_EVENT.age);
+  let state = createGame(seed, config);
+  const inputs: Round["inputs"] = [];
+  for (let atMs = 50; atMs < config.gameMs && inputs.length < pops; atMs += 50) {
+    state = tick(state, atMs);
+    if (state.status !== "running") break;
+    const candle = state.candles.find(
+      (entry) => entry.state === "alive" && entry.kind === "plain",
+    );
+    if (!candle) continue;
+    inputs.push({ candleId: candle.id, atMs });
+    state = popCandle(state, candle.id, atMs);
+  }
+  const final = replayRound(seed, inputs, config);
+  return {
+    candles: final.candlesPlaced,
+    timeMs: elapsedMs(final),
+    endReason: final.endReason ?? "time",
+    inputs,
+  };
+};
+
+export const jsonRequest = (
+  url: string,
+  body: Record<string, unknown>,
+  ip: string,
+) =>
+  new Request(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Forwarded-For": ip,
+    },
+    body: JSON.stringify(body),
+  });
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import type { BoardScope } from "@/lib/leaderboard";
+import type { GameMode } from "@/lib/modes";
+
+process.env.SQLITE_STORAGE = ":memory:";
+delete process.env.DATABASE_URL;
+
+describe("cursor pagination", () => {
+  let leaderboard: typeof import("@/lib/leaderboard");
+  let Score: typeof import("@/models/Score").Score;
+
+  before(async () => {
+    const { ensureDb } = await import("@/lib/db");
+    leaderboard = await import("@/lib/leaderboard");
+    ({ Score } = await import("@/models/Score"));
+    await ensureDb();
+  });
+
+  // Two values per rank key, so most rows tie with several others and many
+  // share every key but the id.
+  const seedBoard = async (mode: GameMode) => {
+    const scope: BoardScope = {
+      board: "daily",
+      mode,
+      boardDate: "2026-03-14",
+      eventId: null,
+    };
+    const createdAt = [
+      new Date("2026-03-14T10:00:00Z"),
+      new Date("2026-03-14T11:00:00Z"),
+    ];
+    await Score.bulkCreate(
+      Array.from({ length: 23 }, (_, index) => ({
+        name: `Tied ${index}`,
+        points: (index % 2) * 50,
+        candles: 10 + (Math.floor(index / 2) % 2),
+        timeMs: 9000 + (Math.floor(index / 4) % 2) * 500,
+        createdAt: createdAt[Math.floor(index / 8) % 2],
+        ...scope,
+      })),
+    );
+    return scope;
+  };
+
+  const readPage = (scope: BoardScope, params: Record<string, string>) => {
+    const { query } = leaderboard.readLeaderboardQuery(
+      new URLSearchParams(params),
+    );
+    assert.ok(query);
+    return leaderboard.findLeaderboardPage(scope, query);
+  };
+
+  const walkPages = async (scope: BoardScope, limit: number) => {
+    const ids: number[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await readPage(scope, {
+        limit: String(limit),
+        ...(cursor ? { cursor } : {}),
+      });
+      ids.push(...page.scores.map((entry) => entry.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+    return ids;
+  };
+
+  for (const mode of ["classic", "attack"] as const) {
+    it(`visits every tied ${mode} score once, in board order`, async () => {
+      const scope = await seedBoard(mode);
+      const whole = await readPage(scope, { limit: "100" });
+      const expected = whole.scores.map((entry) => entry.id);
+      assert.equal(expected.length, 23);
+      const saved = whole.scores.map((entry) => entry.createdAt.getTime());
+      assert.equal(new Set(saved).size, 2);
+
+      for (const limit of [1, 3, 4, 10]) {
+        const ids = await walkPages(scope, limit);
+        assert.deepEqual(ids, expected, `limit ${limit}`);
+      }
+    });
+  }
+});
@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import type { BoardScope, LeaderboardQuery } from "@/lib/leaderboard";
+
+process.env.SQLITE_STORAGE = ":memory:";
+delete process.env.DATABASE_URL;
+
+describe("leaderboard page cache", () => {
+  let cache: typeof import("@/lib/leaderboardCache");
+  let leaderboard: typeof import("@/lib/leaderboard");
+
+  before(async () => {
+    cache = await import("@/lib/leaderboardCache");
+    leaderboard = await import("@/lib/leaderboard");
+  });
+
+  // Each test gets boards of its own, since the cache outlives a test.
+  let nextEventId = 1000;
+  const freshScope = (): BoardScope => ({
+    board: "classic",
+    mode: "classic",
+    boardDate: null,
+    eventId: (nextEventId += 1),
+  });
+
+  const pageQuery = (offset = 0): LeaderboardQuery => {
+    const { query } = leaderboard.readLeaderboardQuery(
+      new URLSearchParams({ offset: String(offset) }),
+    );
+    assert.ok(query);
+    return query;
+  };
+
+  const counter = () => {
+    const counts = { loads: 0 };
+    const load = async () => ({ load: (counts.loads += 1) });
+    return { counts, load };
+  };
+
+  it("serves a page from memory until it expires", async () => {
+    const scope = freshScope();
+    const { counts, load } = counter();
+    const first = await cache.readCachedPage(scope, pageQuery(), load, 0);
+    const again = await cache.readCachedPage(scope, pageQuery(), load, 10);
+    assert.equal(counts.loads, 1);
+    assert.equal(again.etag, first.etag);
+
+    const ttl = cache.LEADERBOARD_CACHE_TTL_MS;
+    await cache.readCachedPage(scope, pageQuery(), load, ttl);
+    assert.equal(counts.loads, 2);
+  });
+
+  it("drops only the invalidated board's pages", async () => {
+    const changed = freshScope();
+    const untouched = freshScope();
+    const { counts, load } = counter();
+    await cache.readCachedPage(changed, pageQuery(), load, 0);
+    await cache.readCachedPage(untouched, pageQuery(), load, 0);
+
+    cache.invalidateLeaderboard(changed);
+    const reloaded = await cache.readCachedPage(changed, pageQuery(), load, 1);
+    await cache.readCachedPage(untouched, pageQuery(), load, 1);
+    assert.equal(counts.loads, 3);
+    assert.equal(reloaded.body, JSON.stringify({ load: 3 }));
+  });
+
+  it("does not store a page that was invalidated while loading", async () => {
+    const scope = freshScope();
+    const { counts, load } = counter();
+    const stale = await cache.readCachedPage(
+      scope,
+      pageQuery(),
+      async () => {
+        cache.invalidateLeaderboard(scope);
+        return load();
+      },
+      0,
+    );
+    assert.equal(stale.body, JSON.stringify({ load: 1 }));
+
+    await cache.readCachedPage(scope, pageQuery(), load, 1);
+    assert.equal(counts.loads, 2);
+  });
+
+  it("evicts the oldest board once the cache is full", async () => {
+    const oldest = freshScope();
+    const newer = freshScope();
+    const { counts, load } = counter();
+    for (let offset = 0; offset < 499; offset += 1) {
+      await cache.readCachedPage(oldest, pageQuery(offset), load, 0);
+    }
+    await cache.readCachedPage(newer, pageQuery(), load, 0);
+    await cache.readCachedPage(freshScope(), pageQuery(), load, 0);
+    assert.equal(counts.loads, 501);
+
+    await cache.readCachedPage(newer, pageQuery(), load, 1);
+    assert.equal(counts.loads, 501);
+    await cache.readCachedPage(oldest, pageQuery(0), load, 1);
+    assert.equal(counts.loads, 502);
+  });
+});
+
+describe("GET /api/scores conditional requests", () => {
+  let scores: typeof import("@/app/api/scores/route");
+  let scoreEvents: typeof import("@/lib/scoreEvents");
+  let Score: typeof import("@/models/Score").Score;
+
+  before(async () => {
+    const { ensureDb } = await import("@/lib/db");
+    scores = await import("@/app/api/scores/route");
+    scoreEvents = await import("@/lib/scoreEvents");
+    ({ Score } = await import("@/models/Score"));
+    await ensureDb();
+  });
+
+  const BOARD_URL = "http://localhost/api/scores?mode=kids";
+  const get = (etag?: string) =>
+    scores.GET(
+      new Request(BOARD_URL, {
+        headers: etag ? { "If-None-Match": etag } : {},
+      }),
+    );
+
+  it("answers 304 until a new score changes the page", async () => {
+    const first = await get();
+    const etag = first.headers.get("etag");
+    assert.equal(first.status, 200);
+    assert.ok(etag);
+
+    const unchanged = await get(etag);
+    assert.equal(unchanged.status, 304);
+    assert.equal(await unchanged.text(), "");
+
+    const scope = {
+      board: "classic" as const,
+      mode: "kids" as const,
+      boardDate: null,
+      eventId: null,
+    };
+    await Score.create({
+      name: "Newcomer",
+      candles: 4,
+      timeMs: 9000,
+      ...scope,
+    });
+    scoreEvents.announceBoardChange(scope);
+
+    const changed = await get(etag);
+    assert.equal(changed.status, 200);
+    assert.notEqual(changed.headers.get("etag"), etag);
+    const body = await changed.json();
+    assert.deepEqual(
+      body.scores.map((entry: { name: string }) => entry.name),
+      ["Newcomer"],
+    );
+  });
+});
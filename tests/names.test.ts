@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { checkName, isBlockedName } from "@/lib/names";
+
+describe("isBlockedName", () => {
+  it("allows ordinary names that contain or shorten to a blocked term", () => {
+    for (const name of [
+      "As",
+      "Alex as host",
+      "Team 455",
+      "Shitake fan",
+      "Scunthorpe United",
+      "Dickens",
+      "Grapefruit",
+      "Class hole",
+      "Bass",
+    ]) {
+      assert.equal(isBlockedName(name), false, name);
+    }
+  });
+
+  it("blocks whole words, leetspeak, look-alikes and stretched spellings", () => {
+    for (const name of [
+      "ass",
+      "Big Ass",
+      "a55",
+      "$h!t",
+      "shiiit",
+      "dіck",
+      "Big dick energy",
+    ]) {
+      assert.equal(isBlockedName(name), true, name);
+    }
+  });
+
+  it("blocks unambiguous stems anywhere in the name", () => {
+    for (const name of ["xXfuckXx", "f.u.c.k", "fuuuck", "MegaFaggot"]) {
+      assert.equal(isBlockedName(name), true, name);
+    }
+  });
+});
+
+describe("checkName", () => {
+  it("requires a name after trimming invisible characters", () => {
+    assert.equal(checkName(" ​ ").ok, false);
+  });
+
+  it("returns the cleaned name", () => {
+    assert.deepEqual(checkName("  Alex   as host "), {
+      ok: true,
+      name: "Alex as host",
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+
+process.env.SQLITE_STORAGE = ":memory:";
+delete process.env.DATABASE_URL;
+
+describe("event messages", () => {
+  let organizers: typeof import("@/lib/organizers");
+
+  before(async () => {
+    organizers = await import("@/lib/organizers");
+  });
+
+  const readMessage = (message: string) =>
+    organizers.readEventChanges({ message });
+
+  it("accepts ordinary sentences", () => {
+    for (const message of [
+      "Party as always!",
+      "Bring a glass, hole-in-one golf after cake.",
+      "Shitake risotto at 7, then games.",
+      "Class of 2005 reunion — Scunthorpe crew welcome.",
+      "Room 455, second floor.",
+      "Passes at the door.",
+    ]) {
+      assert.deepEqual(readMessage(message), { message }, message);
+    }
+  });
+
+  it("blocks blocked terms as whole words", () => {
+    for (const message of ["Don't be an ass", "Shit, we're late"]) {
+      const result = readMessage(message);
+      assert.equal("code" in result && result.code, "MESSAGE_BLOCKED", message);
+    }
+  });
+});
+
+describe("event validation errors", () => {
+  let organizers: typeof import("@/lib/organizers");
+
+  before(async () => {
+    organizers = await import("@/lib/organizers");
+  });
+
+  it("carries a stable code for every field", () => {
+    const valid = { honoree: "Alex", age: 29 };
+    const cases: [Record<string, unknown>, string][] = [
+      [{ ...valid, honoree: "" }, "NAME_REQUIRED"],
+      [{ ...valid, age: 0 }, "AGE_INVALID"],
+      [{ ...valid, slug: "A!" }, "SLUG_INVALID"],
+      [{ ...valid, theme: "neon" }, "THEME_INVALID"],
+      [{ ...valid, startDate: "tomorrow" }, "DATE_INVALID"],
+      [
+        { ...valid, startDate: "2026-05-02", endDate: "2026-05-01" },
+        "DATE_ORDER_INVALID",
+      ],
+      [{ ...valid, message: 42 }, "MESSAGE_INVALID"],
+    ];
+    for (const [body, code] of cases) {
+      const result = organizers.readEventInput(body);
+      assert.equal("code" in result && result.code, code, code);
+    }
+    const empty = organizers.readEventChanges({});
+    assert.equal("code" in empty && empty.code, "NOTHING_TO_CHANGE");
+  });
+});
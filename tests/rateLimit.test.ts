@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+
+describe("clientIp", () => {
+  let rateLimit: typeof import("@/lib/rateLimit");
+
+  before(async () => {
+    rateLimit = await import("@/lib/rateLimit");
+    rateLimit.setRateLimitStore(rateLimit.createMemoryStore());
+  });
+
+  const requestFrom = (headers: Record<string, string>) =>
+    new Request("http://localhost/api/scores", { method: "POST", headers });
+
+  it("reads the address the trusted proxy appended", () => {
+    const request = requestFrom({
+      "X-Forwarded-For": "203.0.113.9, 198.51.100.7",
+    });
+    assert.equal(rateLimit.clientIp(request), "198.51.100.7");
+    assert.equal(rateLimit.clientIp(request, 2), "203.0.113.9");
+    assert.equal(rateLimit.clientIp(request, 3), "203.0.113.9");
+    assert.equal(rateLimit.clientIp(request, 0), "unknown");
+  });
+
+  it("falls back to the platform's X-Real-IP", () => {
+    const request = requestFrom({ "X-Real-IP": "198.51.100.7" });
+    assert.equal(rateLimit.clientIp(request), "198.51.100.7");
+  });
+
+  it("keeps counting when a client rotates a spoofed entry", async () => {
+    const now = Date.now();
+    const results = [];
+    for (let attempt = 0; attempt < 4; attempt += 1) {
+      const request = requestFrom({
+        "X-Forwarded-For": `10.9.0.${attempt}, 198.51.100.20`,
+      });
+      results.push(
+        await rateLimit.checkRateLimit(
+          [`scores:ip:${rateLimit.clientIp(request)}`],
+          3,
+          60_000,
+          now,
+        ),
+      );
+    }
+    assert.deepEqual(
+      results.map((result) => result.allowed),
+      [true, true, true, false],
+    );
+  });
+});
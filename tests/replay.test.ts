@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_EVENT, eventConfig } from "@/lib/events";
+import { elapsedMs, replayRound } from "@/lib/game";
+import {
+  MAX_INPUTS,
+  readInputLog,
+  verifyRound,
+  type RoundClaim,
+} from "@/lib/replay";
+import { playRound } from "./helpers/rounds";
+
+const config = eventConfig("classic", DEFAULT_EVENT.age);
+const SEED = 1234;
+
+const honestClaim = (): RoundClaim => {
+  const { inputs } = playRound(SEED, 8);
+  const final = replayRound(SEED, inputs, config);
+  const timeMs = elapsedMs(final);
+  return {
+    seed: SEED,
+    startedAt: 1_000_000,
+    receivedAt: 1_000_000 + timeMs + 200,
+    candles: final.candlesPlaced,
+    points: final.points,
+    powerUps: { ...final.powerUps },
+    timeMs,
+    endReason: final.endReason ?? "time",
+    inputs,
+  };
+};
+
+const reasonFor = (changes: Partial<RoundClaim>) =>
+  verifyRound({ ...honestClaim(), ...changes }, config)?.reason ?? null;
+
+describe("verifyRound", () => {
+  it("accepts an honest round", () => {
+    const claim = honestClaim();
+    assert.ok(claim.candles > 0);
+    assert.equal(verifyRound(claim, config), null);
+  });
+
+  it("rejects every claimed total the replay disagrees with", () => {
+    const claim = honestClaim();
+    assert.equal(reasonFor({ endReason: "candles" }), "replay_end_reason");
+    assert.equal(reasonFor({ candles: claim.candles + 1 }), "replay_candles");
+    assert.equal(reasonFor({ timeMs: claim.timeMs - 1 }), "replay_time");
+    assert.equal(reasonFor({ points: claim.points! + 10 }), "replay_points");
+    assert.equal(
+      reasonFor({
+        powerUps: { ...claim.powerUps!, shield: claim.powerUps!.shield + 1 },
+      }),
+      "replay_power_ups",
+    );
+  });
+
+  it("rejects a round longer than the server saw, beyond the skew", () => {
+    const claim = honestClaim();
+    const atLimit = claim.startedAt + claim.timeMs - 1000;
+    assert.equal(verifyRound({ ...claim, receivedAt: atLimit }, config), null);
+    assert.equal(
+      verifyRound({ ...claim, receivedAt: atLimit - 1 }, config)?.reason,
+      "clock_mismatch",
+    );
+  });
+});
+
+describe("readInputLog", () => {
+  const entries = (count: number) =>
+    Array.from({ length: count }, (_, index) => ({
+      candleId: `c${index}`,
+      atMs: index * 10,
+    }));
+
+  it("accepts up to the input limit", () => {
+    assert.equal(readInputLog(entries(MAX_INPUTS))?.length, MAX_INPUTS);
+    assert.equal(readInputLog(entries(MAX_INPUTS + 1)), null);
+  });
+
+  it("accepts ties but rejects time going backwards", () => {
+    const tied = [
+      { candleId: "c1", atMs: 100 },
+      { candleId: "c2", atMs: 100 },
+    ];
+    assert.deepEqual(readInputLog(tied), tied);
+    assert.equal(
+      readInputLog([
+        { candleId: "c1", atMs: 200 },
+        { candleId: "c2", atMs: 150 },
+      ]),
+      null,
+    );
+  });
+
+  it("rejects malformed entries", () => {
+    for (const value of [
+      null,
+      "inputs",
+      [null],
+      [{ candleId: 7, atMs: 0 }],
+      [{ candleId: "c1", atMs: 1.5 }],
+      [{ candleId: "c".repeat(17), atMs: 0 }],
+    ]) {
+      assert.equal(readInputLog(value), null, JSON.stringify(value));
+    }
+  });
+});
@@ -0,0 +1,195 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { jsonRequest, playRound } from "./helpers/rounds";
+
+process.env.SQLITE_STORAGE = ":memory:";
+delete process.env.DATABASE_URL;
+
+type RoomBody = {
+  room: {
+    status: string;
+    participants: { name: string; candles: number; finished: boolean }[];
+  };
+};
+
+let rooms: typeof import("@/lib/rooms");
+let Player: typeof import("@/models/Player").Player;
+
+before(async () => {
+  const { ensureDb } = await import("@/lib/db");
+  rooms = await import("@/lib/rooms");
+  ({ Player } = await import("@/models/Player"));
+  await ensureDb();
+});
+
+const createPlayer = (displayName: string) =>
+  Player.create({ clientId: crypto.randomUUID(), displayName });
+
+const routeContext = (code: string) => ({ params: Promise.resolve({ code }) });
+
+describe("POST /api/rooms/[code]/finish", () => {
+  let finish: typeof import("@/app/api/rooms/[code]/finish/route");
+
+  before(async () => {
+    finish = await import("@/app/api/rooms/[code]/finish/route");
+  });
+
+  // Started long enough ago that a round played to the buzzer has had time
+  // to run on the server clock too.
+  const runningRoom = async () => {
+    const host = await createPlayer("Host");
+    const guest = await createPlayer("Guest");
+    const loaded = await rooms.createRoom(host);
+    await rooms.joinRoom(loaded, guest);
+    await rooms.startRoom(
+      loaded,
+      host,
+      new Date(Date.now() - rooms.ROOM_COUNTDOWN_MS - 16_000),
+    );
+    const { room } = await rooms.requireRoom(loaded.room.code);
+    assert.equal(room.status, "running");
+    assert.ok(room.seed !== null);
+    return { code: room.code, seed: room.seed, host, guest };
+  };
+
+  const submit = (
+    code: string,
+    player: { clientId: string },
+    round: Record<string, unknown>,
+  ) =>
+    finish.POST(
+      jsonRequest(
+        `http://localhost/api/rooms/${code}/finish`,
+        { clientId: player.clientId, ...round },
+        "203.0.113.5",
+      ),
+      routeContext(code),
+    );
+
+  it("records verified rounds and rejects forged or repeated ones", async () => {
+    const { code, seed, host, guest } = await runningRoom();
+    const hostRound = playRound(seed, 6);
+    const accepted = await submit(code, host, hostRound);
+    assert.equal(accepted.status, 200);
+    const { room } = (await accepted.json()) as RoomBody;
+    assert.deepEqual(
+      room.participants.map(({ name, candles, finished }) => ({
+        name,
+        candles,
+        finished,
+      })),
+      [
+        { name: "Host", candles: hostRound.candles, finished: true },
+        { name: "Guest", candles: 0, finished: false },
+      ],
+    );
+
+    const guestRound = playRound(seed, 3);
+    const forged = await submit(code, guest, {
+      ...guestRound,
+      candles: guestRound.candles + 1,
+    });
+    assert.equal(forged.status, 422);
+    assert.equal((await forged.json()).code, "ROUND_UNVERIFIED");
+
+    const repeated = await submit(code, host, hostRound);
+    assert.equal(repeated.status, 409);
+    assert.equal((await repeated.json()).code, "ROOM_FINISHED");
+
+    const honest = await submit(code, guest, guestRound);
+    assert.equal(honest.status, 200);
+    const final = (await honest.json()) as RoomBody;
+    assert.equal(final.room.status, "results");
+    assert.ok(final.room.participants.every((entry) => entry.finished));
+  });
+
+  it("turns away players outside the room", async () => {
+    const { code, seed } = await runningRoom();
+    const outsider = await createPlayer("Outsider");
+    const response = await submit(code, outsider, playRound(seed, 2));
+    assert.equal(response.status, 403);
+    assert.equal((await response.json()).code, "ROOM_JOIN_REQUIRED");
+  });
+
+  it("refuses rounds before the countdown ends", async () => {
+    const host = await createPlayer("Early");
+    const loaded = await rooms.createRoom(host);
+    await rooms.startRoom(loaded, host);
+    const { room } = await rooms.requireRoom(loaded.room.code);
+    assert.equal(room.status, "countdown");
+
+    const response = await submit(room.code, host, playRound(room.seed!, 2));
+    assert.equal(response.status, 409);
+    assert.equal((await response.json()).code, "ROOM_NOT_RUNNING");
+  });
+});
+
+describe("GET /api/rooms/[code]/stream", () => {
+  let stream: typeof import("@/app/api/rooms/[code]/stream/route");
+  let roomEvents: typeof import("@/lib/roomEvents");
+
+  before(async () => {
+    stream = await import("@/app/api/rooms/[code]/stream/route");
+    roomEvents = await import("@/lib/roomEvents");
+  });
+
+  const connect = async (code: string) => {
+    const controller = new AbortController();
+    const response = await stream.GET(
+      new Request(`http://localhost/api/rooms/${code}/stream`, {
+        signal: controller.signal,
+      }),
+      routeContext(code),
+    );
+    assert.equal(response.status, 200);
+    assert.ok(response.body);
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+
+    // Every write is one whole event, so each read is one event.
+    const nextNames = async () => {
+      for (;;) {
+        const { value, done } = await reader.read();
+        assert.ok(!done, "stream ended early");
+        const [event, data] = decoder.decode(value).split("\n");
+        if (event !== "event: room") continue;
+        const { room } = JSON.parse(data.slice("data: ".length)) as RoomBody;
+        return room.participants.map((entry) => entry.name);
+      }
+    };
+    return { nextNames, close: () => controller.abort() };
+  };
+
+  it("sends the whole room on connect and after each change", async () => {
+    const host = await createPlayer("Streamer");
+    const loaded = await rooms.createRoom(host);
+    const { code } = loaded.room;
+    const first = await connect(code);
+    assert.deepEqual(await first.nextNames(), ["Streamer"]);
+
+    await rooms.joinRoom(loaded, await createPlayer("Viewer"));
+    roomEvents.announceRoomChange(code);
+    assert.deepEqual(await first.nextNames(), ["Streamer", "Viewer"]);
+
+    // A client reconnecting while the room is watched gets the latest state
+    // straight away rather than waiting for the next change.
+    const second = await connect(code);
+    assert.deepEqual(await second.nextNames(), ["Streamer", "Viewer"]);
+    first.close();
+    second.close();
+
+    // Nobody hears this join, so the next connection has to read it fresh.
+    await rooms.joinRoom(
+      await rooms.requireRoom(code),
+      await createPlayer("Latecomer"),
+    );
+    roomEvents.announceRoomChange(code);
+    const third = await connect(code);
+    assert.deepEqual(await third.nextNames(), [
+      "Streamer",
+      "Viewer",
+      "Latecomer",
+    ]);
+    third.close();
+  });
+});
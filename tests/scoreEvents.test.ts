@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import type { BoardEvent } from "@/lib/scoreEvents";
+
+process.env.SQLITE_STORAGE = ":memory:";
+delete process.env.DATABASE_URL;
+
+describe("live board reconnects", () => {
+  let scoreEvents: typeof import("@/lib/scoreEvents");
+  let Score: typeof import("@/models/Score").Score;
+  const scope = {
+    board: "classic" as const,
+    mode: "inferno" as const,
+    boardDate: null,
+    eventId: null,
+  };
+
+  before(async () => {
+    const { ensureDb } = await import("@/lib/db");
+    scoreEvents = await import("@/lib/scoreEvents");
+    ({ Score } = await import("@/models/Score"));
+    await ensureDb();
+  });
+
+  const listen = async (lastEventId: number | null) => {
+    const events: BoardEvent[] = [];
+    const unsubscribe = await scoreEvents.subscribeToBoard(
+      scope,
+      lastEventId,
+      (event) => events.push(event),
+    );
+    return { events, unsubscribe };
+  };
+
+  it("sends a snapshot after a change made while nobody watched", async () => {
+    const first = await listen(null);
+    const [snapshot] = first.events;
+    assert.equal(snapshot.type, "snapshot");
+    first.unsubscribe();
+
+    await Score.create({ name: "Quiet", candles: 7, timeMs: 9000, ...scope });
+    scoreEvents.announceBoardChange(scope);
+
+    const second = await listen(snapshot.id);
+    second.unsubscribe();
+    assert.equal(second.events.length, 1);
+    assert.equal(second.events[0].type, "snapshot");
+    assert.deepEqual(
+      second.events[0].data.scores.map((entry) => entry.name),
+      ["Quiet"],
+    );
+  });
+
+  it("replays buffered updates to a client that was connected", async () => {
+    const watcher = await listen(null);
+    const [snapshot] = watcher.events;
+
+    await Score.create({ name: "Loud", candles: 9, timeMs: 9000, ...scope });
+    scoreEvents.announceBoardChange(scope);
+    const returning = await listen(snapshot.id);
+    watcher.unsubscribe();
+    returning.unsubscribe();
+
+    assert.deepEqual(
+      returning.events.map((event) => event.type),
+      ["update"],
+    );
+    assert.deepEqual(
+      returning.events[0].data.added.map((entry) => entry.name),
+      ["Loud"],
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import {
+  CLOCK_SHIFT_MS,
+  jsonRequest,
+  playRound,
+  resetClock,
+  shiftClock,
+} from "./helpers/rounds";
+
+process.env.SQLITE_STORAGE = ":memory:";
+delete process.env.DATABASE_URL;
+
+describe("pending Top 10 scores", () => {
+  let scores: typeof import("@/app/api/scores/route");
+  let verify: typeof import("@/app/api/scores/verify/route");
+  let sessions: typeof import("@/lib/sessions");
+  let mail: typeof import("@/lib/mail");
+  let verification: typeof import("@/lib/verification");
+  const sent: string[] = [];
+
+  before(async () => {
+    const { ensureDb } = await import("@/lib/db");
+    scores = await import("@/app/api/scores/route");
+    verify = await import("@/app/api/scores/verify/route");
+    sessions = await import("@/lib/sessions");
+    mail = await import("@/lib/mail");
+    verification = await import("@/lib/verification");
+    await ensureDb();
+  });
+
+  after(resetClock);
+
+  const submitPending = async (email: string, ip: string) => {
+    resetClock();
+    const session = await sessions.issueSession();
+    const round = playRound(session.seed, 2);
+    shiftClock(CLOCK_SHIFT_MS);
+    return scores.POST(
+      jsonRequest(
+        "http://localhost/api/scores",
+        { name: "Pending", ...round, email, sessionToken: session.token },
+        ip,
+      ),
+    );
+  };
+
+  it("saves the score without a placement when the email fails", async () => {
+    mail.setMailTransport({
+      send: async () => {
+        throw new Error("SMTP is down");
+      },
+    });
+    const response = await submitPending("down@example.com", "10.0.2.1");
+    const body = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.equal(body.pending, true);
+    assert.equal(body.placement, null);
+    assert.equal(body.verification.sent, false);
+    assert.equal(typeof body.verification.scoreId, "number");
+  });
+
+  it("resends the link to the address the score was saved with", async () => {
+    mail.setMailTransport({
+      send: async () => {
+        throw new Error("SMTP is down");
+      },
+    });
+    const response = await submitPending("retry@example.com", "10.0.2.2");
+    const { verification } = await response.json();
+    mail.setMailTransport({
+      send: async (message) => {
+        sent.push(message.to);
+      },
+    });
+
+    const resend = (email: string) =>
+      verify.POST(
+        jsonRequest(
+          "http://localhost/api/scores/verify",
+          { scoreId: verification.scoreId, email },
+          "10.0.2.2",
+        ),
+      );
+    const wrong = await resend("someone-else@example.com");
+    assert.equal(wrong.status, 404);
+    assert.equal((await wrong.json()).code, "VERIFICATION_NOT_FOUND");
+
+    const right = await resend("Retry@Example.com");
+    assert.equal(right.status, 200);
+    assert.deepEqual(sent, ["retry@example.com"]);
+  });
+
+  it("publishes once when the same link is opened twice at once", async () => {
+    const links: string[] = [];
+    mail.setMailTransport({
+      send: async (message) => {
+        links.push(message.text.match(/https?:\/\/\S+/)![0]);
+      },
+    });
+    const response = await submitPending("twice@example.com", "10.0.2.3");
+    assert.equal((await response.json()).verification.sent, true);
+    const token = new URL(links[0]).searchParams.get("token")!;
+
+    const confirmed = await Promise.all([
+      verification.confirmScoreVerification(token),
+      verification.confirmScoreVerification(token),
+    ]);
+    assert.equal(confirmed.filter(Boolean).length, 1);
+    assert.equal(confirmed.find(Boolean)?.status, "published");
+  });
+});
@@ -0,0 +1,168 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import {
+  CLOCK_SHIFT_MS,
+  jsonRequest,
+  playRound,
+  resetClock,
+  shiftClock,
+} from "./helpers/rounds";
+
+process.env.SQLITE_STORAGE = ":memory:";
+delete process.env.DATABASE_URL;
+
+const SUBMISSIONS = 16;
+
+describe("POST /api/scores under concurrent submissions", () => {
+  let scores: typeof import("@/app/api/scores/route");
+  let sessions: typeof import("@/lib/sessions");
+  let Player: typeof import("@/models/Player").Player;
+  let Score: typeof import("@/models/Score").Score;
+
+  before(async () => {
+    const { ensureDb } = await import("@/lib/db");
+    const { setMailTransport } = await import("@/lib/mail");
+    scores = await import("@/app/api/scores/route");
+    sessions = await import("@/lib/sessions");
+    ({ Player } = await import("@/models/Player"));
+    ({ Score } = await import("@/models/Score"));
+    await ensureDb();
+    setMailTransport({ send: async () => {} });
+  });
+
+  after(resetClock);
+
+  const submit = (body: Record<string, unknown>, ip: string) =>
+    scores.POST(jsonRequest("http://localhost/api/scores", body, ip));
+
+  it("admits every round once and keeps the Top 10 in board order", async () => {
+    const entries = await Promise.all(
+      Array.from({ length: SUBMISSIONS }, async (_, index) => {
+        const clientId = crypto.randomUUID();
+        const email = `player${index}@example.com`;
+        await Player.create({
+          clientId,
+          displayName: `Player ${index}`,
+          email,
+          emailVerifiedAt: new Date(),
+        });
+        const session = await sessions.issueSession();
+        return {
+          clientId,
+          email,
+          token: session.token,
+          round: playRound(session.seed, index + 1),
+        };
+      }),
+    );
+    shiftClock(CLOCK_SHIFT_MS);
+
+    const responses = await Promise.all(
+      entries.map((entry, index) =>
+        submit(
+          {
+            name: `Player ${index}`,
+            ...entry.round,
+            email: entry.email,
+            clientId: entry.clientId,
+            sessionToken: entry.token,
+          },
+          `10.0.0.${index + 1}`,
+        ),
+      ),
+    );
+    const bodies = await Promise.all(
+      responses.map((response) => response.json()),
+    );
+    assert.deepEqual(
+      responses.map((response) => response.status),
+      entries.map(() => 200),
+      JSON.stringify(bodies.filter((body) => body.error)),
+    );
+    assert.ok(bodies.every((body) => body.pending === false));
+
+    const saved = await Score.findAll({ where: { status: "published" } });
+    assert.equal(saved.length, SUBMISSIONS);
+    assert.equal(new Set(saved.map((entry) => entry.id)).size, SUBMISSIONS);
+
+    const expected = saved
+      .slice()
+      .sort(
+        (a, b) =>
+          b.candles - a.candles ||
+          a.timeMs - b.timeMs ||
+          a.createdAt.getTime() - b.createdAt.getTime(),
+      )
+      .slice(0, 10)
+      .map((entry) => entry.id);
+    const board = await scores.GET(
+      new Request("http://localhost/api/scores?limit=10"),
+    );
+    const { scores: top } = (await board.json()) as {
+      scores: { id: number }[];
+    };
+    assert.deepEqual(
+      top.map((entry) => entry.id),
+      expected,
+    );
+    const admitted = bodies.filter((body) => body.madeBoard);
+    assert.equal(admitted.length >= 10, true);
+  });
+
+  it("admits a round only once when its token is sent twice at once", async () => {
+    resetClock();
+    const session = await sessions.issueSession();
+    const round = playRound(session.seed, 3);
+    shiftClock(CLOCK_SHIFT_MS);
+    const before = await Score.count();
+
+    const responses = await Promise.all(
+      ["10.0.1.1", "10.0.1.2", "10.0.1.3"].map((ip) =>
+        submit(
+          { name: "Twice", ...round, sessionToken: session.token },
+          ip,
+        ),
+      ),
+    );
+    const statuses = responses.map((response) => response.status).sort();
+    assert.deepEqual(statuses, [200, 409, 409]);
+    assert.equal(await Score.count(), before + 1);
+  });
+
+  it("creates a player only for a round that passes verification", async () => {
+    resetClock();
+    const forged = await sessions.issueSession();
+    const honest = await sessions.issueSession();
+    const forgedRound = playRound(forged.seed, 2);
+    const honestRound = playRound(honest.seed, 2);
+    shiftClock(CLOCK_SHIFT_MS);
+    const forgerId = crypto.randomUUID();
+    const playerId = crypto.randomUUID();
+
+    const rejected = await submit(
+      {
+        name: "Forger",
+        ...forgedRound,
+        candles: forgedRound.candles + 1,
+        clientId: forgerId,
+        sessionToken: forged.token,
+      },
+      "10.0.2.1",
+    );
+    assert.equal(rejected.status, 422);
+    assert.equal(await Player.count({ where: { clientId: forgerId } }), 0);
+
+    const accepted = await submit(
+      {
+        name: "Verified",
+        ...honestRound,
+        clientId: playerId,
+        sessionToken: honest.token,
+      },
+      "10.0.2.2",
+    );
+    assert.equal(accepted.status, 200);
+    const player = await Player.findOne({ where: { clientId: playerId } });
+    assert.equal(player?.displayName, "Verified");
+  });
+});